@@ -18,6 +18,87 @@ if (fs.existsSync(envPath)) {
   dotenvExpand.expand(env);
 }
 
+/**
+ * Load connector definitions from a JSON file, falling back to the built-in connectors
+ * @param filePath Path of the definitions file (optional)
+ */
+function loadConnectorDefinitions(filePath?: string): {
+  name: string;
+  factory: string;
+  options?: Record<string, any>;
+  enabled?: boolean;
+  environments?: string[];
+}[] {
+  if (filePath) {
+    return JSON.parse(fs.readFileSync(path.resolve(process.cwd(), filePath), 'utf8'));
+  }
+  
+  return [
+    { name: 'ride-request', factory: 'ride-request' },
+    { name: 'driver-location', factory: 'driver-location' },
+    { name: 'weather', factory: 'weather' },
+    { name: 'traffic', factory: 'traffic' },
+    { name: 'events', factory: 'events' },
+    { name: 'social', factory: 'social' },
+    { name: 'flights', factory: 'flights' },
+    // Transit disruptions need a static GTFS feed to map stops to cells
+    { name: 'transit', factory: 'transit', enabled: Boolean(process.env.TRANSIT_GTFS_STATIC) },
+    // Upstream driver locations and ride requests, consumed once Kafka sources are enabled
+    {
+      name: 'kafka-driver-locations',
+      factory: 'kafka',
+      options: {
+        topic: process.env.KAFKA_TOPIC_DRIVER_LOCATIONS || 'driver-locations',
+        eventSource: 'driver-location-service',
+        mapper: 'driver-location',
+      },
+      enabled: process.env.KAFKA_SOURCES_ENABLED === 'true',
+    },
+    {
+      name: 'kafka-ride-requests',
+      factory: 'kafka',
+      options: {
+        topic: process.env.KAFKA_TOPIC_RIDE_REQUESTS || 'ride-requests',
+        eventSource: 'ride-request-api',
+        mapper: 'ride-request',
+      },
+      enabled: process.env.KAFKA_SOURCES_ENABLED === 'true',
+    },
+    // Webhook ingestion is only exposed once a signing secret is configured
+    { name: 'webhook', factory: 'webhook', enabled: Boolean(process.env.WEBHOOK_SECRET) },
+  ];
+}
+
+/**
+ * Parse per-topic wire formats, e.g. "driver-locations=avro:driverLocationSchema,surge-events=json"
+ * @param value Comma-separated topic formats
+ * @returns Wire format and Avro schema of each listed topic
+ */
+function parseTopicSerialization(value?: string): Record<string, { format: 'json' | 'avro'; schema?: string }> {
+  const topics: Record<string, { format: 'json' | 'avro'; schema?: string }> = {};
+  
+  for (const entry of (value || '').split(',').map(item => item.trim()).filter(Boolean)) {
+    const [topic, setting] = entry.split('=');
+    const [format, schema] = (setting || '').split(':');
+    
+    if (format !== 'json' && format !== 'avro') {
+      throw new Error(`Invalid wire format for topic ${topic}: ${setting}`);
+    }
+    
+    topics[topic.trim()] = { format, schema: schema || undefined };
+  }
+  
+  return topics;
+}
+
+// Partitions and replication factor of the Kafka topics
+const KAFKA_PARTITIONS = parseInt(process.env.KAFKA_DEFAULT_PARTITIONS || '6', 10);
+const KAFKA_REPLICATION_FACTOR = parseInt(process.env.KAFKA_REPLICATION_FACTOR || '1', 10);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far a GTFS-Realtime trip update may trail its feed's header time before it is stamped with the feed time
+const TRANSIT_MAX_UPDATE_AGE_MS = parseInt(process.env.TRANSIT_MAX_UPDATE_AGE_MS || '120000', 10);
+
 // Configuration object with typed values
 export const config = {
   env: NODE_ENV as 'development' | 'production' | 'test' | 'staging',
@@ -46,6 +127,103 @@ export const config = {
   pipeline: {
     intervalMs: parseInt(process.env.PIPELINE_INTERVAL_MS || '5000', 10),
     maxBatchSize: parseInt(process.env.MAX_BATCH_SIZE || '100', 10),
+    windowing: {
+      type: (process.env.PIPELINE_WINDOW_TYPE || 'tumbling') as 'tumbling' | 'sliding',
+      sizeMs: parseInt(process.env.PIPELINE_WINDOW_SIZE_MS || process.env.PIPELINE_INTERVAL_MS || '5000', 10),
+      slideMs: parseInt(process.env.PIPELINE_WINDOW_SLIDE_MS || '1000', 10),
+      allowedLatenessMs: parseInt(process.env.PIPELINE_ALLOWED_LATENESS_MS || '30000', 10),
+      triggerIntervalMs: parseInt(process.env.PIPELINE_WINDOW_TRIGGER_INTERVAL_MS || '1000', 10),
+      idleSourceTimeoutMs: parseInt(process.env.PIPELINE_IDLE_SOURCE_TIMEOUT_MS || '60000', 10),
+      defaultMaxOutOfOrdernessMs: parseInt(process.env.PIPELINE_MAX_OUT_OF_ORDERNESS_MS || '2000', 10),
+      // Per-connector watermark delay, keyed by DataEvent.source
+      maxOutOfOrdernessMs: {
+        'ride-request-api': 2000,
+        'driver-location-service': 2000,
+        'weather-api': 60000,
+        'traffic-api': 10000,
+        'events-api': 60000,
+        'transit-gtfs-rt': TRANSIT_MAX_UPDATE_AGE_MS,
+      } as Record<string, number>,
+    },
+    supply: {
+      staleAfterMs: parseInt(process.env.PIPELINE_DRIVER_STALE_AFTER_MS || '120000', 10),
+      // Driver availability states that count towards active supply
+      countedAvailability: (process.env.PIPELINE_DRIVER_COUNTED_AVAILABILITY || 'AVAILABLE')
+        .split(',') as ('AVAILABLE' | 'BUSY' | 'OFFLINE')[],
+    },
+    deadLetter: {
+      maxRetries: parseInt(process.env.PIPELINE_DLQ_MAX_RETRIES || '3', 10),
+      initialBackoffMs: parseInt(process.env.PIPELINE_DLQ_INITIAL_BACKOFF_MS || '200', 10),
+      maxBackoffMs: parseInt(process.env.PIPELINE_DLQ_MAX_BACKOFF_MS || '5000', 10),
+      backoffMultiplier: parseFloat(process.env.PIPELINE_DLQ_BACKOFF_MULTIPLIER || '2'),
+      // Number of entries kept in memory for inspection and replay
+      maxEntries: parseInt(process.env.PIPELINE_DLQ_MAX_ENTRIES || '1000', 10),
+    },
+    backpressure: {
+      // Bounded ingress queue per source, drained into the stage pipeline
+      queueCapacity: parseInt(process.env.PIPELINE_QUEUE_CAPACITY || '10000', 10),
+      defaultOverflowPolicy: (process.env.PIPELINE_OVERFLOW_POLICY || 'drop-oldest') as 'drop-oldest' | 'drop-newest' | 'dead-letter',
+      // Per-connector overflow policy, keyed by DataEvent.source
+      overflowPolicies: {
+        'ride-request-api': 'dead-letter',
+        'driver-location-service': 'drop-oldest',
+        'weather-api': 'drop-oldest',
+        'traffic-api': 'drop-oldest',
+        'events-api': 'dead-letter',
+        'social-api': 'drop-oldest',
+        'transit-gtfs-rt': 'drop-oldest',
+        'flights-api': 'drop-oldest',
+      } as Record<string, 'drop-oldest' | 'drop-newest' | 'dead-letter'>,
+      // Bounded queue per Kafka topic, flushed in batches of up to maxBatchSize
+      publishQueueCapacity: parseInt(process.env.PIPELINE_PUBLISH_QUEUE_CAPACITY || '10000', 10),
+      publishLingerMs: parseInt(process.env.PIPELINE_PUBLISH_LINGER_MS || '50', 10),
+    },
+    demand: {
+      bucketMs: parseInt(process.env.PIPELINE_DEMAND_BUCKET_MS || '10000', 10),
+      halfLifeMs: parseInt(process.env.PIPELINE_DEMAND_HALF_LIFE_MS || '300000', 10),
+      // Window used for surge factors and getDemandSupplyForH3 by default
+      defaultWindow: (process.env.PIPELINE_DEMAND_WINDOW || '15m') as '5m' | '15m' | '60m' | 'ewma',
+    },
+    // Avro validation of connector payloads before they enter the pipeline
+    validation: {
+      enabled: process.env.PIPELINE_VALIDATION_ENABLED !== 'false',
+      mode: (process.env.PIPELINE_VALIDATION_MODE || 'quarantine') as 'reject' | 'quarantine',
+      // Schema of each DataEvent.source; sources without one are not validated
+      schemas: {
+        'driver-location-service': 'driverLocationUpdateSchema',
+        'ride-request-api': 'rideRequestUpdateSchema',
+        'weather-api': 'weatherDataSchema',
+        'traffic-api': 'trafficDataSchema',
+        'events-api': 'eventListingSchema',
+        'social-api': 'socialBuzzSchema',
+        'transit-gtfs-rt': 'transitDisruptionSchema',
+        'flights-api': 'airportDemandSchema',
+      } as Record<string, string>,
+    },
+    dedup: {
+      maxEntriesPerSource: parseInt(process.env.PIPELINE_DEDUP_MAX_ENTRIES_PER_SOURCE || '100000', 10),
+      // Per-connector deduplication, keyed by DataEvent.source
+      sources: {
+        'ride-request-api': { enabled: true, ttlMs: 60 * 60 * 1000 },
+        'events-api': { enabled: true, ttlMs: 24 * 60 * 60 * 1000 },
+        'traffic-api': { enabled: true, ttlMs: 10 * 60 * 1000 },
+        'driver-location-service': { enabled: true, ttlMs: 5 * 60 * 1000 },
+      } as Record<string, { enabled: boolean; ttlMs: number }>,
+    },
+    checkpoint: {
+      store: (process.env.PIPELINE_CHECKPOINT_STORE || 'file') as 'file' | 'mongo' | 'redis' | 'none',
+      intervalMs: parseInt(process.env.PIPELINE_CHECKPOINT_INTERVAL_MS || '30000', 10),
+      filePath: process.env.PIPELINE_CHECKPOINT_FILE || './data/checkpoints/stream-processor.json',
+      mongoCollection: process.env.MONGODB_COLLECTION_PIPELINE_CHECKPOINTS || 'pipeline_checkpoints',
+      redisKey: process.env.PIPELINE_CHECKPOINT_REDIS_KEY || 'surge-streamer:checkpoint:stream-processor',
+    },
+    // Record every ingested event to files partitioned by source and hour
+    recording: {
+      enabled: process.env.PIPELINE_RECORDING_ENABLED === 'true',
+      directory: process.env.PIPELINE_RECORDING_DIR || './data/recordings',
+      format: (process.env.PIPELINE_RECORDING_FORMAT || 'ndjson') as 'ndjson' | 'avro',
+      maxOpenFiles: parseInt(process.env.PIPELINE_RECORDING_MAX_OPEN_FILES || '64', 10),
+    },
   },
   
   cache: {
@@ -67,9 +245,90 @@ export const config = {
       driverLocations: process.env.KAFKA_TOPIC_DRIVER_LOCATIONS || 'driver-locations',
       rideRequests: process.env.KAFKA_TOPIC_RIDE_REQUESTS || 'ride-requests',
       notifications: process.env.KAFKA_TOPIC_NOTIFICATIONS || 'notifications',
-      driverGuidance: process.env.KAFKA_TOPIC_DRIVER_GUIDANCE || 'driver-guidance'
+      driverGuidance: process.env.KAFKA_TOPIC_DRIVER_GUIDANCE || 'driver-guidance',
+      deadLetter: process.env.KAFKA_TOPIC_DEAD_LETTER || 'dead-letter',
+      // Latest prediction per location, compacted so it never loses the last one
+      latestPredictions: process.env.KAFKA_TOPIC_LATEST_PREDICTIONS || 'latest-predictions'
+    },
+    // Declarative spec of each topic above, reconciled with the cluster at startup
+    topicSpecs: {
+      locationData: { partitions: KAFKA_PARTITIONS, replicationFactor: KAFKA_REPLICATION_FACTOR, configs: { 'cleanup.policy': 'delete', 'retention.ms': String(DAY_MS) } },
+      surgeEvents: { partitions: KAFKA_PARTITIONS, replicationFactor: KAFKA_REPLICATION_FACTOR, configs: { 'cleanup.policy': 'delete', 'retention.ms': String(7 * DAY_MS) } },
+      predictionResults: { partitions: KAFKA_PARTITIONS, replicationFactor: KAFKA_REPLICATION_FACTOR, configs: { 'cleanup.policy': 'delete', 'retention.ms': String(7 * DAY_MS) } },
+      driverLocations: { partitions: KAFKA_PARTITIONS, replicationFactor: KAFKA_REPLICATION_FACTOR, configs: { 'cleanup.policy': 'delete', 'retention.ms': String(DAY_MS) } },
+      rideRequests: { partitions: KAFKA_PARTITIONS, replicationFactor: KAFKA_REPLICATION_FACTOR, configs: { 'cleanup.policy': 'delete', 'retention.ms': String(7 * DAY_MS) } },
+      notifications: { partitions: KAFKA_PARTITIONS, replicationFactor: KAFKA_REPLICATION_FACTOR, configs: { 'cleanup.policy': 'delete', 'retention.ms': String(DAY_MS) } },
+      driverGuidance: { partitions: KAFKA_PARTITIONS, replicationFactor: KAFKA_REPLICATION_FACTOR, configs: { 'cleanup.policy': 'delete', 'retention.ms': String(DAY_MS) } },
+      deadLetter: { partitions: 1, replicationFactor: KAFKA_REPLICATION_FACTOR, configs: { 'cleanup.policy': 'delete', 'retention.ms': String(30 * DAY_MS) } },
+      latestPredictions: { partitions: KAFKA_PARTITIONS, replicationFactor: KAFKA_REPLICATION_FACTOR, configs: { 'cleanup.policy': 'compact', 'min.compaction.lag.ms': '60000', 'segment.ms': String(DAY_MS / 24) } },
+    } as Record<string, { partitions: number; replicationFactor: number; configs: Record<string, string> }>,
+    // Partition geo messages by their H3 parent cell, so each area's messages share a partition
+    partitioning: {
+      strategy: (process.env.KAFKA_PARTITIONER || 'h3') as 'h3' | 'default',
+      h3Resolution: parseInt(process.env.KAFKA_PARTITION_H3_RESOLUTION || '7', 10),
+    },
+    // Transactional producers for grid cell and prediction outputs; the ID prefix must be unique per instance
+    transactions: {
+      enabled: process.env.KAFKA_TRANSACTIONS_ENABLED === 'true',
+      transactionalIdPrefix: process.env.KAFKA_TRANSACTIONAL_ID_PREFIX || 'surge-streamer',
+    },
+    // Outbox of messages written with their Mongo changes and relayed to Kafka; requires a replica set
+    outbox: {
+      enabled: process.env.OUTBOX_ENABLED === 'true',
+      collection: process.env.MONGODB_COLLECTION_OUTBOX || 'outbox',
+      pollIntervalMs: parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '1000', 10),
+      batchSize: parseInt(process.env.OUTBOX_BATCH_SIZE || '100', 10),
+      // How long published messages are kept for inspection
+      retentionHours: parseInt(process.env.OUTBOX_RETENTION_HOURS || '24', 10),
+    },
+    // Create missing topics and fix drifted partitions and configs at startup;
+    // opt-in, since it needs admin rights on the cluster
+    topicBootstrap: {
+      enabled: process.env.KAFKA_TOPIC_BOOTSTRAP_ENABLED === 'true',
     },
     consumerGroup: 'surge_prediction_group',
+    // Message value encoding; consumers read JSON and Confluent-framed Avro on every topic
+    serialization: {
+      // Topics written as Avro, with the schema of their values; unlisted topics are written as JSON
+      topics: parseTopicSerialization(process.env.KAFKA_TOPIC_FORMATS),
+      // Schema IDs written in the header of Avro messages; with the schema
+      // registry enabled, the IDs of the first registered version of each schema
+      schemaIds: {
+        driverLocationSchema: 1,
+        rideRequestSchema: 2,
+        weatherDataSchema: 3,
+        trafficDataSchema: 4,
+        eventDataSchema: 5,
+        surgePredictionSchema: 6,
+        surgePricingSchema: 7,
+        supplyDemandMetricsSchema: 8,
+        featureVectorSchema: 9,
+        systemHealthMetricsSchema: 10,
+        pipelineMetricsSchema: 11,
+        recordedEventSchema: 12,
+        driverLocationUpdateSchema: 13,
+        rideRequestUpdateSchema: 14,
+        eventListingSchema: 15,
+        socialBuzzSchema: 16,
+        transitDisruptionSchema: 17,
+        airportDemandSchema: 18,
+      } as Record<string, number>,
+    },
+    // Embedded registry of schema versions, checked against the code schemas at startup
+    schemaRegistry: {
+      enabled: process.env.SCHEMA_REGISTRY_ENABLED !== 'false',
+      store: (process.env.SCHEMA_REGISTRY_STORE || 'file') as 'file' | 'mongo',
+      filePath: process.env.SCHEMA_REGISTRY_FILE || './data/schema-registry/schemas.json',
+      mongoCollection: process.env.MONGODB_COLLECTION_SCHEMA_REGISTRY || 'schema_registry',
+      // Compatibility a new schema version must have with the latest registered version
+      compatibility: (process.env.SCHEMA_REGISTRY_COMPATIBILITY || 'BACKWARD') as 'NONE' | 'BACKWARD' | 'FORWARD' | 'FULL',
+    },
+    // Kafka source connectors, which consume upstream topics into the stream processor
+    sources: {
+      enabled: process.env.KAFKA_SOURCES_ENABLED === 'true',
+      groupId: process.env.KAFKA_SOURCE_GROUP_ID || 'surge-streamer-sources',
+      fromBeginning: process.env.KAFKA_SOURCE_FROM_BEGINNING === 'true',
+    },
     consumerConfig: {
       'auto.offset.reset': 'earliest',
       'enable.auto.commit': true
@@ -130,11 +389,126 @@ export const config = {
       apiKey: process.env.EVENTS_API_KEY || 'api-key',
       refreshIntervalMs: parseInt(process.env.EVENTS_REFRESH_INTERVAL_MS || '3600000', 10), // 1 hour
     },
+    transit: {
+      // Static GTFS zip with stops and routes, as a local path or URL
+      staticFeed: process.env.TRANSIT_GTFS_STATIC || '',
+      // GTFS-Realtime protobuf feeds with service alerts and trip updates, as local paths or URLs
+      realtimeFeeds: (process.env.TRANSIT_GTFS_REALTIME_FEEDS || '').split(',').filter(Boolean),
+      apiKey: process.env.TRANSIT_API_KEY || '',
+      refreshIntervalMs: parseInt(process.env.TRANSIT_REFRESH_INTERVAL_MS || '30000', 10), // 30 seconds
+      maxUpdateAgeMs: TRANSIT_MAX_UPDATE_AGE_MS,
+      // Trip delays at or above each threshold get the matching severity
+      delayThresholdsSeconds: {
+        LOW: parseInt(process.env.TRANSIT_DELAY_LOW_SECONDS || '180', 10),
+        MEDIUM: parseInt(process.env.TRANSIT_DELAY_MEDIUM_SECONDS || '600', 10),
+        HIGH: parseInt(process.env.TRANSIT_DELAY_HIGH_SECONDS || '1200', 10),
+      },
+    },
     social: {
       apiUrl: process.env.SOCIAL_API_URL || 'https://api.example.com/social',
       oauthKey: process.env.SOCIAL_OAUTH_KEY || 'oauth-key',
       oauthSecret: process.env.SOCIAL_OAUTH_SECRET || 'oauth-secret',
       refreshIntervalMs: parseInt(process.env.SOCIAL_REFRESH_INTERVAL_MS || '60000', 10), // 1 minute
+      buzz: {
+        // Smoothing factor of each cell's baseline buzz per poll
+        baselineAlpha: parseFloat(process.env.SOCIAL_BUZZ_BASELINE_ALPHA || '0.1'),
+        // A spike is a buzz score this many standard deviations above the baseline...
+        spikeZScore: parseFloat(process.env.SOCIAL_SPIKE_Z_SCORE || '3'),
+        // ...and at least this high, so quiet cells do not spike on a handful of posts
+        minSpikeScore: parseFloat(process.env.SOCIAL_SPIKE_MIN_SCORE || '10'),
+        // Polls before baselines are trusted for spike detection
+        warmupPolls: parseInt(process.env.SOCIAL_SPIKE_WARMUP_POLLS || '5', 10),
+      },
+    },
+    flights: {
+      apiUrl: process.env.FLIGHTS_API_URL || 'https://api.example.com/flights',
+      apiKey: process.env.FLIGHTS_API_KEY || 'api-key',
+      // CSV fixture of arrivals read instead of the API, e.g. for demos and load tests
+      fixtureFile: process.env.FLIGHTS_FIXTURE_FILE || '',
+      refreshIntervalMs: parseInt(process.env.FLIGHTS_REFRESH_INTERVAL_MS || '300000', 10), // 5 minutes
+      // Terminals of each airport, whose curbs get the expected demand
+      airports: [
+        {
+          code: 'SFO',
+          terminals: [
+            { terminal: '1', latitude: 37.6134, longitude: -122.3838 },
+            { terminal: '2', latitude: 37.6165, longitude: -122.3838 },
+            { terminal: '3', latitude: 37.6177, longitude: -122.3870 },
+            { terminal: 'I', latitude: 37.6160, longitude: -122.3915 },
+          ],
+        },
+        {
+          code: 'OAK',
+          terminals: [
+            { terminal: '1', latitude: 37.7117, longitude: -122.2129 },
+            { terminal: '2', latitude: 37.7126, longitude: -122.2143 },
+          ],
+        },
+      ],
+      passengerWave: {
+        bucketMinutes: parseInt(process.env.FLIGHTS_BUCKET_MINUTES || '15', 10),
+        // How far ahead of now expected demand is emitted
+        horizonMinutes: parseInt(process.env.FLIGHTS_HORIZON_MINUTES || '180', 10),
+        // Used when the provider does not report seats or load factor
+        defaultSeats: parseInt(process.env.FLIGHTS_DEFAULT_SEATS || '150', 10),
+        defaultLoadFactor: parseFloat(process.env.FLIGHTS_DEFAULT_LOAD_FACTOR || '0.85'),
+        // Minutes from landing until the middle of the passenger wave reaches the curb
+        domesticCurbMinutes: parseInt(process.env.FLIGHTS_DOMESTIC_CURB_MINUTES || '25', 10),
+        internationalCurbMinutes: parseInt(process.env.FLIGHTS_INTERNATIONAL_CURB_MINUTES || '50', 10),
+        // Minutes either side of the middle over which the wave is spread
+        waveSpreadMinutes: parseInt(process.env.FLIGHTS_WAVE_SPREAD_MINUTES || '20', 10),
+        // Share of arriving passengers who request a ride
+        rideShareRate: parseFloat(process.env.FLIGHTS_RIDE_SHARE_RATE || '0.15'),
+      },
+    },
+  },
+  
+  // Connector registry configuration
+  connectors: {
+    // Connector definitions: a JSON file if configured, otherwise the built-in connectors
+    // with their options taken from dataSources
+    definitions: loadConnectorDefinitions(process.env.CONNECTORS_CONFIG_FILE),
+    // Connector names to leave out, e.g. to disable a source in one environment
+    disabled: (process.env.CONNECTORS_DISABLED || '').split(',').filter(Boolean),
+    // Modules exporting registerConnectors(registry) to contribute connector factories
+    plugins: (process.env.CONNECTOR_PLUGINS || '').split(',').filter(Boolean),
+    // Random spread of polling intervals, as a fraction of the interval
+    jitterRatio: parseFloat(process.env.CONNECTOR_JITTER_RATIO || '0.1'),
+    // Generate mock data instead of calling the provider APIs
+    useMockData: (process.env.CONNECTORS_USE_MOCK_DATA || 'true') === 'true',
+    // Timeouts, retries and circuit breaking for provider API calls
+    resilience: {
+      timeoutMs: parseInt(process.env.CONNECTOR_TIMEOUT_MS || '5000', 10),
+      maxRetries: parseInt(process.env.CONNECTOR_MAX_RETRIES || '2', 10),
+      initialBackoffMs: parseInt(process.env.CONNECTOR_INITIAL_BACKOFF_MS || '500', 10),
+      maxBackoffMs: parseInt(process.env.CONNECTOR_MAX_BACKOFF_MS || '10000', 10),
+      backoffMultiplier: parseFloat(process.env.CONNECTOR_BACKOFF_MULTIPLIER || '2'),
+      jitterRatio: parseFloat(process.env.CONNECTOR_BACKOFF_JITTER_RATIO || '0.2'),
+      failureThreshold: parseInt(process.env.CONNECTOR_CIRCUIT_FAILURE_THRESHOLD || '5', 10),
+      resetTimeoutMs: parseInt(process.env.CONNECTOR_CIRCUIT_RESET_TIMEOUT_MS || '60000', 10),
+    },
+    // Webhook ingestion of events pushed by partners to POST /ingest/:source
+    webhook: {
+      // Shared HMAC-SHA256 secret for request signatures; sources may override it
+      secret: process.env.WEBHOOK_SECRET || '',
+      signatureHeader: process.env.WEBHOOK_SIGNATURE_HEADER || 'x-signature',
+      // How long an idempotency key is remembered to drop redelivered requests
+      idempotencyTtlMs: parseInt(process.env.WEBHOOK_IDEMPOTENCY_TTL_MS || '86400000', 10),
+      maxTrackedKeys: parseInt(process.env.WEBHOOK_MAX_TRACKED_KEYS || '100000', 10),
+      // Accepted sources: the Avro schema a body must match and the DataEvent source it is emitted as
+      sources: {
+        'ride-requests': { schema: 'rideRequestSchema', eventSource: 'ride-request-api' },
+        'driver-locations': { schema: 'driverLocationSchema', eventSource: 'driver-location-service' },
+        'weather': { schema: 'weatherDataSchema', eventSource: 'weather-api' },
+        'traffic': { schema: 'trafficDataSchema', eventSource: 'traffic-api' },
+        'events': { schema: 'eventDataSchema', eventSource: 'events-api' },
+      } as Record<string, { schema: string; eventSource: string; secret?: string }>,
+    },
+    // Defaults for the replay connector, which feeds recordings back through the pipeline
+    replay: {
+      directory: process.env.REPLAY_DIR || process.env.PIPELINE_RECORDING_DIR || './data/recordings',
+      // Playback speed multiplier, or 'max' to replay as fast as the pipeline accepts events
+      speed: (process.env.REPLAY_SPEED === 'max' ? 'max' : parseFloat(process.env.REPLAY_SPEED || '1')) as number | 'max',
     },
   },
   
@@ -211,6 +585,11 @@ export const config = {
    */
   h3: {
     resolution: 9,
+    // Coarser resolutions grid cell aggregates are rolled up to
+    rollupResolutions: (process.env.H3_ROLLUP_RESOLUTIONS || '7,6')
+      .split(',')
+      .filter(resolution => resolution.trim() !== '')
+      .map(resolution => parseInt(resolution, 10)),
   },
 
   /**
@@ -1,96 +1,392 @@
-import { EventEmitter } from 'events';
-import { DataEvent } from '../schemas/DataModels';
+import { Observable, Subject } from 'rxjs';
+import { DataSourceConnector, DataEvent, ConnectorMetadata, RejectedEvent } from './DataSourceConnector';
+import config from '../config';
+import { Logger } from '../utils/Logger';
+import { ResiliencePolicy, ResilienceOptions } from '../utils/ResiliencePolicy';
+import { IngressValidator, IngressValidationOptions } from '../pipeline/IngressValidator';
+import { AvroSchemaName } from '../utils/AvroUtils';
 
 /**
- * Base interface for all connectors
+ * Static description of a connector, completed with its live status by getMetadata
  */
-export interface Connector extends EventEmitter {
+export type ConnectorDescription = Omit<ConnectorMetadata, 'status' | 'lastConnected' | 'error' | 'rejectedEvents'>;
+
+/**
+ * Options for a recurring task
+ */
+export interface ScheduleOptions {
+  // Random spread applied to each interval, as a fraction of it
+  jitterRatio?: number;
+  // Run the task once straight away instead of after the first interval
+  runImmediately?: boolean;
+}
+
+/**
+ * Base class for all data source connectors
+ *
+ * Owns the connector lifecycle: connect and disconnect, pause and resume,
+ * the event stream and the metadata status. Status is 'disconnected' until
+ * connected, 'error' while the last scheduled task or connection attempt
+ * failed, and 'connected' otherwise. Subclasses open and close their
+ * source in `onConnect`/`onDisconnect` and produce events between
+ * `startProducing` and `stopProducing`, typically from tasks registered
+ * with `schedule`, which are cancelled automatically when production stops.
+ *
+ * Emitted events are validated against the Avro schema of their source, or
+ * the schema the connector received them in; invalid ones go to the rejected
+ * stream instead and are counted per source.
+ * Calls to provider APIs go through `callExternal`, which applies the
+ * connector's resilience policy; the connector reports 'error' while its
+ * circuit is not closed.
+ */
+export abstract class BaseConnector implements DataSourceConnector {
+  protected readonly logger: Logger;
+  protected readonly resilience: ResiliencePolicy;
+  private readonly lastKnownGood = new Map<string, any>();
+  private readonly eventStream = new Subject<DataEvent>();
+  private readonly rejectedStream = new Subject<RejectedEvent>();
+  private readonly validator = new IngressValidator(config.pipeline.validation as IngressValidationOptions);
+  private readonly rejectedEvents = new Map<string, number>();
+  private readonly timers = new Set<NodeJS.Timeout>();
+  private connected = false;
+  private paused = false;
+  private producing = false;
+  // Incremented whenever production stops, so runs in flight do not reschedule
+  private generation = 0;
+  private lastConnected?: Date;
+  private lastError?: Error;
+
+  /**
+   * Initialize the connector
+   * @param name Connector name used for logging
+   * @param resilienceOptions Timeout, retry and circuit breaker options for provider calls
+   */
+  constructor(protected readonly name: string, resilienceOptions: ResilienceOptions = config.connectors.resilience) {
+    this.logger = new Logger(name);
+    this.resilience = new ResiliencePolicy(name, resilienceOptions);
+  }
+
   /**
-   * Connect to the data source
+   * Connect to the data source and start producing events unless paused
    */
-  connect(): Promise<void>;
-  
+  async connect(): Promise<void> {
+    if (this.connected) {
+      this.logger.warn(`${this.name} is already connected`);
+      return;
+    }
+
+    try {
+      await this.onConnect();
+    } catch (error) {
+      this.reportError(error);
+      this.logger.error(`${this.name} failed to connect:`, error);
+      throw error;
+    }
+
+    this.connected = true;
+    this.lastConnected = new Date();
+    this.lastError = undefined;
+    this.logger.info(`${this.name} connected`);
+
+    if (!this.paused) {
+      this.beginProducing();
+    }
+  }
+
   /**
-   * Disconnect from the data source
+   * Stop producing events and disconnect from the data source
    */
-  disconnect(): Promise<void>;
-  
+  async disconnect(): Promise<void> {
+    if (!this.connected) {
+      this.logger.warn(`${this.name} is not connected`);
+      return;
+    }
+
+    this.endProducing();
+
+    try {
+      await this.onDisconnect();
+    } finally {
+      this.connected = false;
+      this.logger.info(`${this.name} disconnected`);
+    }
+  }
+
+  /**
+   * Stop producing events while staying connected
+   */
+  pause(): void {
+    if (this.paused) {
+      return;
+    }
+
+    this.paused = true;
+    this.endProducing();
+    this.logger.info(`${this.name} paused`);
+  }
+
   /**
-   * Start processing data
+   * Resume producing events after a pause
    */
-  start(): Promise<void>;
-  
+  resume(): void {
+    if (!this.paused) {
+      return;
+    }
+
+    this.paused = false;
+    if (this.connected) {
+      this.beginProducing();
+    }
+    this.logger.info(`${this.name} resumed`);
+  }
+
   /**
-   * Stop processing data
+   * Check if the connector is paused
    */
-  stop(): Promise<void>;
-  
+  isPaused(): boolean {
+    return this.paused;
+  }
+
   /**
    * Check if the connector is connected
    */
-  isConnected(): boolean;
-  
+  isConnected(): boolean {
+    return this.connected;
+  }
+
   /**
-   * Get the name of the connector
+   * Get the data stream from this connector
    */
-  getName(): string;
-}
+  getStream(): Observable<DataEvent> {
+    return this.eventStream.asObservable();
+  }
 
-/**
- * Base class for all connectors
- */
-export abstract class BaseConnector extends EventEmitter implements Connector {
-  protected connected: boolean = false;
-  protected name: string;
-  
   /**
-   * Initialize the connector
-   * @param name The name of the connector
+   * Get the stream of events that failed ingress validation
    */
-  constructor(name: string) {
-    super();
-    this.name = name;
+  getRejectedStream(): Observable<RejectedEvent> {
+    return this.rejectedStream.asObservable();
   }
-  
+
   /**
-   * Connect to the data source
+   * Get metadata about this connector
    */
-  abstract connect(): Promise<void>;
-  
+  getMetadata(): ConnectorMetadata {
+    const circuitError = this.resilience.getState() !== 'closed' ? this.resilience.getLastError() : undefined;
+    
+    let status: ConnectorMetadata['status'] = 'disconnected';
+    if (this.lastError || circuitError) {
+      status = 'error';
+    } else if (this.connected) {
+      status = 'connected';
+    }
+
+    return {
+      ...this.describe(),
+      status,
+      lastConnected: this.lastConnected,
+      error: this.lastError || circuitError,
+      rejectedEvents: Object.fromEntries(this.rejectedEvents),
+    };
+  }
+
   /**
-   * Disconnect from the data source
+   * Describe the connector
    */
-  abstract disconnect(): Promise<void>;
-  
+  protected abstract describe(): ConnectorDescription;
+
   /**
-   * Start processing data
+   * Open the connection to the data source
    */
-  abstract start(): Promise<void>;
-  
+  protected async onConnect(): Promise<void> {
+    // Nothing to open by default
+  }
+
   /**
-   * Stop processing data
+   * Close the connection to the data source
    */
-  abstract stop(): Promise<void>;
-  
+  protected async onDisconnect(): Promise<void> {
+    // Nothing to close by default
+  }
+
   /**
-   * Check if the connector is connected
+   * Start producing events
    */
-  isConnected(): boolean {
-    return this.connected;
+  protected abstract startProducing(): void;
+
+  /**
+   * Stop producing events; scheduled tasks are cancelled by the base class
+   */
+  protected stopProducing(): void {
+    // Nothing to stop by default
+  }
+
+  /**
+   * Emit a data event on the connector stream, or on the rejected stream if it fails validation
+   * @param event Data event
+   * @param schemaName Schema the payload is in, if not the schema configured for its source (optional)
+   */
+  protected emitEvent(event: DataEvent, schemaName?: AvroSchemaName): void {
+    const errors = this.validator.validate(event, schemaName);
+    if (errors.length > 0) {
+      this.rejectedEvents.set(event.source, (this.rejectedEvents.get(event.source) || 0) + 1);
+      this.logger.warn(`Rejected invalid ${event.source} event: ${errors.join('; ')}`);
+      this.rejectedStream.next({ event, errors });
+      return;
+    }
+
+    this.eventStream.next(event);
+  }
+
+  /**
+   * Call a provider API through the resilience policy
+   *
+   * Successful results are remembered per key. When the call fails or the
+   * circuit is open, the last-known-good result for the key is returned,
+   * or the fallback's result if there is none yet.
+   * @param key Key identifying the request, e.g. a location
+   * @param operation Call to the provider
+   * @param fallback Generates a substitute result, e.g. mock data (optional)
+   * @returns The provider's result or a fallback
+   * @throws If the call fails and there is nothing to fall back to
+   */
+  protected async callExternal<T>(key: string, operation: () => Promise<T>, fallback?: () => T): Promise<T> {
+    try {
+      const result = await this.resilience.execute(operation);
+      this.lastKnownGood.set(key, result);
+      return result;
+    } catch (error) {
+      if (this.lastKnownGood.has(key)) {
+        return this.lastKnownGood.get(key) as T;
+      }
+      if (fallback) {
+        return fallback();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record a failure, putting the connector in the error state
+   * @param error Error that occurred
+   */
+  protected reportError(error: unknown): void {
+    this.lastError = error instanceof Error ? error : new Error(String(error));
+  }
+
+  /**
+   * Clear the error state after a successful operation
+   */
+  protected clearError(): void {
+    this.lastError = undefined;
+  }
+
+  /**
+   * Run a task repeatedly while the connector is producing
+   *
+   * The next run is scheduled only after the previous one settles, so runs
+   * never overlap. A failed run puts the connector in the error state and a
+   * successful one clears it.
+   * @param task Task to run
+   * @param intervalMs Interval between runs
+   * @param options Schedule options
+   */
+  protected schedule(task: () => void | Promise<void>, intervalMs: number, options: ScheduleOptions = {}): void {
+    const jitterRatio = options.jitterRatio ?? config.connectors.jitterRatio;
+    const generation = this.generation;
+
+    const run = async (): Promise<void> => {
+      try {
+        await task();
+        this.clearError();
+      } catch (error) {
+        this.reportError(error);
+        this.logger.error(`${this.name} task failed:`, error);
+      }
+
+      if (this.producing && generation === this.generation) {
+        next(this.getJitteredInterval(intervalMs, jitterRatio));
+      }
+    };
+
+    const next = (delayMs: number): void => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        run();
+      }, delayMs);
+      this.timers.add(timer);
+    };
+
+    next(options.runImmediately ? 0 : this.getJitteredInterval(intervalMs, jitterRatio));
+  }
+
+  /**
+   * Start producing if not already
+   * @private
+   */
+  private beginProducing(): void {
+    if (this.producing) {
+      return;
+    }
+
+    this.producing = true;
+    this.startProducing();
+  }
+
+  /**
+   * Stop producing and cancel scheduled tasks
+   * @private
+   */
+  private endProducing(): void {
+    if (!this.producing) {
+      return;
+    }
+
+    this.producing = false;
+    this.generation++;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.stopProducing();
   }
-  
+
   /**
-   * Get the name of the connector
+   * Spread an interval randomly by the jitter ratio
+   * @param intervalMs Interval in milliseconds
+   * @param jitterRatio Jitter as a fraction of the interval
+   * @private
    */
-  getName(): string {
-    return this.name;
+  private getJitteredInterval(intervalMs: number, jitterRatio: number): number {
+    return Math.max(0, intervalMs * (1 + (Math.random() * 2 - 1) * jitterRatio));
   }
-  
+}
+
+/**
+ * Base class for connectors that poll their data source on an interval
+ */
+export abstract class PollingConnector extends BaseConnector {
   /**
-   * Emit a data event
-   * @param event The data event to emit
+   * Initialize the polling connector
+   * @param name Connector name used for logging
+   * @param pollIntervalMs Interval between polls
+   * @param pollImmediately Poll as soon as production starts
    */
-  protected emitData(event: DataEvent): void {
-    this.emit('data', event);
+  constructor(
+    name: string,
+    protected readonly pollIntervalMs: number,
+    private readonly pollImmediately: boolean = true
+  ) {
+    super(name);
   }
-} 
\ No newline at end of file
+
+  /**
+   * Fetch from the data source and emit the resulting events
+   */
+  protected abstract poll(): Promise<void>;
+
+  /**
+   * Start polling
+   */
+  protected startProducing(): void {
+    this.schedule(() => this.poll(), this.pollIntervalMs, { runImmediately: this.pollImmediately });
+  }
+}
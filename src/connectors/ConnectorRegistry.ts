@@ -0,0 +1,238 @@
+import * as path from 'path';
+import { DataSourceConnector, ConnectorMetadata } from './DataSourceConnector';
+import { RideRequestConnector } from './RideRequestConnector';
+import { DriverLocationConnector } from './DriverLocationConnector';
+import { WeatherConnector } from './WeatherConnector';
+import { TrafficConnector } from './TrafficConnector';
+import { EventsConnector } from './EventsConnector';
+import { SocialConnector } from './SocialConnector';
+import { TransitConnector } from './TransitConnector';
+import { FlightsConnector } from './FlightsConnector';
+import { KafkaSourceConnector } from './KafkaSourceConnector';
+import { ReplayConnector } from './ReplayConnector';
+import { WebhookConnector } from './WebhookConnector';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Function that creates a connector from its configured options
+ */
+export type ConnectorFactory = (options: Record<string, any>) => DataSourceConnector;
+
+/**
+ * Declaration of a connector instance
+ */
+export interface ConnectorDefinition {
+  name: string;
+  factory: string;
+  options?: Record<string, any>;
+  enabled?: boolean;
+  // Environments the connector runs in (all if omitted)
+  environments?: string[];
+}
+
+/**
+ * Module that contributes connector factories
+ */
+export interface ConnectorPlugin {
+  registerConnectors(registry: ConnectorRegistry): void;
+}
+
+/**
+ * Built-in connector factories
+ */
+export const BUILT_IN_FACTORIES: Record<string, ConnectorFactory> = {
+  'ride-request': options => new RideRequestConnector(options.apiUrl, options.clientId, options.clientSecret, options.refreshIntervalMs),
+  'driver-location': options => new DriverLocationConnector(
+    options.wsUrl,
+    options.jwtSecret,
+    options.reconnectIntervalMs,
+    options.heartbeatIntervalMs,
+    options.refreshIntervalMs
+  ),
+  'weather': options => new WeatherConnector(options.refreshIntervalMs),
+  'traffic': options => new TrafficConnector(options.apiUrl, options.apiKey, options.refreshIntervalMs),
+  'events': options => new EventsConnector(options.apiUrl, options.apiKey, options.refreshIntervalMs),
+  'social': options => new SocialConnector(options.apiUrl, options.oauthKey, options.oauthSecret, options.refreshIntervalMs, options.buzz),
+  'transit': options => new TransitConnector(
+    options.staticFeed,
+    options.realtimeFeeds,
+    options.apiKey,
+    options.refreshIntervalMs,
+    options.delayThresholdsSeconds,
+    options.maxUpdateAgeMs
+  ),
+  'flights': options => new FlightsConnector(
+    options.apiUrl,
+    options.apiKey,
+    options.fixtureFile,
+    options.refreshIntervalMs,
+    options.airports,
+    options.passengerWave
+  ),
+  'kafka': options => new KafkaSourceConnector({
+    topic: options.topic,
+    groupId: options.groupId,
+    eventSource: options.eventSource,
+    format: options.format,
+    framing: options.framing,
+    schema: options.schema,
+    mapper: options.mapper,
+    fromBeginning: options.fromBeginning,
+  }),
+  'webhook': options => new WebhookConnector(options),
+  'replay': options => new ReplayConnector({
+    directory: options.directory,
+    speed: options.speed,
+    sources: options.sources,
+    from: options.from ? new Date(options.from) : undefined,
+    to: options.to ? new Date(options.to) : undefined,
+  }),
+};
+
+/**
+ * Registry of connector factories and the connector instances created from them
+ *
+ * Connectors are keyed by their definition name, so several instances of the
+ * same factory can run side by side with different options.
+ */
+export class ConnectorRegistry {
+  private factories = new Map<string, ConnectorFactory>();
+  private connectors = new Map<string, { definition: ConnectorDefinition; connector: DataSourceConnector }>();
+  private logger: Logger;
+
+  /**
+   * Create a new connector registry
+   * @param factories Initial connector factories by name
+   */
+  constructor(factories: Record<string, ConnectorFactory> = BUILT_IN_FACTORIES) {
+    this.logger = new Logger('ConnectorRegistry');
+    Object.entries(factories).forEach(([name, factory]) => this.registerFactory(name, factory));
+  }
+
+  /**
+   * Register a connector factory
+   * @param name Factory name referenced by connector definitions
+   * @param factory Connector factory
+   */
+  registerFactory(name: string, factory: ConnectorFactory): void {
+    if (this.factories.has(name)) {
+      this.logger.warn(`Replacing connector factory ${name}`);
+    }
+    this.factories.set(name, factory);
+  }
+
+  /**
+   * Check whether a connector factory is registered
+   * @param name Factory name
+   */
+  hasFactory(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  /**
+   * Load connector plugins
+   * @param modulePaths Plugin module paths, relative to the working directory
+   */
+  async loadPlugins(modulePaths: string[]): Promise<void> {
+    for (const modulePath of modulePaths) {
+      const plugin = await import(path.resolve(process.cwd(), modulePath)) as Partial<ConnectorPlugin>;
+
+      if (typeof plugin.registerConnectors !== 'function') {
+        throw new Error(`Connector plugin ${modulePath} does not export registerConnectors`);
+      }
+
+      plugin.registerConnectors(this);
+      this.logger.info(`Loaded connector plugin ${modulePath}`);
+    }
+  }
+
+  /**
+   * Check whether a connector definition is enabled
+   * @param definition Connector definition
+   * @param env Current environment
+   * @param disabled Names of connectors disabled by configuration
+   */
+  isEnabled(definition: ConnectorDefinition, env: string, disabled: string[] = []): boolean {
+    if (definition.enabled === false || disabled.includes(definition.name)) {
+      return false;
+    }
+
+    return !definition.environments || definition.environments.includes(env);
+  }
+
+  /**
+   * Create a connector from its definition and add it to the registry
+   * @param definition Connector definition
+   * @returns The created connector
+   */
+  create(definition: ConnectorDefinition): DataSourceConnector {
+    if (this.connectors.has(definition.name)) {
+      throw new Error(`Connector ${definition.name} is already registered`);
+    }
+
+    const factory = this.factories.get(definition.factory);
+    if (!factory) {
+      throw new Error(`Unknown connector factory ${definition.factory} for connector ${definition.name}`);
+    }
+
+    const connector = factory(definition.options || {});
+    this.connectors.set(definition.name, { definition, connector });
+
+    return connector;
+  }
+
+  /**
+   * Remove a connector from the registry
+   * @param name Connector name
+   * @returns The removed connector, or undefined if it was not registered
+   */
+  remove(name: string): DataSourceConnector | undefined {
+    const registered = this.connectors.get(name);
+    this.connectors.delete(name);
+
+    return registered?.connector;
+  }
+
+  /**
+   * Get a connector by name
+   * @param name Connector name
+   */
+  get(name: string): DataSourceConnector | undefined {
+    return this.connectors.get(name)?.connector;
+  }
+
+  /**
+   * Check whether a connector is registered
+   * @param name Connector name
+   */
+  has(name: string): boolean {
+    return this.connectors.has(name);
+  }
+
+  /**
+   * Get every registered connector
+   */
+  getAll(): DataSourceConnector[] {
+    return Array.from(this.connectors.values()).map(({ connector }) => connector);
+  }
+
+  /**
+   * Get the definitions of every registered connector
+   */
+  getDefinitions(): ConnectorDefinition[] {
+    return Array.from(this.connectors.values()).map(({ definition }) => definition);
+  }
+
+  /**
+   * Get connector metadata by connector name
+   */
+  getStatus(): Record<string, ConnectorMetadata> {
+    const status: Record<string, ConnectorMetadata> = {};
+
+    for (const [name, { connector }] of this.connectors.entries()) {
+      status[name] = connector.getMetadata();
+    }
+
+    return status;
+  }
+}
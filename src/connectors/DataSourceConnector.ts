@@ -11,6 +11,8 @@ export interface ConnectorMetadata {
   lastConnected?: Date;
   status: 'connected' | 'disconnected' | 'error';
   error?: Error;
+  // Events that failed ingress validation, per DataEvent.source
+  rejectedEvents?: Record<string, number>;
 }
 
 /**
@@ -23,6 +25,14 @@ export interface DataEvent {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Event that failed ingress validation, with the reasons
+ */
+export interface RejectedEvent {
+  event: DataEvent;
+  errors: string[];
+}
+
 /**
  * Interface for all data source connectors
  */
@@ -51,4 +61,25 @@ export interface DataSourceConnector {
    * Get metadata about this connector
    */
   getMetadata(): ConnectorMetadata;
+
+  /**
+   * Get the stream of events that failed ingress validation (optional)
+   */
+  getRejectedStream?(): Observable<RejectedEvent>;
+
+  /**
+   * Get the source offsets consumed so far, for checkpointing (optional)
+   */
+  getCheckpointOffsets?(): Record<string, string>;
+
+  /**
+   * Resume consumption from checkpointed source offsets (optional)
+   * @param offsets Offsets previously returned by getCheckpointOffsets
+   */
+  restoreOffsets?(offsets: Record<string, string>): void;
+
+  /**
+   * Get the Kafka consumer group whose offsets are committed with transactional outputs (optional)
+   */
+  getConsumerGroupId?(): string;
 } 
\ No newline at end of file
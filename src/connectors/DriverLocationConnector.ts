@@ -1,5 +1,5 @@
-import { Subject, Observable } from 'rxjs';
-import { DataSourceConnector, DataEvent, ConnectorMetadata } from './DataSourceConnector';
+import { DataEvent } from './DataSourceConnector';
+import { BaseConnector, ConnectorDescription } from './Connector';
 import config from '../config';
 import WebSocket from 'ws';
 
@@ -21,13 +21,8 @@ export interface DriverLocation {
 /**
  * Connector for the Driver Location WebSocket service
  */
-export class DriverLocationConnector implements DataSourceConnector {
-  private eventStream: Subject<DataEvent>;
-  private connected: boolean = false;
+export class DriverLocationConnector extends BaseConnector {
   private ws: WebSocket | null = null;
-  private reconnectInterval: NodeJS.Timeout | null = null;
-  private heartbeatInterval: NodeJS.Timeout | null = null;
-  private mockInterval: NodeJS.Timeout | null = null;
 
   constructor(
     private readonly wsUrl: string = config.dataSources.driverLocation.wsUrl,
@@ -36,78 +31,37 @@ export class DriverLocationConnector implements DataSourceConnector {
     private readonly heartbeatIntervalMs: number = 30000,
     private readonly mockIntervalMs: number = config.dataSources.driverLocation.refreshIntervalMs || 1000,
   ) {
-    this.eventStream = new Subject<DataEvent>();
+    super('DriverLocationConnector');
   }
 
   /**
-   * Connect to the Driver Location WebSocket service
+   * Close the Driver Location WebSocket connection
    */
-  async connect(): Promise<void> {
-    try {
-      // In a real implementation, this would connect to a WebSocket
-      // For now, we'll simulate with mock data
-      this.startMockDataGeneration();
-      this.connected = true;
-      console.log('Connected to Driver Location service');
-    } catch (error) {
-      console.error('Failed to connect to Driver Location service:', error);
-      throw new Error('Connection failed');
-    }
-  }
-
-  /**
-   * Disconnect from the Driver Location WebSocket service
-   */
-  async disconnect(): Promise<void> {
+  protected async onDisconnect(): Promise<void> {
     if (this.ws) {
       this.ws.close();
       this.ws = null;
     }
-
-    if (this.reconnectInterval) {
-      clearInterval(this.reconnectInterval);
-      this.reconnectInterval = null;
-    }
-
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval);
-      this.heartbeatInterval = null;
-    }
-
-    if (this.mockInterval) {
-      clearInterval(this.mockInterval);
-      this.mockInterval = null;
-    }
-
-    this.connected = false;
-    console.log('Disconnected from Driver Location service');
-  }
-
-  /**
-   * Check if connected to the Driver Location WebSocket service
-   */
-  isConnected(): boolean {
-    return this.connected;
   }
 
   /**
-   * Get the stream of driver location events
+   * Start streaming driver locations
    */
-  getStream(): Observable<DataEvent> {
-    return this.eventStream.asObservable();
+  protected startProducing(): void {
+    // In a real implementation, this would stream from the WebSocket
+    // For now, we'll simulate with mock data
+    this.startMockDataGeneration();
   }
 
   /**
-   * Get metadata about this connector
+   * Describe the connector
    */
-  getMetadata(): ConnectorMetadata {
+  protected describe(): ConnectorDescription {
     return {
       name: 'Driver Location Service',
       type: 'WebSocket',
       description: 'Connects to the Driver Location WebSocket service for real-time driver locations',
       updateFrequency: 'Continuous (1-5 sec intervals)',
-      lastConnected: this.connected ? new Date() : undefined,
-      status: this.connected ? 'connected' : 'disconnected',
     };
   }
 
@@ -135,7 +89,7 @@ export class DriverLocationConnector implements DataSourceConnector {
       });
     });
     
-    this.mockInterval = setInterval(() => {
+    this.schedule(() => {
       // Select a random subset of drivers to update (30% of drivers)
       const driversToUpdate = driverIds.filter(() => Math.random() < 0.3);
       
@@ -191,7 +145,7 @@ export class DriverLocationConnector implements DataSourceConnector {
           payload: driverLocation,
         };
         
-        this.eventStream.next(event);
+        this.emitEvent(event);
       });
     }, this.mockIntervalMs);
   }
@@ -233,7 +187,7 @@ export class DriverLocationConnector implements DataSourceConnector {
           payload: driverLocation,
         };
         
-        this.eventStream.next(dataEvent);
+        this.emitEvent(dataEvent);
       }
     } catch (error) {
       console.error('Error handling WebSocket message:', error);
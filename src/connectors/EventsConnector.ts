@@ -1,12 +1,9 @@
-import { Subject, Observable } from 'rxjs';
 import axios, { AxiosInstance } from 'axios';
-import { DataSourceConnector, DataEvent, ConnectorMetadata } from './DataSourceConnector';
+import { DataEvent } from './DataSourceConnector';
 import { EventData, EventVenue } from '../schemas/DataModels';
 import config from '../config';
 import * as GeospatialUtils from '../utils/GeospatialUtils';
-import { EventEmitter } from 'events';
-import { BaseConnector } from './Connector';
-import { Logger } from '../utils/Logger';
+import { PollingConnector, ConnectorDescription } from './Connector';
 
 /**
  * Event types for city events
@@ -16,11 +13,8 @@ type EventType = 'CONCERT' | 'SPORTS' | 'FESTIVAL' | 'CONFERENCE' | 'PARADE' | '
 /**
  * Connector for the Events API service
  */
-export class EventsConnector implements DataSourceConnector {
+export class EventsConnector extends PollingConnector {
   private apiClient: AxiosInstance;
-  private eventStream: Subject<DataEvent>;
-  private connected: boolean = false;
-  private pollingInterval: NodeJS.Timeout | null = null;
   private venues: EventVenue[] = [];
 
   /**
@@ -32,8 +26,9 @@ export class EventsConnector implements DataSourceConnector {
   constructor(
     private readonly apiUrl: string = config.dataSources.events.apiUrl,
     private readonly apiKey: string = config.dataSources.events.apiKey,
-    private readonly refreshIntervalMs: number = config.dataSources.events.refreshIntervalMs || 3600000, // 1 hour
+    refreshIntervalMs: number = config.dataSources.events.refreshIntervalMs || 3600000, // 1 hour
   ) {
+    super('EventsConnector', refreshIntervalMs);
     this.apiClient = axios.create({
       baseURL: apiUrl,
       timeout: 10000,
@@ -41,132 +36,90 @@ export class EventsConnector implements DataSourceConnector {
         'X-API-Key': apiKey,
       },
     });
-    this.eventStream = new Subject<DataEvent>();
 
     // Initialize with mock venues (in a real implementation, these would be fetched from the API)
     this.initializeMockVenues();
   }
 
   /**
-   * Connect to the Events API service
+   * Describe the connector
    */
-  async connect(): Promise<void> {
-    try {
-      // Test the API connection
-      await this.fetchEvents();
-      
-      // Start polling for events data
-      this.startPolling();
-      this.connected = true;
-      console.log('Connected to Events API service');
-    } catch (error) {
-      console.error('Failed to connect to Events API service:', error);
-      throw new Error('Connection failed');
-    }
-  }
-
-  /**
-   * Disconnect from the Events API service
-   */
-  async disconnect(): Promise<void> {
-    if (this.pollingInterval) {
-      clearInterval(this.pollingInterval);
-      this.pollingInterval = null;
-    }
-    this.connected = false;
-    console.log('Disconnected from Events API service');
-  }
-
-  /**
-   * Check if connected to the Events API service
-   */
-  isConnected(): boolean {
-    return this.connected;
-  }
-
-  /**
-   * Get the stream of events data
-   */
-  getStream(): Observable<DataEvent> {
-    return this.eventStream.asObservable();
-  }
-
-  /**
-   * Get metadata about this connector
-   */
-  getMetadata(): ConnectorMetadata {
+  protected describe(): ConnectorDescription {
     return {
       name: 'Events API Service',
       type: 'REST API',
       description: 'Connects to the Events API service for city-wide events data',
-      updateFrequency: `${this.refreshIntervalMs / 1000 / 60} minutes`,
-      lastConnected: this.connected ? new Date() : undefined,
-      status: this.connected ? 'connected' : 'disconnected',
+      updateFrequency: `${this.pollIntervalMs / 1000 / 60} minutes`,
     };
   }
 
   /**
-   * Start polling for events data
-   * @private
+   * Fetch events data for all venues
    */
-  private startPolling(): void {
-    // Immediately fetch data
-    this.fetchEvents();
-
-    // Set up polling interval
-    this.pollingInterval = setInterval(() => {
-      this.fetchEvents();
-    }, this.refreshIntervalMs);
+  protected async poll(): Promise<void> {
+    // Call the Events API unless mock data is configured, falling back to the
+    // last-known-good listing or mock data while the provider is failing
+    const events = config.connectors.useMockData
+      ? this.getMockEvents()
+      : await this.callExternal(
+        'upcoming',
+        async () => {
+          const upcoming = await this.callEventsApi() as any[];
+          return upcoming.map(event => this.processEventData(event));
+        },
+        () => this.getMockEvents()
+      );
+    
+    for (const eventData of events) {
+      // Create a data event
+      const event: DataEvent = {
+        source: 'events-api',
+        timestamp: new Date(),
+        payload: eventData,
+      };
+      
+      // Emit the event
+      this.emitEvent(event);
+    }
   }
 
   /**
-   * Fetch events data for all venues
+   * Generate mock events across random venues for the next 7 days
    * @private
    */
-  private async fetchEvents(): Promise<void> {
-    try {
-      // In a real implementation, this would call the actual Events API
-      // For now, we'll generate mock data for each venue
+  private getMockEvents(): EventData[] {
+    const events: EventData[] = [];
+    
+    // Get current date for reference
+    const now = new Date();
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    
+    // Generate events for the next 7 days
+    for (let i = 0; i < 7; i++) {
+      const date = new Date(today);
+      date.setDate(date.getDate() + i);
       
-      // Get current date for reference
-      const now = new Date();
-      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+      // Generate 1-3 events per day across random venues
+      const numEvents = Math.floor(Math.random() * 3) + 1;
       
-      // Generate events for the next 7 days
-      for (let i = 0; i < 7; i++) {
-        const date = new Date(today);
-        date.setDate(date.getDate() + i);
+      for (let j = 0; j < numEvents; j++) {
+        // Select a random venue
+        const venue = this.venues[Math.floor(Math.random() * this.venues.length)];
         
-        // Generate 1-3 events per day across random venues
-        const numEvents = Math.floor(Math.random() * 3) + 1;
+        // Generate mock event data
+        const eventData = this.getMockEventData(venue, date);
         
-        for (let j = 0; j < numEvents; j++) {
-          // Select a random venue
-          const venue = this.venues[Math.floor(Math.random() * this.venues.length)];
-          
-          // Generate mock event data
-          const eventData = this.getMockEventData(venue, date);
-          
-          // Calculate H3 index for the venue location
-          const h3Index = GeospatialUtils.GeospatialUtils.latLngToH3(venue.latitude, venue.longitude);
-          
-          // Create a data event
-          const event: DataEvent = {
-            source: 'events-api',
-            timestamp: new Date(),
-            payload: {
-              ...eventData,
-              h3Index,
-            },
-          };
-          
-          // Emit the event
-          this.eventStream.next(event);
-        }
+        // Calculate H3 index for the venue location
+        const h3Index = GeospatialUtils.GeospatialUtils.latLngToH3(venue.latitude, venue.longitude);
+        
+        events.push({
+          ...eventData,
+          h3Index,
+        });
       }
-    } catch (error) {
-      console.error('Error fetching events data:', error);
     }
+    
+    return events;
   }
 
   /**
@@ -338,17 +291,12 @@ export class EventsConnector implements DataSourceConnector {
   }
 
   /**
-   * Call the actual Events API (for real implementation)
+   * Call the Events API for upcoming events
    * @private
    */
   private async callEventsApi(): Promise<any> {
-    try {
-      const response = await this.apiClient.get('/events/upcoming');
-      return response.data;
-    } catch (error) {
-      console.error('Error calling Events API:', error);
-      throw error;
-    }
+    const response = await this.apiClient.get('/events/upcoming');
+    return response.data;
   }
 
   /**
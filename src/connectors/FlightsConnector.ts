@@ -0,0 +1,226 @@
+import * as fs from 'fs';
+import axios, { AxiosInstance } from 'axios';
+import config from '../config';
+import { FlightArrival } from '../schemas/DataModels';
+import { parseCsv } from '../utils/CsvUtils';
+import { GeospatialUtils } from '../utils/GeospatialUtils';
+import { PollingConnector, ConnectorDescription } from './Connector';
+import { AirportTerminal, PassengerWaveEstimator, PassengerWaveOptions } from '../pipeline/PassengerWaveEstimator';
+
+/**
+ * Airport and the locations of its terminals
+ */
+export interface AirportConfig {
+  code: string;
+  terminals: { terminal: string; latitude: number; longitude: number }[];
+}
+
+/**
+ * Aircraft types the mock feed picks from, with the chance of each being international
+ */
+const MOCK_AIRCRAFT: { type: string; international: number }[] = [
+  { type: 'A320', international: 0 },
+  { type: 'A321', international: 0.1 },
+  { type: 'B738', international: 0.05 },
+  { type: 'B39M', international: 0 },
+  { type: 'E75L', international: 0 },
+  { type: 'B789', international: 0.8 },
+  { type: 'A359', international: 0.9 },
+  { type: 'B77W', international: 1 },
+];
+
+/**
+ * Connector for airport arrivals
+ *
+ * Reads scheduled, estimated and actual arrival times from the Flights API or
+ * a CSV fixture, estimates the wave of passengers leaving each terminal and
+ * emits the expected demand per terminal and time bucket as `flights-api`
+ * events in the terminal's H3 cell.
+ *
+ * The fixture has a header row with the columns flight_number, airport,
+ * terminal, status, scheduled_arrival and, optionally, aircraft_type,
+ * estimated_arrival, actual_arrival, seats, load_factor and international.
+ */
+export class FlightsConnector extends PollingConnector {
+  private apiClient: AxiosInstance;
+  private estimator: PassengerWaveEstimator;
+  private terminals: AirportTerminal[];
+  private mockFlights: FlightArrival[] = [];
+
+  /**
+   * Create a new flights connector
+   * @param apiUrl The Flights API URL
+   * @param apiKey The Flights API key
+   * @param fixtureFile CSV fixture read instead of the API (optional)
+   * @param refreshIntervalMs The refresh interval in milliseconds
+   * @param airports Airports and their terminals
+   * @param waveOptions Passenger wave estimation options
+   */
+  constructor(
+    private readonly apiUrl: string = config.dataSources.flights.apiUrl,
+    private readonly apiKey: string = config.dataSources.flights.apiKey,
+    private readonly fixtureFile: string = config.dataSources.flights.fixtureFile,
+    refreshIntervalMs: number = config.dataSources.flights.refreshIntervalMs || 300000,
+    private readonly airports: AirportConfig[] = config.dataSources.flights.airports,
+    private readonly waveOptions: PassengerWaveOptions = config.dataSources.flights.passengerWave,
+  ) {
+    super('FlightsConnector', refreshIntervalMs);
+    this.apiClient = axios.create({
+      baseURL: apiUrl,
+      timeout: 10000,
+      headers: {
+        'X-API-Key': apiKey,
+      },
+    });
+    this.estimator = new PassengerWaveEstimator(waveOptions);
+    this.terminals = airports.flatMap(airport => airport.terminals.map(terminal => ({
+      airportCode: airport.code,
+      terminal: terminal.terminal,
+      h3Index: GeospatialUtils.latLngToH3(terminal.latitude, terminal.longitude),
+    })));
+  }
+
+  /**
+   * Fetch arrivals and emit the expected demand at each terminal
+   */
+  protected async poll(): Promise<void> {
+    const now = new Date();
+    const flights = await this.getArrivals(now);
+    const demand = this.estimator.estimate(flights, this.terminals, now);
+
+    for (const bucket of demand) {
+      this.emitEvent({
+        source: 'flights-api',
+        timestamp: now,
+        payload: bucket,
+      });
+    }
+
+    this.logger.debug(`Estimated passenger waves from ${flights.length} arrivals at ${this.terminals.length} terminals`);
+  }
+
+  /**
+   * Describe the connector
+   */
+  protected describe(): ConnectorDescription {
+    return {
+      name: 'Flights API',
+      type: this.fixtureFile ? 'CSV fixture' : 'REST API',
+      description: `Estimates deplaning passenger waves at ${this.airports.map(airport => airport.code).join(', ')} from flight arrivals`,
+      updateFrequency: `${this.pollIntervalMs / 1000 / 60} minutes`,
+    };
+  }
+
+  /**
+   * Get the arrivals whose passengers may reach the curb within the horizon
+   * @param now Time of the poll
+   * @private
+   */
+  private async getArrivals(now: Date): Promise<FlightArrival[]> {
+    if (this.fixtureFile) {
+      return this.readFixture();
+    }
+
+    if (config.connectors.useMockData) {
+      return this.generateMockArrivals(now);
+    }
+
+    // Flights landed before the horizon may still be unloading
+    const lookbackMs = (this.waveOptions.internationalCurbMinutes + this.waveOptions.waveSpreadMinutes) * 60 * 1000;
+    const from = new Date(now.getTime() - lookbackMs).toISOString();
+    const to = new Date(now.getTime() + this.waveOptions.horizonMinutes * 60 * 1000).toISOString();
+
+    const arrivals = await Promise.all(this.airports.map(airport => this.callExternal(
+      `arrivals:${airport.code}`,
+      async () => {
+        const response = await this.apiClient.get('/arrivals', {
+          params: { airport: airport.code, from, to },
+        });
+        return response.data.arrivals as FlightArrival[];
+      }
+    )));
+
+    return arrivals.flat();
+  }
+
+  /**
+   * Read arrivals from the CSV fixture
+   * @private
+   */
+  private async readFixture(): Promise<FlightArrival[]> {
+    const rows = parseCsv(await fs.promises.readFile(this.fixtureFile, 'utf8'));
+
+    return rows.map(row => ({
+      flightNumber: row.flight_number,
+      airportCode: row.airport,
+      terminal: row.terminal,
+      aircraftType: row.aircraft_type || undefined,
+      status: (row.status || 'SCHEDULED').toUpperCase() as FlightArrival['status'],
+      scheduledArrival: row.scheduled_arrival,
+      estimatedArrival: row.estimated_arrival || undefined,
+      actualArrival: row.actual_arrival || undefined,
+      seats: row.seats ? parseInt(row.seats, 10) : undefined,
+      loadFactor: row.load_factor ? parseFloat(row.load_factor) : undefined,
+      international: row.international === 'true' || row.international === '1',
+    }));
+  }
+
+  /**
+   * Generate mock arrivals: a rolling schedule over the horizon whose flights
+   * pick up delays and land as time passes
+   * @param now Time of the poll
+   * @private
+   */
+  private generateMockArrivals(now: Date): FlightArrival[] {
+    const horizonEnd = now.getTime() + this.waveOptions.horizonMinutes * 60 * 1000;
+    const retainMs = (this.waveOptions.internationalCurbMinutes + this.waveOptions.waveSpreadMinutes) * 60 * 1000;
+
+    // Drop flights whose passengers have all left
+    this.mockFlights = this.mockFlights.filter(flight => new Date(flight.scheduledArrival).getTime() > now.getTime() - 2 * retainMs);
+
+    // Extend the schedule to the end of the horizon, with an arrival every few minutes per terminal
+    for (const terminal of this.terminals) {
+      const scheduled = this.mockFlights.filter(flight => flight.airportCode === terminal.airportCode && flight.terminal === terminal.terminal);
+      let next = scheduled.length > 0
+        ? Math.max(...scheduled.map(flight => new Date(flight.scheduledArrival).getTime()))
+        : now.getTime() - retainMs;
+
+      while (next < horizonEnd) {
+        next += (4 + Math.random() * 12) * 60 * 1000;
+        const aircraft = MOCK_AIRCRAFT[Math.floor(Math.random() * MOCK_AIRCRAFT.length)];
+
+        this.mockFlights.push({
+          flightNumber: `${['UA', 'AA', 'DL', 'AS', 'WN'][Math.floor(Math.random() * 5)]}${100 + Math.floor(Math.random() * 9000)}`,
+          airportCode: terminal.airportCode,
+          terminal: terminal.terminal,
+          aircraftType: aircraft.type,
+          status: 'SCHEDULED',
+          scheduledArrival: new Date(next).toISOString(),
+          loadFactor: 0.6 + Math.random() * 0.4,
+          international: Math.random() < aircraft.international,
+        });
+      }
+    }
+
+    // Update estimates and land flights whose arrival has passed
+    for (const flight of this.mockFlights) {
+      if (flight.status === 'LANDED') {
+        continue;
+      }
+
+      if (!flight.estimatedArrival || Math.random() < 0.1) {
+        const delayMinutes = Math.random() < 0.2 ? Math.floor(Math.random() * 60) : Math.floor(Math.random() * 10) - 5;
+        flight.estimatedArrival = new Date(new Date(flight.scheduledArrival).getTime() + delayMinutes * 60 * 1000).toISOString();
+      }
+
+      if (new Date(flight.estimatedArrival).getTime() <= now.getTime()) {
+        flight.status = 'LANDED';
+        flight.actualArrival = flight.estimatedArrival;
+      } else {
+        flight.status = 'ACTIVE';
+      }
+    }
+
+    return this.mockFlights;
+  }
+}
@@ -0,0 +1,321 @@
+import { Kafka, Consumer, EachMessagePayload } from 'kafkajs';
+import config from '../config';
+import { BaseConnector, ConnectorDescription } from './Connector';
+import { DriverLocation } from './DriverLocationConnector';
+import { RideRequest } from './RideRequestConnector';
+import { decodeJson, AvroSchemaName } from '../utils/AvroUtils';
+import { MessageSerializer } from '../utils/MessageSerializer';
+
+/**
+ * Converts a decoded message value into a data event payload
+ */
+export type MessageMapper = (value: any) => any;
+
+/**
+ * Kafka source connector options
+ */
+export interface KafkaSourceOptions {
+  topic: string;
+  groupId: string;
+  // DataEvent source the messages are emitted as
+  eventSource: string;
+  format: 'json' | 'avro';
+  // Whether Avro values carry the Confluent header naming their schema, or are bare Avro in the configured schema
+  framing: 'confluent' | 'none';
+  // Avro schema of unframed Avro message values, required for the avro format without framing
+  schema?: AvroSchemaName;
+  // Name of a MESSAGE_MAPPERS entry
+  mapper: string;
+  // Start from the earliest offset when the group has no committed offsets
+  fromBeginning: boolean;
+}
+
+/**
+ * Availability of a driver in the upstream `driver_locations` format
+ */
+const DRIVER_AVAILABILITY: Record<string, DriverLocation['availability']> = {
+  available: 'AVAILABLE',
+  busy: 'BUSY',
+  offline: 'OFFLINE',
+};
+
+/**
+ * Status of a ride request in the upstream `ride_requests` format
+ */
+const RIDE_REQUEST_STATUS: Record<string, RideRequest['status']> = {
+  pending: 'CREATED',
+  accepted: 'MATCHED',
+  completed: 'COMPLETED',
+  cancelled: 'CANCELLED',
+};
+
+/**
+ * Built-in message mappers
+ *
+ * The driver location and ride request mappers accept both the upstream
+ * snake_case messages produced by `services/kafka.ts` and payloads already in
+ * the shape of the pipeline's own connectors.
+ */
+export const MESSAGE_MAPPERS: Record<string, MessageMapper> = {
+  'identity': value => value,
+  'driver-location': (value): DriverLocation => ({
+    driverId: value.driverId ?? value.driver_id,
+    timestamp: value.timestamp,
+    latitude: value.latitude ?? value.location?.latitude,
+    longitude: value.longitude ?? value.location?.longitude,
+    heading: value.heading ?? undefined,
+    speed: value.speed ?? undefined,
+    availability: value.availability ?? DRIVER_AVAILABILITY[value.status] ?? 'OFFLINE',
+    vehicleType: value.vehicleType ?? 'ECONOMY',
+    batteryLevel: value.batteryLevel ?? undefined,
+  }),
+  'ride-request': (value): RideRequest => ({
+    requestId: value.requestId ?? value.id,
+    userId: value.userId ?? value.user_id,
+    timestamp: value.timestamp,
+    pickupLatitude: value.pickupLatitude ?? value.pickupLocation?.latitude ?? value.latitude,
+    pickupLongitude: value.pickupLongitude ?? value.pickupLocation?.longitude ?? value.longitude,
+    dropoffLatitude: value.dropoffLatitude ?? value.dropoffLocation?.latitude ?? value.destination?.latitude,
+    dropoffLongitude: value.dropoffLongitude ?? value.dropoffLocation?.longitude ?? value.destination?.longitude,
+    estimatedDistance: value.estimatedDistance ?? value.estimated_distance,
+    estimatedDuration: value.estimatedDuration ?? value.estimated_duration,
+    rideType: value.rideType ?? 'ECONOMY',
+    status: RIDE_REQUEST_STATUS[value.status] ?? value.status ?? 'CREATED',
+  }),
+};
+
+/**
+ * Connector that consumes a Kafka topic
+ *
+ * Message values are decoded as JSON, or as Avro that is either
+ * Confluent-framed or bare in the configured schema, as the connector's format
+ * and framing say; the bytes are not sniffed. Decoded values are converted by a message mapper
+ * and emitted as data events with the message's topic, partition and offset
+ * in their metadata. Consumed offsets are reported for checkpoints, so after
+ * a restart the consumer resumes where the restored pipeline state ends
+ * rather than at the group's committed offsets. With Kafka transactions
+ * enabled, the group's offsets are only committed in the transactions that
+ * publish the stream processor's outputs.
+ */
+export class KafkaSourceConnector extends BaseConnector {
+  private readonly options: KafkaSourceOptions;
+  private readonly mapper: MessageMapper;
+  private readonly kafka: Kafka;
+  private readonly serializer = new MessageSerializer();
+  private consumer: Consumer | null = null;
+  private running = false;
+  private consuming = false;
+  // Next offset to consume per partition
+  private offsets = new Map<number, string>();
+  private restoredOffsets = new Map<number, string>();
+  private decodeErrors = 0;
+
+  /**
+   * Create a new Kafka source connector
+   * @param options Kafka source options; topic and eventSource are required
+   */
+  constructor(options: Partial<KafkaSourceOptions> & Pick<KafkaSourceOptions, 'topic' | 'eventSource'>) {
+    super(`KafkaSource:${options.topic}`);
+    this.options = {
+      topic: options.topic,
+      groupId: options.groupId ?? config.kafka.sources.groupId,
+      eventSource: options.eventSource,
+      // Topics configured for Avro are written Confluent-framed by this service's producers
+      format: options.format ?? this.serializer.getTopicSerialization(options.topic).format,
+      framing: options.framing ?? 'confluent',
+      schema: options.schema,
+      mapper: options.mapper ?? 'identity',
+      fromBeginning: options.fromBeginning ?? config.kafka.sources.fromBeginning,
+    };
+
+    this.mapper = MESSAGE_MAPPERS[this.options.mapper];
+    if (!this.mapper) {
+      throw new Error(`Unknown Kafka message mapper ${this.options.mapper}`);
+    }
+    if (this.options.format === 'avro' && this.options.framing === 'none' && !this.options.schema) {
+      throw new Error(`Kafka source for ${this.options.topic} uses unframed Avro but has no schema`);
+    }
+
+    this.kafka = new Kafka({
+      clientId: config.kafka.clientId,
+      brokers: config.kafka.brokers,
+    });
+  }
+
+  /**
+   * Get the next offset to consume per partition of the topic
+   */
+  getCheckpointOffsets(): Record<string, string> {
+    return Object.fromEntries(
+      Array.from(this.offsets.entries()).map(([partition, offset]) => [`${this.options.topic}:${partition}`, offset])
+    );
+  }
+
+  /**
+   * Resume consumption from checkpointed offsets
+   * @param offsets Offsets previously returned by getCheckpointOffsets
+   */
+  restoreOffsets(offsets: Record<string, string>): void {
+    for (const [key, offset] of Object.entries(offsets)) {
+      const separator = key.lastIndexOf(':');
+      if (key.slice(0, separator) !== this.options.topic) {
+        continue;
+      }
+
+      const partition = parseInt(key.slice(separator + 1), 10);
+      this.restoredOffsets.set(partition, offset);
+      this.offsets.set(partition, offset);
+    }
+
+    if (this.running) {
+      this.seekRestoredOffsets();
+    }
+  }
+
+  /**
+   * Get the consumer group of the connector
+   */
+  getConsumerGroupId(): string {
+    return this.options.groupId;
+  }
+
+  /**
+   * Get the number of messages that could not be decoded
+   */
+  getDecodeErrorCount(): number {
+    return this.decodeErrors;
+  }
+
+  /**
+   * Connect the consumer and subscribe to the topic
+   */
+  protected async onConnect(): Promise<void> {
+    this.consumer = this.kafka.consumer({ groupId: this.options.groupId });
+    await this.consumer.connect();
+    await this.consumer.subscribe({ topic: this.options.topic, fromBeginning: this.options.fromBeginning });
+  }
+
+  /**
+   * Disconnect the consumer
+   */
+  protected async onDisconnect(): Promise<void> {
+    const consumer = this.consumer;
+    this.consumer = null;
+    this.running = false;
+
+    if (consumer) {
+      await consumer.disconnect();
+    }
+  }
+
+  /**
+   * Start the consumer, or resume it after a pause
+   */
+  protected startProducing(): void {
+    this.consuming = true;
+
+    if (this.running) {
+      this.consumer?.resume([{ topic: this.options.topic }]);
+      return;
+    }
+
+    this.running = true;
+    this.consumer?.run({
+      // With transactions, offsets are committed with the outputs they produced
+      autoCommit: !config.kafka.transactions.enabled,
+      eachMessage: (payload: EachMessagePayload) => this.handleMessage(payload),
+    }).then(() => this.seekRestoredOffsets()).catch(error => {
+      this.running = false;
+      this.reportError(error);
+      this.logger.error(`${this.name} consumer failed:`, error);
+    });
+  }
+
+  /**
+   * Pause the consumer
+   */
+  protected stopProducing(): void {
+    this.consuming = false;
+
+    if (this.running) {
+      this.consumer?.pause([{ topic: this.options.topic }]);
+    }
+  }
+
+  /**
+   * Describe the connector
+   */
+  protected describe(): ConnectorDescription {
+    return {
+      name: `Kafka ${this.options.topic}`,
+      type: 'Kafka',
+      description: `Consumes ${this.options.format.toUpperCase()} messages from ${this.options.topic} as ${this.options.eventSource} events`,
+      updateFrequency: 'Real-time',
+    };
+  }
+
+  /**
+   * Decode a message and emit it as a data event
+   * @param payload Kafka message payload
+   * @private
+   */
+  private async handleMessage({ topic, partition, message }: EachMessagePayload): Promise<void> {
+    // Messages fetched before a pause are consumed again on resume
+    if (!this.consuming) {
+      this.consumer?.seek({ topic, partition, offset: message.offset });
+      return;
+    }
+
+    const nextOffset = (BigInt(message.offset) + BigInt(1)).toString();
+    this.offsets.set(partition, nextOffset);
+
+    if (!message.value) {
+      return;
+    }
+
+    let payload: any;
+    try {
+      payload = this.mapper(this.decode(message.value));
+    } catch (error) {
+      this.decodeErrors++;
+      this.logger.warn(`Skipping undecodable message at ${topic}:${partition}@${message.offset}:`, error);
+      return;
+    }
+
+    const timestamp = new Date(payload.timestamp ?? Number(message.timestamp));
+
+    this.emitEvent({
+      source: this.options.eventSource,
+      timestamp: Number.isNaN(timestamp.getTime()) ? new Date(Number(message.timestamp)) : timestamp,
+      payload,
+      metadata: { kafkaTopic: topic, kafkaPartition: partition, kafkaOffset: message.offset },
+    });
+  }
+
+  /**
+   * Decode a message value in the connector's format and framing
+   * @param value Message value
+   * @returns The decoded value
+   * @private
+   */
+  private decode(value: Buffer): any {
+    if (this.options.format === 'json') {
+      return JSON.parse(value.toString());
+    }
+
+    return this.options.framing === 'confluent'
+      ? this.serializer.deserializeAvro(value)
+      : decodeJson(this.options.schema, value);
+  }
+
+  /**
+   * Seek each partition to its restored checkpoint offset
+   * @private
+   */
+  private seekRestoredOffsets(): void {
+    for (const [partition, offset] of this.restoredOffsets.entries()) {
+      this.consumer?.seek({ topic: this.options.topic, partition, offset });
+    }
+    this.restoredOffsets.clear();
+  }
+}
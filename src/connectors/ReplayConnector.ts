@@ -0,0 +1,308 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import avro from 'avro-js';
+import config from '../config';
+import { DataEvent } from './DataSourceConnector';
+import { BaseConnector, ConnectorDescription } from './Connector';
+import { RecordedEvent, fromRecordedEvent } from '../pipeline/EventRecorder';
+
+/**
+ * Playback speed: a multiplier of the recorded pace, or 'max' to replay as fast as possible
+ */
+export type ReplaySpeed = number | 'max';
+
+/**
+ * Replay connector options
+ */
+export interface ReplayOptions {
+  // Recording directory written by the EventRecorder
+  directory: string;
+  speed: ReplaySpeed;
+  // Sources to replay (all if omitted)
+  sources?: string[];
+  // Event time range to replay (inclusive)
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Recording files covering one UTC hour
+ */
+interface RecordedHour {
+  // UTC hour as YYYY-MM-DDTHH, which sorts chronologically
+  key: string;
+  files: string[];
+}
+
+/**
+ * Connector that feeds recorded events back through the pipeline
+ *
+ * Recordings are read an hour at a time; the events of every source in the
+ * hour are merged in event time order and emitted with their original
+ * timestamps. At speed N, the gaps between events are replayed N times faster
+ * than they were recorded. Pausing keeps the position in the recording, and
+ * the replay picks up from there on resume.
+ */
+export class ReplayConnector extends BaseConnector {
+  private readonly options: ReplayOptions;
+  private hours: RecordedHour[] = [];
+  private hourIndex = 0;
+  private events: DataEvent[] = [];
+  private eventIndex = 0;
+  private replayedCount = 0;
+  private complete = false;
+  // Incremented whenever production stops, so a replay in flight ends
+  private run = 0;
+  private sleepTimer?: NodeJS.Timeout;
+  private wake?: () => void;
+
+  /**
+   * Initialize the replay connector
+   * @param options Replay options; missing options are taken from config.connectors.replay
+   */
+  constructor(options: Partial<ReplayOptions> = {}) {
+    super('ReplayConnector');
+    this.options = {
+      ...options,
+      directory: options.directory ?? config.connectors.replay.directory,
+      speed: options.speed ?? config.connectors.replay.speed,
+    };
+
+    if (this.options.speed !== 'max' && !(this.options.speed > 0)) {
+      throw new Error(`Invalid replay speed ${this.options.speed}`);
+    }
+  }
+
+  /**
+   * Check whether every recorded event has been replayed
+   */
+  isComplete(): boolean {
+    return this.complete;
+  }
+
+  /**
+   * Get the number of events replayed so far
+   */
+  getReplayedCount(): number {
+    return this.replayedCount;
+  }
+
+  /**
+   * Find the recording files and rewind to the start of the recording
+   */
+  protected async onConnect(): Promise<void> {
+    this.hours = await this.listHours();
+    this.hourIndex = 0;
+    this.events = [];
+    this.eventIndex = 0;
+    this.replayedCount = 0;
+    this.complete = false;
+
+    this.logger.info(`Replaying ${this.hours.length} recorded hours from ${this.options.directory} at ${this.options.speed === 'max' ? 'max' : `${this.options.speed}x`} speed`);
+  }
+
+  /**
+   * Start or continue the replay
+   */
+  protected startProducing(): void {
+    const run = this.run;
+
+    this.replay(run).catch(error => {
+      this.reportError(error);
+      this.logger.error('Replay failed:', error);
+    });
+  }
+
+  /**
+   * Stop the replay in flight, keeping its position
+   */
+  protected stopProducing(): void {
+    this.run++;
+
+    if (this.sleepTimer) {
+      clearTimeout(this.sleepTimer);
+      this.sleepTimer = undefined;
+    }
+    this.wake?.();
+  }
+
+  /**
+   * Describe the connector
+   */
+  protected describe(): ConnectorDescription {
+    return {
+      name: 'Replay',
+      type: 'file',
+      description: `Replays recorded events from ${this.options.directory}`,
+      updateFrequency: this.options.speed === 'max' ? 'As fast as possible' : `${this.options.speed}x recorded pace`,
+    };
+  }
+
+  /**
+   * Emit recorded events from the current position until the recording ends or production stops
+   *
+   * Pacing is anchored to the first event emitted in this run, so a resumed
+   * replay does not try to catch up on the time it spent paused.
+   * @param run Run the replay belongs to
+   * @private
+   */
+  private async replay(run: number): Promise<void> {
+    let anchor: { wallTime: number; eventTime: number } | null = null;
+    let sinceYield = 0;
+
+    while (run === this.run) {
+      if (this.eventIndex >= this.events.length) {
+        if (this.hourIndex >= this.hours.length) {
+          this.complete = true;
+          this.logger.info(`Replay complete: ${this.replayedCount} events replayed`);
+          return;
+        }
+
+        const events = await this.loadHour(this.hours[this.hourIndex]);
+        if (run !== this.run) {
+          return;
+        }
+
+        this.events = events;
+        this.eventIndex = 0;
+        this.hourIndex++;
+        continue;
+      }
+
+      const event = this.events[this.eventIndex];
+
+      if (this.options.speed === 'max') {
+        // Let the pipeline drain its ingress queues between batches
+        if (++sinceYield >= config.pipeline.maxBatchSize) {
+          sinceYield = 0;
+          await new Promise(resolve => setImmediate(resolve));
+          continue;
+        }
+      } else {
+        const eventTime = event.timestamp.getTime();
+        anchor = anchor || { wallTime: Date.now(), eventTime };
+
+        const delayMs = anchor.wallTime + (eventTime - anchor.eventTime) / this.options.speed - Date.now();
+        if (delayMs > 0) {
+          await this.sleep(delayMs);
+          continue;
+        }
+      }
+
+      this.eventIndex++;
+      this.replayedCount++;
+      this.emitEvent(event);
+    }
+  }
+
+  /**
+   * List the recorded hours to replay, oldest first
+   * @private
+   */
+  private async listHours(): Promise<RecordedHour[]> {
+    const { directory, sources, from, to } = this.options;
+    const hours = new Map<string, string[]>();
+
+    // Compare at hour granularity here; events are filtered exactly when loaded
+    const fromKey = from ? from.toISOString().slice(0, 13) : undefined;
+    const toKey = to ? to.toISOString().slice(0, 13) : undefined;
+
+    for (const sourceDir of await fs.promises.readdir(directory)) {
+      if (sources && !sources.includes(decodeURIComponent(sourceDir))) {
+        continue;
+      }
+
+      const sourcePath = path.join(directory, sourceDir);
+      if (!(await fs.promises.stat(sourcePath)).isDirectory()) {
+        continue;
+      }
+
+      for (const date of await fs.promises.readdir(sourcePath)) {
+        const datePath = path.join(sourcePath, date);
+
+        for (const file of await fs.promises.readdir(datePath)) {
+          const match = /^(\d{2})-.*\.(ndjson|avro)$/.exec(file);
+          if (!match) {
+            continue;
+          }
+
+          const key = `${date}T${match[1]}`;
+          if ((fromKey && key < fromKey) || (toKey && key > toKey)) {
+            continue;
+          }
+
+          hours.set(key, [...(hours.get(key) || []), path.join(datePath, file)]);
+        }
+      }
+    }
+
+    return Array.from(hours.entries())
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, files]) => ({ key, files }));
+  }
+
+  /**
+   * Load the events of an hour from every source, in event time order
+   * @param hour Recorded hour
+   * @private
+   */
+  private async loadHour(hour: RecordedHour): Promise<DataEvent[]> {
+    const { from, to } = this.options;
+    const events: DataEvent[] = [];
+
+    for (const file of hour.files) {
+      for (const recorded of await this.readFile(file)) {
+        if ((from && recorded.timestamp < from.getTime()) || (to && recorded.timestamp > to.getTime())) {
+          continue;
+        }
+        events.push(fromRecordedEvent(recorded));
+      }
+    }
+
+    // Stable sort, so events with equal timestamps keep their recorded order
+    return events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  /**
+   * Read every recorded event in a file
+   * @param file File path
+   * @private
+   */
+  private async readFile(file: string): Promise<RecordedEvent[]> {
+    const records: RecordedEvent[] = [];
+
+    if (file.endsWith('.avro')) {
+      const decoder = avro.createFileDecoder(file);
+      for await (const record of decoder) {
+        // Unwrap the metadata union from its branch type
+        records.push({ ...record, metadata: record.metadata ? record.metadata.string : null });
+      }
+      return records;
+    }
+
+    const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (line.trim()) {
+        records.push(JSON.parse(line));
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Sleep for the given number of milliseconds, ending early if production stops
+   * @param ms Milliseconds to sleep
+   * @private
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this.wake = () => {
+        this.wake = undefined;
+        resolve();
+      };
+      this.sleepTimer = setTimeout(this.wake, ms);
+    });
+  }
+}
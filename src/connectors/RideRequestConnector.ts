@@ -1,6 +1,5 @@
 import axios, { AxiosInstance } from 'axios';
-import { Subject, Observable } from 'rxjs';
-import { DataSourceConnector, DataEvent, ConnectorMetadata } from './DataSourceConnector';
+import { PollingConnector, ConnectorDescription } from './Connector';
 import config from '../config';
 
 /**
@@ -25,79 +24,40 @@ export interface RideRequest {
 /**
  * Connector for the Ride Request API
  */
-export class RideRequestConnector implements DataSourceConnector {
+export class RideRequestConnector extends PollingConnector {
   private apiClient: AxiosInstance;
-  private eventStream: Subject<DataEvent>;
-  private connected: boolean = false;
-  private pollingInterval: NodeJS.Timeout | null = null;
   private lastTimestamp: string | null = null;
 
   constructor(
     private readonly apiUrl: string = config.dataSources.rideRequest.apiUrl,
     private readonly clientId: string = config.dataSources.rideRequest.clientId,
     private readonly clientSecret: string = config.dataSources.rideRequest.clientSecret,
-    private readonly refreshIntervalMs: number = config.dataSources.rideRequest.refreshIntervalMs || 1000,
+    refreshIntervalMs: number = config.dataSources.rideRequest.refreshIntervalMs || 1000,
   ) {
+    super('RideRequestConnector', refreshIntervalMs, false);
     this.apiClient = axios.create({
       baseURL: apiUrl,
       timeout: 5000,
     });
-    this.eventStream = new Subject<DataEvent>();
   }
 
   /**
-   * Connect to the Ride Request API
-   */
-  async connect(): Promise<void> {
-    try {
-      const token = await this.authenticate();
-      this.apiClient.defaults.headers.common["Authorization"] = `Bearer ${token}`;
-      this.startPolling();
-      this.connected = true;
-      console.log('Connected to Ride Request API');
-    } catch (error) {
-      console.error("Failed to connect to Ride Request API:", error);
-      throw new Error("Connection failed");
-    }
-  }
-
-  /**
-   * Disconnect from the Ride Request API
-   */
-  async disconnect(): Promise<void> {
-    if (this.pollingInterval) {
-      clearInterval(this.pollingInterval);
-      this.pollingInterval = null;
-    }
-    this.connected = false;
-    console.log('Disconnected from Ride Request API');
-  }
-
-  /**
-   * Check if connected to the Ride Request API
-   */
-  isConnected(): boolean {
-    return this.connected;
-  }
-
-  /**
-   * Get the stream of ride request events
+   * Authenticate with the Ride Request API
    */
-  getStream(): Observable<DataEvent> {
-    return this.eventStream.asObservable();
+  protected async onConnect(): Promise<void> {
+    const token = await this.authenticate();
+    this.apiClient.defaults.headers.common["Authorization"] = `Bearer ${token}`;
   }
 
   /**
-   * Get metadata about this connector
+   * Describe the connector
    */
-  getMetadata(): ConnectorMetadata {
+  protected describe(): ConnectorDescription {
     return {
       name: 'Ride Request API',
       type: 'REST API',
       description: 'Connects to the Ride Request API to fetch real-time ride requests',
-      updateFrequency: `Every ${this.refreshIntervalMs}ms`,
-      lastConnected: this.connected ? new Date() : undefined,
-      status: this.connected ? 'connected' : 'disconnected',
+      updateFrequency: `Every ${this.pollIntervalMs}ms`,
     };
   }
 
@@ -106,63 +66,47 @@ export class RideRequestConnector implements DataSourceConnector {
    * @private
    */
   private async authenticate(): Promise<string> {
-    try {
-      // In a real implementation, this would perform OAuth 2.0 authentication
-      // For now, we'll simulate a successful authentication
+    if (config.connectors.useMockData) {
       return 'simulated-jwt-token';
-    } catch (error) {
-      console.error('Authentication failed:', error);
-      throw error;
     }
-  }
-
-  /**
-   * Start polling the Ride Request API
-   * @private
-   */
-  private startPolling(): void {
-    this.pollingInterval = setInterval(async () => {
-      try {
-        await this.fetchRideRequests();
-      } catch (error) {
-        console.error('Error fetching ride requests:', error);
-      }
-    }, this.refreshIntervalMs);
+    
+    // Reuse the last token issued while the auth server is failing
+    return this.callExternal('auth', async () => {
+      const response = await this.apiClient.post('/oauth/token', {
+        grant_type: 'client_credentials',
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+      });
+      return response.data.access_token as string;
+    });
   }
 
   /**
    * Fetch ride requests from the API
-   * @private
    */
-  private async fetchRideRequests(): Promise<void> {
-    try {
-      // In a real implementation, this would call the actual API
-      // For now, we'll generate mock data
-      const params: any = {};
-      if (this.lastTimestamp) {
-        params.since = this.lastTimestamp;
-      }
-
-      // Simulate API response with mock data
-      const mockRequests = this.generateMockRideRequests();
+  protected async poll(): Promise<void> {
+    // In a real implementation, this would call the actual API
+    // For now, we'll generate mock data
+    const params: any = {};
+    if (this.lastTimestamp) {
+      params.since = this.lastTimestamp;
+    }
+
+    // Simulate API response with mock data
+    const mockRequests = this.generateMockRideRequests();
+    
+    if (mockRequests.length > 0) {
+      // Update last timestamp for next poll
+      this.lastTimestamp = mockRequests[mockRequests.length - 1].timestamp;
       
-      if (mockRequests.length > 0) {
-        // Update last timestamp for next poll
-        this.lastTimestamp = mockRequests[mockRequests.length - 1].timestamp;
-        
-        // Emit each ride request as a data event
-        mockRequests.forEach(request => {
-          const event: DataEvent = {
-            source: 'ride-request-api',
-            timestamp: new Date(request.timestamp),
-            payload: request,
-          };
-          this.eventStream.next(event);
+      // Emit each ride request as a data event
+      mockRequests.forEach(request => {
+        this.emitEvent({
+          source: 'ride-request-api',
+          timestamp: new Date(request.timestamp),
+          payload: request,
         });
-      }
-    } catch (error) {
-      console.error('Error fetching ride requests:', error);
-      throw error;
+      });
     }
   }
 
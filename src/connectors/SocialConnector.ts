@@ -0,0 +1,215 @@
+import axios, { AxiosInstance } from 'axios';
+import config from '../config';
+import { GeospatialUtils } from '../utils/GeospatialUtils';
+import { PollingConnector, ConnectorDescription } from './Connector';
+import { SocialBuzzTracker, SocialBuzzTrackerOptions, SocialPost } from '../pipeline/SocialBuzzTracker';
+
+/**
+ * Place where mock posts cluster
+ */
+interface MockHotspot {
+  name: string;
+  latitude: number;
+  longitude: number;
+  hashtags: string[];
+}
+
+/**
+ * Crowd gathering at a hotspot in the mock feed
+ */
+interface MockGathering {
+  hotspot: MockHotspot;
+  remainingPolls: number;
+  postsPerPoll: number;
+}
+
+/**
+ * Connector for geotagged social media activity
+ *
+ * Polls the Social API for posts since the previous poll, or generates a mock
+ * feed, and emits the buzz of every active grid cell as a `social-api` event.
+ */
+export class SocialConnector extends PollingConnector {
+  private apiClient: AxiosInstance;
+  private tracker: SocialBuzzTracker;
+  private lastPostTime: string | null = null;
+  private mockGatherings: MockGathering[] = [];
+  private mockHotspots: MockHotspot[] = [
+    { name: 'Chase Center', latitude: 37.7680, longitude: -122.3877, hashtags: ['#concert', '#warriors', '#livemusic'] },
+    { name: 'Civic Center', latitude: 37.7793, longitude: -122.4193, hashtags: ['#protest', '#rally', '#march'] },
+    { name: 'Golden Gate Park', latitude: 37.7694, longitude: -122.4862, hashtags: ['#festival', '#outsidelands'] },
+    { name: 'Oracle Park', latitude: 37.7786, longitude: -122.3893, hashtags: ['#giants', '#gameday'] },
+    { name: 'Mission District', latitude: 37.7599, longitude: -122.4148, hashtags: ['#nightlife', '#party'] },
+  ];
+
+  /**
+   * Create a new social connector
+   * @param apiUrl The Social API URL
+   * @param oauthKey The Social API OAuth client key
+   * @param oauthSecret The Social API OAuth client secret
+   * @param refreshIntervalMs The refresh interval in milliseconds
+   * @param buzzOptions Buzz scoring and spike detection options
+   */
+  constructor(
+    private readonly apiUrl: string = config.dataSources.social.apiUrl,
+    private readonly oauthKey: string = config.dataSources.social.oauthKey,
+    private readonly oauthSecret: string = config.dataSources.social.oauthSecret,
+    refreshIntervalMs: number = config.dataSources.social.refreshIntervalMs || 60000,
+    buzzOptions: SocialBuzzTrackerOptions = config.dataSources.social.buzz,
+  ) {
+    super('SocialConnector', refreshIntervalMs);
+    this.apiClient = axios.create({
+      baseURL: apiUrl,
+      timeout: 10000,
+    });
+    this.tracker = new SocialBuzzTracker(buzzOptions);
+  }
+
+  /**
+   * Authenticate with the Social API
+   */
+  protected async onConnect(): Promise<void> {
+    if (config.connectors.useMockData) {
+      return;
+    }
+
+    const token = await this.resilience.execute(async () => {
+      const response = await this.apiClient.post('/oauth/token', { grant_type: 'client_credentials' }, {
+        auth: { username: this.oauthKey, password: this.oauthSecret },
+      });
+      return response.data.access_token as string;
+    });
+    this.apiClient.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+  }
+
+  /**
+   * Fetch the posts since the previous poll and emit the buzz of each cell
+   */
+  protected async poll(): Promise<void> {
+    const now = new Date();
+    const posts = config.connectors.useMockData ? this.generateMockPosts(now) : await this.fetchPosts();
+
+    // Ask for posts newer than the newest one seen on the next poll
+    for (const post of posts) {
+      if (!this.lastPostTime || post.timestamp > this.lastPostTime) {
+        this.lastPostTime = post.timestamp;
+      }
+    }
+
+    const buzz = this.tracker.update(
+      posts,
+      post => GeospatialUtils.latLngToH3(post.latitude, post.longitude),
+      now
+    );
+
+    for (const cellBuzz of buzz) {
+      if (cellBuzz.isSpike) {
+        this.logger.info(`Social buzz spike in ${cellBuzz.h3Index}: score ${cellBuzz.buzzScore.toFixed(1)} (z ${cellBuzz.zScore.toFixed(1)}) ${cellBuzz.topHashtags.join(' ')}`);
+      }
+
+      this.emitEvent({
+        source: 'social-api',
+        timestamp: now,
+        payload: cellBuzz,
+      });
+    }
+  }
+
+  /**
+   * Describe the connector
+   */
+  protected describe(): ConnectorDescription {
+    return {
+      name: 'Social API',
+      type: 'REST API',
+      description: 'Scores geotagged social media activity per grid cell and detects crowd spikes',
+      updateFrequency: `${this.pollIntervalMs / 1000} seconds`,
+    };
+  }
+
+  /**
+   * Fetch geotagged posts since the previous poll from the Social API
+   *
+   * Posts are incremental, so a failed call is not replaced with earlier
+   * results; the next poll picks up from the same point instead.
+   * @private
+   */
+  private async fetchPosts(): Promise<SocialPost[]> {
+    return this.resilience.execute(async () => {
+      const response = await this.apiClient.get('/posts', {
+        params: {
+          geotagged: true,
+          since: this.lastPostTime ?? undefined,
+        },
+      });
+      return response.data.posts as SocialPost[];
+    });
+  }
+
+  /**
+   * Generate mock posts: background chatter across the city plus occasional
+   * gatherings at hotspots that last several polls
+   * @param now Time of the poll
+   * @private
+   */
+  private generateMockPosts(now: Date): SocialPost[] {
+    const posts: SocialPost[] = [];
+
+    // Start a gathering now and then
+    if (Math.random() < 0.05) {
+      const hotspot = this.mockHotspots[Math.floor(Math.random() * this.mockHotspots.length)];
+      this.mockGatherings.push({
+        hotspot,
+        remainingPolls: 3 + Math.floor(Math.random() * 5),
+        postsPerPoll: 15 + Math.floor(Math.random() * 30),
+      });
+      this.logger.debug(`Mock gathering started at ${hotspot.name}`);
+    }
+
+    // Background chatter in the San Francisco area
+    const backgroundPosts = Math.floor(Math.random() * 20);
+    for (let i = 0; i < backgroundPosts; i++) {
+      posts.push(this.createMockPost(now, 37.75 + (Math.random() - 0.5) * 0.1, -122.45 + (Math.random() - 0.5) * 0.1));
+    }
+
+    // Posts from people at each gathering
+    for (const gathering of this.mockGatherings) {
+      const { hotspot } = gathering;
+
+      for (let i = 0; i < gathering.postsPerPoll; i++) {
+        const hashtag = hotspot.hashtags[Math.floor(Math.random() * hotspot.hashtags.length)];
+        posts.push(this.createMockPost(
+          now,
+          hotspot.latitude + (Math.random() - 0.5) * 0.002,
+          hotspot.longitude + (Math.random() - 0.5) * 0.002,
+          `At ${hotspot.name} ${hashtag}`
+        ));
+      }
+
+      gathering.remainingPolls--;
+    }
+    this.mockGatherings = this.mockGatherings.filter(gathering => gathering.remainingPolls > 0);
+
+    return posts;
+  }
+
+  /**
+   * Create a mock post
+   * @param now Time of the poll
+   * @param latitude Latitude
+   * @param longitude Longitude
+   * @param text Post text (optional)
+   * @private
+   */
+  private createMockPost(now: Date, latitude: number, longitude: number, text: string = 'Out and about'): SocialPost {
+    return {
+      id: `post-${now.getTime()}-${Math.floor(Math.random() * 1000000)}`,
+      timestamp: new Date(now.getTime() - Math.floor(Math.random() * this.pollIntervalMs)).toISOString(),
+      latitude,
+      longitude,
+      text,
+      likes: Math.floor(Math.random() * 20),
+      shares: Math.floor(Math.random() * 5),
+    };
+  }
+}
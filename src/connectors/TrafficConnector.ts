@@ -1,12 +1,9 @@
-import { Subject, Observable } from 'rxjs';
 import axios, { AxiosInstance } from 'axios';
-import { DataSourceConnector, DataEvent, ConnectorMetadata } from './DataSourceConnector';
+import { DataEvent } from './DataSourceConnector';
 import { TrafficData, GeoLocation } from '../schemas/DataModels';
 import config from '../config';
 import * as GeospatialUtils from '../utils/GeospatialUtils';
-import { EventEmitter } from 'events';
-import { BaseConnector } from './Connector';
-import { Logger } from '../utils/Logger';
+import { PollingConnector, ConnectorDescription } from './Connector';
 
 /**
  * Road segment interface for traffic data
@@ -23,17 +20,23 @@ interface RoadSegment {
   averageSpeed: number;
   incidents: string[];
   isClosed: boolean;
+  // When the provider last measured the segment, if it reports it
+  observedAt?: string;
 }
 
+/**
+ * Readings of a road segment that tell one observation from the next
+ */
+type SegmentReadings = Pick<TrafficData, 'congestionLevel' | 'averageSpeed' | 'incidentCount' | 'roadClosures'>;
+
 /**
  * Connector for the Traffic API service
  */
-export class TrafficConnector implements DataSourceConnector {
+export class TrafficConnector extends PollingConnector {
   private apiClient: AxiosInstance;
-  private eventStream: Subject<DataEvent>;
-  private connected: boolean = false;
-  private pollingInterval: NodeJS.Timeout | null = null;
   private roadSegments: RoadSegment[] = [];
+  // Last readings of each road segment and when they changed
+  private lastReadings = new Map<string, { readings: string; changedAt: string }>();
 
   /**
    * Create a new Traffic API connector
@@ -44,8 +47,9 @@ export class TrafficConnector implements DataSourceConnector {
   constructor(
     private readonly apiUrl: string = config.dataSources.traffic.apiUrl,
     private readonly apiKey: string = config.dataSources.traffic.apiKey,
-    private readonly refreshIntervalMs: number = config.dataSources.traffic.refreshIntervalMs || 30000, // 30 seconds
+    refreshIntervalMs: number = config.dataSources.traffic.refreshIntervalMs || 30000, // 30 seconds
   ) {
+    super('TrafficConnector', refreshIntervalMs);
     this.apiClient = axios.create({
       baseURL: apiUrl,
       timeout: 10000,
@@ -53,118 +57,71 @@ export class TrafficConnector implements DataSourceConnector {
         'X-API-Key': apiKey,
       },
     });
-    this.eventStream = new Subject<DataEvent>();
 
     // Initialize with mock road segments (in a real implementation, these would be fetched from the API)
     this.initializeMockRoadSegments();
   }
 
   /**
-   * Connect to the Traffic API service
-   */
-  async connect(): Promise<void> {
-    try {
-      // Test the API connection
-      await this.fetchTrafficData();
-      
-      // Start polling for traffic data
-      this.startPolling();
-      this.connected = true;
-      console.log('Connected to Traffic API service');
-    } catch (error) {
-      console.error('Failed to connect to Traffic API service:', error);
-      throw new Error('Connection failed');
-    }
-  }
-
-  /**
-   * Disconnect from the Traffic API service
-   */
-  async disconnect(): Promise<void> {
-    if (this.pollingInterval) {
-      clearInterval(this.pollingInterval);
-      this.pollingInterval = null;
-    }
-    this.connected = false;
-    console.log('Disconnected from Traffic API service');
-  }
-
-  /**
-   * Check if connected to the Traffic API service
-   */
-  isConnected(): boolean {
-    return this.connected;
-  }
-
-  /**
-   * Get the stream of traffic data events
-   */
-  getStream(): Observable<DataEvent> {
-    return this.eventStream.asObservable();
-  }
-
-  /**
-   * Get metadata about this connector
+   * Describe the connector
    */
-  getMetadata(): ConnectorMetadata {
+  protected describe(): ConnectorDescription {
     return {
       name: 'Traffic API Service',
       type: 'REST API',
       description: 'Connects to the Traffic API service for real-time traffic data',
-      updateFrequency: `${this.refreshIntervalMs / 1000} seconds`,
-      lastConnected: this.connected ? new Date() : undefined,
-      status: this.connected ? 'connected' : 'disconnected',
+      updateFrequency: `${this.pollIntervalMs / 1000} seconds`,
     };
   }
 
   /**
-   * Start polling for traffic data
-   * @private
+   * Fetch traffic data for all road segments
    */
-  private startPolling(): void {
-    // Immediately fetch data
-    this.fetchTrafficData();
-
-    // Set up polling interval
-    this.pollingInterval = setInterval(() => {
-      this.fetchTrafficData();
-    }, this.refreshIntervalMs);
+  protected async poll(): Promise<void> {
+    // Call the Traffic API unless mock data is configured, falling back to the
+    // last-known-good flow or mock data while the provider is failing
+    const trafficData = config.connectors.useMockData
+      ? this.getMockTrafficFlow()
+      : await this.callExternal(
+        'flow',
+        async () => {
+          const segments = await this.callTrafficApi() as RoadSegment[];
+          return segments.map(segment => this.processRoadSegment(segment));
+        },
+        () => this.getMockTrafficFlow()
+      );
+    
+    for (const data of trafficData) {
+      // Create a data event
+      const event: DataEvent = {
+        source: 'traffic-api',
+        timestamp: new Date(),
+        payload: data,
+      };
+      
+      // Emit the event
+      this.emitEvent(event);
+    }
   }
 
   /**
-   * Fetch traffic data for all road segments
+   * Generate mock traffic data for every road segment
    * @private
    */
-  private async fetchTrafficData(): Promise<void> {
-    try {
-      // In a real implementation, this would call the actual Traffic API
-      // For now, we'll generate mock data for each road segment
-      for (const segment of this.roadSegments) {
-        const trafficData = this.getMockTrafficData(segment);
-        
-        // Calculate the midpoint of the road segment
-        const midLat = (segment.startLat + segment.endLat) / 2;
-        const midLng = (segment.startLng + segment.endLng) / 2;
-        
-        // Calculate H3 index for the midpoint
-        const h3Index = GeospatialUtils.GeospatialUtils.latLngToH3(midLat, midLng);
-        
-        // Create a data event
-        const event: DataEvent = {
-          source: 'traffic-api',
-          timestamp: new Date(),
-          payload: {
-            ...trafficData,
-            h3Index,
-          },
-        };
-        
-        // Emit the event
-        this.eventStream.next(event);
-      }
-    } catch (error) {
-      console.error('Error fetching traffic data:', error);
-    }
+  private getMockTrafficFlow(): TrafficData[] {
+    return this.roadSegments.map(segment => {
+      // Calculate the midpoint of the road segment
+      const midLat = (segment.startLat + segment.endLat) / 2;
+      const midLng = (segment.startLng + segment.endLng) / 2;
+      
+      // Calculate H3 index for the midpoint
+      const h3Index = GeospatialUtils.GeospatialUtils.latLngToH3(midLat, midLng);
+      
+      return {
+        ...this.getMockTrafficData(segment),
+        h3Index,
+      };
+    });
   }
 
   /**
@@ -269,16 +226,21 @@ export class TrafficConnector implements DataSourceConnector {
     const midLat = (segment.startLat + segment.endLat) / 2;
     const midLng = (segment.startLng + segment.endLng) / 2;
     
+    const readings: SegmentReadings = {
+      congestionLevel,
+      averageSpeed,
+      incidentCount: hasIncident ? 1 : 0,
+      roadClosures: incidentType === 'CLOSURE',
+    };
+    
     return {
-      timestamp: new Date().toISOString(),
+      roadSegmentId: segment.id,
+      timestamp: this.getObservationTime(segment, readings),
       location: {
         latitude: midLat,
         longitude: midLng,
       },
-      congestionLevel,
-      averageSpeed,
-      incidentCount: hasIncident ? 1 : 0,
-      roadClosures: incidentType === 'CLOSURE',
+      ...readings,
     };
   }
 
@@ -397,17 +359,12 @@ export class TrafficConnector implements DataSourceConnector {
   }
 
   /**
-   * Call the actual Traffic API (for real implementation)
+   * Call the Traffic API for the current flow on every road segment
    * @private
    */
   private async callTrafficApi(): Promise<any> {
-    try {
-      const response = await this.apiClient.get('/traffic/flow');
-      return response.data;
-    } catch (error) {
-      console.error('Error calling Traffic API:', error);
-      throw error;
-    }
+    const response = await this.apiClient.get('/traffic/flow');
+    return response.data;
   }
 
   /**
@@ -424,20 +381,52 @@ export class TrafficConnector implements DataSourceConnector {
     // Get H3 index for the midpoint
     const h3Index = GeospatialUtils.GeospatialUtils.latLngToH3(midLat, midLng);
     
+    const readings: SegmentReadings = {
+      congestionLevel: segment.congestionLevel,
+      averageSpeed: segment.averageSpeed,
+      incidentCount: segment.incidents.length,
+      roadClosures: segment.isClosed
+    };
+    
     // Create traffic data
     const trafficData: TrafficData = {
-      timestamp: new Date().toISOString(),
+      roadSegmentId: segment.id,
+      timestamp: this.getObservationTime(segment, readings),
       location: {
         latitude: midLat,
         longitude: midLng
       },
-      congestionLevel: segment.congestionLevel,
-      averageSpeed: segment.averageSpeed,
-      incidentCount: segment.incidents.length,
-      roadClosures: segment.isClosed,
+      ...readings,
       h3Index
     };
     
     return trafficData;
   }
+
+  /**
+   * Get the time a road segment's readings were observed
+   *
+   * This is the provider's measurement time when it reports one, and
+   * otherwise the time the readings last changed, so polling a segment that
+   * has not changed yields the same timestamp and deduplicates.
+   * @param segment Road segment
+   * @param readings Readings of the segment
+   * @returns ISO timestamp
+   * @private
+   */
+  private getObservationTime(segment: RoadSegment, readings: SegmentReadings): string {
+    if (segment.observedAt) {
+      return segment.observedAt;
+    }
+    
+    const serialized = JSON.stringify(readings);
+    const last = this.lastReadings.get(segment.id);
+    if (last && last.readings === serialized) {
+      return last.changedAt;
+    }
+    
+    const changedAt = new Date().toISOString();
+    this.lastReadings.set(segment.id, { readings: serialized, changedAt });
+    return changedAt;
+  }
 } 
\ No newline at end of file
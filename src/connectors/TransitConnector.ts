@@ -0,0 +1,419 @@
+import * as fs from 'fs';
+import axios from 'axios';
+import GtfsRealtimeBindings from 'gtfs-realtime-bindings';
+import config from '../config';
+import { TransitDisruptionData } from '../schemas/DataModels';
+import { GeospatialUtils } from '../utils/GeospatialUtils';
+import { GtfsStaticFeed } from '../utils/GtfsStaticFeed';
+import { PollingConnector, ConnectorDescription } from './Connector';
+
+const { transit_realtime } = GtfsRealtimeBindings;
+
+type Severity = TransitDisruptionData['severity'];
+
+/**
+ * Ordering of severities, lowest first
+ */
+const SEVERITY_RANK: Record<Severity, number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+
+/**
+ * Feeds are reported again every poll, so a disruption expires after this many
+ * polls without being reported
+ */
+const EXPIRY_POLLS = 3;
+
+/**
+ * Severity of each alert effect
+ */
+const EFFECT_SEVERITY: Partial<Record<string, Severity>> = {
+  NO_SERVICE: 'HIGH',
+  REDUCED_SERVICE: 'MEDIUM',
+  SIGNIFICANT_DELAYS: 'MEDIUM',
+  DETOUR: 'MEDIUM',
+  STOP_MOVED: 'MEDIUM',
+};
+
+/**
+ * Connector for transit disruptions from GTFS and GTFS-Realtime feeds
+ *
+ * Loads a static GTFS zip on connect and polls GTFS-Realtime feeds for
+ * service alerts and trip updates. Alerts are reported per affected stop;
+ * delays, skipped stops and canceled trips are combined per stop, keeping the
+ * worst. Each stop maps to the H3 cell it lies in.
+ *
+ * Disruptions are stamped with the time of the trip updates behind them, or
+ * the feed's header time. Trip updates that trail the header time by more
+ * than the source's watermark delay are stamped with the header time, so
+ * they are not dropped as late. A snapshot whose header time has not advanced since
+ * the previous poll (a stale feed, an unchanged file, or the last-known-good
+ * copy served while the provider fails) is stamped with the time it was read
+ * instead, so re-reading it does not hold back the pipeline's watermark.
+ */
+export class TransitConnector extends PollingConnector {
+  private staticFeed: GtfsStaticFeed | null = null;
+  // Latest header time read from each realtime feed, in milliseconds
+  private feedTimes = new Map<string, number>();
+
+  /**
+   * Create a new transit connector
+   * @param staticFeedLocation Static GTFS zip, as a local path or URL
+   * @param realtimeFeeds GTFS-Realtime feeds, as local paths or URLs
+   * @param apiKey API key sent with realtime feed requests (optional)
+   * @param refreshIntervalMs The refresh interval in milliseconds
+   * @param delayThresholdsSeconds Minimum trip delay for each severity
+   * @param maxUpdateAgeMs How far a trip update's time may trail the feed's header time
+   */
+  constructor(
+    private readonly staticFeedLocation: string = config.dataSources.transit.staticFeed,
+    private readonly realtimeFeeds: string[] = config.dataSources.transit.realtimeFeeds,
+    private readonly apiKey: string = config.dataSources.transit.apiKey,
+    refreshIntervalMs: number = config.dataSources.transit.refreshIntervalMs || 30000,
+    private readonly delayThresholdsSeconds: Record<Severity, number> = config.dataSources.transit.delayThresholdsSeconds,
+    private readonly maxUpdateAgeMs: number = config.dataSources.transit.maxUpdateAgeMs,
+  ) {
+    super('TransitConnector', refreshIntervalMs);
+  }
+
+  /**
+   * Load the static GTFS feed
+   */
+  protected async onConnect(): Promise<void> {
+    if (!this.staticFeedLocation) {
+      throw new Error('No static GTFS feed configured');
+    }
+
+    this.staticFeed = await GtfsStaticFeed.load(this.staticFeedLocation);
+  }
+
+  /**
+   * Read every realtime feed and emit the disruptions it reports
+   */
+  protected async poll(): Promise<void> {
+    const expiresAt = new Date(Date.now() + EXPIRY_POLLS * this.pollIntervalMs).toISOString();
+
+    for (const feed of this.realtimeFeeds) {
+      const message = transit_realtime.FeedMessage.decode(await this.readFeed(feed));
+      const headerTime = this.toDate(message.header.timestamp);
+      const previousTime = this.feedTimes.get(feed);
+      const isFresh = headerTime !== undefined && (previousTime === undefined || headerTime.getTime() > previousTime);
+
+      if (isFresh) {
+        this.feedTimes.set(feed, headerTime.getTime());
+      }
+
+      const feedTime = isFresh ? headerTime : new Date();
+      const disruptions = [
+        ...this.getAlertDisruptions(message.entity || [], feedTime, expiresAt),
+        ...this.getTripDisruptions(message.entity || [], feedTime, expiresAt, isFresh),
+      ];
+
+      for (const disruption of disruptions) {
+        this.emitEvent({
+          source: 'transit-gtfs-rt',
+          timestamp: new Date(disruption.timestamp),
+          payload: disruption,
+        });
+      }
+
+      this.logger.debug(`Read ${disruptions.length} transit disruptions from ${feed}`);
+    }
+  }
+
+  /**
+   * Describe the connector
+   */
+  protected describe(): ConnectorDescription {
+    return {
+      name: 'Transit GTFS-Realtime',
+      type: 'GTFS-Realtime',
+      description: 'Maps transit service alerts and trip updates to the H3 cells of affected stops',
+      updateFrequency: `${this.pollIntervalMs / 1000} seconds`,
+    };
+  }
+
+  /**
+   * Read a realtime feed from a local file or a URL
+   * @param feed Path or URL of the feed
+   * @private
+   */
+  private async readFeed(feed: string): Promise<Uint8Array> {
+    if (!/^https?:\/\//.test(feed)) {
+      return fs.promises.readFile(feed);
+    }
+
+    // Feeds are full snapshots, so the last one read stands in while the provider is failing
+    return this.callExternal(feed, async () => {
+      const response = await axios.get(feed, {
+        responseType: 'arraybuffer',
+        headers: this.apiKey ? { 'X-API-Key': this.apiKey } : undefined,
+      });
+      return new Uint8Array(response.data);
+    });
+  }
+
+  /**
+   * Get a disruption for every stop affected by each active service alert
+   * @param entities Feed entities
+   * @param feedTime Feed timestamp
+   * @param expiresAt Expiry of the disruptions
+   * @private
+   */
+  private getAlertDisruptions(
+    entities: GtfsRealtimeBindings.transit_realtime.IFeedEntity[],
+    feedTime: Date,
+    expiresAt: string
+  ): TransitDisruptionData[] {
+    const disruptions: TransitDisruptionData[] = [];
+
+    for (const entity of entities) {
+      const alert = entity.alert;
+      if (!alert || !this.isActive(alert.activePeriod || [], feedTime)) {
+        continue;
+      }
+
+      const effect = alert.effect ? transit_realtime.Alert.Effect[alert.effect] : undefined;
+      const cause = alert.cause ? transit_realtime.Alert.Cause[alert.cause] : undefined;
+
+      // Informing riders of added service or no effect is not a disruption
+      if (effect === 'ADDITIONAL_SERVICE' || effect === 'NO_EFFECT') {
+        continue;
+      }
+
+      let severity: Severity = (effect && EFFECT_SEVERITY[effect]) || 'LOW';
+      if (alert.severityLevel === transit_realtime.Alert.SeverityLevel.SEVERE) {
+        severity = 'HIGH';
+      } else if (alert.severityLevel === transit_realtime.Alert.SeverityLevel.WARNING) {
+        severity = this.worse(severity, 'MEDIUM');
+      }
+
+      const stopRoutes = new Map<string, Set<string>>();
+      for (const selector of alert.informedEntity || []) {
+        const routeId = selector.routeId || selector.trip?.routeId || (selector.trip?.tripId && this.staticFeed.getTripRoute(selector.trip.tripId));
+
+        let stopIds: string[] = [];
+        if (selector.stopId) {
+          stopIds = [selector.stopId];
+        } else if (selector.trip?.tripId) {
+          stopIds = this.staticFeed.getTripStops(selector.trip.tripId);
+        } else if (routeId) {
+          stopIds = this.staticFeed.getRouteStops(routeId);
+        }
+
+        for (const stopId of stopIds) {
+          const routes = stopRoutes.get(stopId) || new Set<string>();
+          if (routeId) {
+            routes.add(routeId);
+          }
+          stopRoutes.set(stopId, routes);
+        }
+      }
+
+      const alertEnd = this.getActiveEnd(alert.activePeriod || [], feedTime);
+      const description = this.getText(alert.headerText) || this.getText(alert.descriptionText);
+
+      for (const [stopId, routeIds] of stopRoutes.entries()) {
+        const disruption = this.createDisruption(`alert:${entity.id}:${stopId}`, stopId, 'ALERT', severity, feedTime, expiresAt);
+        if (disruption) {
+          disruptions.push({
+            ...disruption,
+            routeIds: Array.from(routeIds),
+            cause,
+            effect,
+            description,
+            // Alerts that end before the next polls expire with them
+            expiresAt: alertEnd && alertEnd.toISOString() < expiresAt ? alertEnd.toISOString() : expiresAt,
+          });
+        }
+      }
+    }
+
+    return disruptions;
+  }
+
+  /**
+   * Get the worst delay, skipped stop or trip cancellation at each stop from the trip updates
+   * @param entities Feed entities
+   * @param feedTime Feed timestamp
+   * @param expiresAt Expiry of the disruptions
+   * @param useTripTimes Stamp disruptions with their latest trip update rather than the feed time
+   * @private
+   */
+  private getTripDisruptions(
+    entities: GtfsRealtimeBindings.transit_realtime.IFeedEntity[],
+    feedTime: Date,
+    expiresAt: string,
+    useTripTimes: boolean
+  ): TransitDisruptionData[] {
+    const { TripDescriptor, TripUpdate } = transit_realtime;
+    const byStop = new Map<string, TransitDisruptionData>();
+
+    const report = (stopId: string, routeId: string | undefined, type: TransitDisruptionData['type'], severity: Severity, tripTime: Date, delaySeconds?: number) => {
+      const existing = byStop.get(stopId);
+      const disruption = existing || this.createDisruption(`trips:${stopId}`, stopId, type, severity, tripTime, expiresAt);
+      if (!disruption) {
+        return;
+      }
+
+      if (existing && tripTime.toISOString() > existing.timestamp) {
+        existing.timestamp = tripTime.toISOString();
+      }
+
+      if (existing && SEVERITY_RANK[severity] > SEVERITY_RANK[existing.severity]) {
+        existing.type = type;
+        existing.severity = severity;
+      }
+      if (delaySeconds !== undefined) {
+        disruption.delaySeconds = Math.max(disruption.delaySeconds ?? 0, delaySeconds);
+      }
+      if (routeId && !disruption.routeIds.includes(routeId)) {
+        disruption.routeIds.push(routeId);
+      }
+
+      byStop.set(stopId, disruption);
+    };
+
+    for (const entity of entities) {
+      const tripUpdate = entity.tripUpdate;
+      if (!tripUpdate) {
+        continue;
+      }
+
+      const tripId = tripUpdate.trip.tripId;
+      const routeId = tripUpdate.trip.routeId || (tripId ? this.staticFeed.getTripRoute(tripId) : undefined);
+      const updateTime = useTripTimes ? this.toDate(tripUpdate.timestamp) : undefined;
+      const tripTime = updateTime && feedTime.getTime() - updateTime.getTime() <= this.maxUpdateAgeMs ? updateTime : feedTime;
+
+      if (tripUpdate.trip.scheduleRelationship === TripDescriptor.ScheduleRelationship.CANCELED) {
+        const stopIds = tripId ? this.staticFeed.getTripStops(tripId) : [];
+        const updatedStopIds = (tripUpdate.stopTimeUpdate || []).map(update => update.stopId).filter(Boolean);
+
+        for (const stopId of stopIds.length > 0 ? stopIds : updatedStopIds) {
+          report(stopId, routeId, 'CANCELED_TRIP', 'HIGH', tripTime);
+        }
+        continue;
+      }
+
+      for (const update of tripUpdate.stopTimeUpdate || []) {
+        if (!update.stopId) {
+          continue;
+        }
+
+        if (update.scheduleRelationship === TripUpdate.StopTimeUpdate.ScheduleRelationship.SKIPPED) {
+          report(update.stopId, routeId, 'SKIPPED_STOP', 'MEDIUM', tripTime);
+          continue;
+        }
+
+        const delaySeconds = update.arrival?.delay ?? update.departure?.delay ?? tripUpdate.delay;
+        const severity = delaySeconds ? this.getDelaySeverity(delaySeconds) : undefined;
+        if (severity) {
+          report(update.stopId, routeId, 'DELAY', severity, tripTime, delaySeconds);
+        }
+      }
+    }
+
+    return Array.from(byStop.values());
+  }
+
+  /**
+   * Create a disruption at a stop
+   * @returns The disruption, or undefined if the stop is not in the static feed
+   * @private
+   */
+  private createDisruption(
+    id: string,
+    stopId: string,
+    type: TransitDisruptionData['type'],
+    severity: Severity,
+    eventTime: Date,
+    expiresAt: string
+  ): TransitDisruptionData | undefined {
+    const stop = this.staticFeed.getStop(stopId);
+    if (!stop) {
+      return undefined;
+    }
+
+    return {
+      id,
+      timestamp: eventTime.toISOString(),
+      h3Index: GeospatialUtils.latLngToH3(stop.latitude, stop.longitude),
+      stopId,
+      stopName: stop.name,
+      routeIds: [],
+      type,
+      severity,
+      expiresAt,
+    };
+  }
+
+  /**
+   * Get the severity of a trip delay
+   * @param delaySeconds Delay in seconds
+   * @returns Severity, or undefined if the delay is below every threshold
+   * @private
+   */
+  private getDelaySeverity(delaySeconds: number): Severity | undefined {
+    const { LOW, MEDIUM, HIGH } = this.delayThresholdsSeconds;
+
+    if (delaySeconds >= HIGH) return 'HIGH';
+    if (delaySeconds >= MEDIUM) return 'MEDIUM';
+    if (delaySeconds >= LOW) return 'LOW';
+    return undefined;
+  }
+
+  /**
+   * Get the worse of two severities
+   * @private
+   */
+  private worse(a: Severity, b: Severity): Severity {
+    return SEVERITY_RANK[a] >= SEVERITY_RANK[b] ? a : b;
+  }
+
+  /**
+   * Check whether an alert is active at a time; alerts without periods always are
+   * @param periods Active periods
+   * @param time Time to check
+   * @private
+   */
+  private isActive(periods: GtfsRealtimeBindings.transit_realtime.ITimeRange[], time: Date): boolean {
+    return periods.length === 0 || periods.some(period => {
+      const start = this.toDate(period.start);
+      const end = this.toDate(period.end);
+      return (!start || start <= time) && (!end || time <= end);
+    });
+  }
+
+  /**
+   * Get the end of the active period containing a time
+   * @returns End of the period, or undefined if it is open-ended
+   * @private
+   */
+  private getActiveEnd(periods: GtfsRealtimeBindings.transit_realtime.ITimeRange[], time: Date): Date | undefined {
+    const period = periods.find(candidate => {
+      const start = this.toDate(candidate.start);
+      const end = this.toDate(candidate.end);
+      return (!start || start <= time) && (!end || time <= end);
+    });
+
+    return period ? this.toDate(period.end) : undefined;
+  }
+
+  /**
+   * Convert a POSIX timestamp in seconds to a date
+   * @returns The date, or undefined for a missing or zero timestamp
+   * @private
+   */
+  private toDate(seconds: number | { toNumber(): number } | null | undefined): Date | undefined {
+    const value = typeof seconds === 'number' ? seconds : seconds?.toNumber();
+    return value ? new Date(value * 1000) : undefined;
+  }
+
+  /**
+   * Get the English text of a translated string, or its first translation
+   * @private
+   */
+  private getText(text: GtfsRealtimeBindings.transit_realtime.ITranslatedString | null | undefined): string | undefined {
+    const translations = text?.translation || [];
+    const translation = translations.find(candidate => !candidate.language || candidate.language.startsWith('en')) || translations[0];
+    return translation?.text || undefined;
+  }
+}
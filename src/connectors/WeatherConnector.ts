@@ -1,11 +1,8 @@
-import { EventEmitter } from 'events';
-import { WeatherData, GeoLocation, DataEvent } from '../schemas/DataModels';
+import axios, { AxiosInstance } from 'axios';
+import { WeatherData, GeoLocation } from '../schemas/DataModels';
 import config from '../config';
 import { GeospatialUtils } from '../utils/GeospatialUtils';
-import { BaseConnector } from './Connector';
-import { Logger } from '../utils/Logger';
-import { Observable, Subject } from 'rxjs';
-import { ConnectorMetadata, DataSourceConnector } from './DataSourceConnector';
+import { PollingConnector, ConnectorDescription } from './Connector';
 
 /**
  * Weather condition type
@@ -25,112 +22,31 @@ interface MonitoredLocation {
 /**
  * Connector for weather data
  */
-export class WeatherConnector extends BaseConnector implements DataSourceConnector {
-  private refreshIntervalMs: number;
-  private pollingInterval: NodeJS.Timeout | null = null;
+export class WeatherConnector extends PollingConnector {
+  private apiClient: AxiosInstance;
   private monitoredLocations: MonitoredLocation[] = [];
-  private isPolling: boolean = false;
-  private logger: Logger;
-  private dataSubject: Subject<DataEvent> = new Subject<DataEvent>();
 
   /**
    * Initialize the weather connector
+   * @param refreshIntervalMs The refresh interval in milliseconds
+   * @param apiUrl The Weather API URL
+   * @param apiKey The Weather API key
    */
-  constructor() {
-    super('WeatherConnector');
-    this.refreshIntervalMs = config.streaming.refreshInterval;
-    this.logger = new Logger('WeatherConnector');
+  constructor(
+    refreshIntervalMs: number = config.streaming.refreshInterval,
+    apiUrl: string = config.dataSources.weather.apiUrl,
+    apiKey: string = config.dataSources.weather.apiKey,
+  ) {
+    super('WeatherConnector', refreshIntervalMs);
+    this.apiClient = axios.create({
+      baseURL: apiUrl,
+      headers: {
+        'X-API-Key': apiKey,
+      },
+    });
     this.initializeDefaultLocations();
   }
 
-  /**
-   * Connect to the Weather API service
-   */
-  async connect(): Promise<void> {
-    if (this.connected) {
-      this.logger.warn('Already connected to Weather API service');
-      return;
-    }
-
-    try {
-      this.logger.info('Connecting to Weather API service...');
-      
-      // In a real implementation, this would establish a connection to the Weather API
-      // For now, we'll just simulate a successful connection
-      
-      // Start polling for weather data
-      this.connected = true;
-      this.logger.info('Connected to Weather API service');
-    } catch (error) {
-      this.logger.error('Failed to connect to Weather API service:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Disconnect from the Weather API service
-   */
-  async disconnect(): Promise<void> {
-    if (!this.connected) {
-      this.logger.warn('Not connected to Weather API service');
-      return;
-    }
-
-    try {
-      this.logger.info('Disconnecting from Weather API service...');
-      
-      // Stop polling for weather data
-      await this.stop();
-      
-      this.connected = false;
-      this.logger.info('Disconnected from Weather API service');
-    } catch (error) {
-      this.logger.error('Failed to disconnect from Weather API service:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Start polling for weather data
-   */
-  async start(): Promise<void> {
-    this.logger.info('Starting WeatherConnector');
-    
-    if (this.isPolling) {
-      this.logger.warn('WeatherConnector is already polling');
-      return;
-    }
-    
-    this.isPolling = true;
-    
-    // Start polling
-    this.pollWeatherData();
-    
-    this.logger.info('WeatherConnector started');
-  }
-
-  /**
-   * Stop polling for weather data
-   */
-  async stop(): Promise<void> {
-    this.logger.info('Stopping WeatherConnector');
-    
-    if (!this.isPolling) {
-      this.logger.warn('WeatherConnector is not polling');
-      return;
-    }
-    
-    this.isPolling = false;
-    
-    // Clear polling interval
-    if (this.pollingInterval) {
-      clearTimeout(this.pollingInterval);
-      this.pollingInterval = null;
-    }
-    
-    this.logger.info('WeatherConnector stopped');
-  }
-
   /**
    * Add a location to monitor for weather data
    * @param location Location to monitor or latitude
@@ -204,33 +120,18 @@ export class WeatherConnector extends BaseConnector implements DataSourceConnect
   /**
    * Poll for weather data
    */
-  private async pollWeatherData(): Promise<void> {
-    if (!this.isPolling) {
-      return;
-    }
+  protected async poll(): Promise<void> {
+    this.logger.debug('Polling for weather data');
     
-    try {
-      this.logger.debug('Polling for weather data');
+    // For now, we'll generate mock data for each location
+    for (const location of this.monitoredLocations) {
+      const weatherData = await this.fetchWeatherData(location);
       
-      // For now, we'll generate mock data for each location
-      for (const location of this.monitoredLocations) {
-        const weatherData = await this.fetchWeatherData(location);
-        
-        // Create a data event
-        const event: DataEvent = {
-          source: 'weather-api',
-          timestamp: new Date(),
-          payload: weatherData,
-        };
-        
-        // Emit the event
-        this.emitWeatherData(weatherData);
-      }
-    } catch (error) {
-      this.logger.error('Failed to poll weather data:', error);
-    } finally {
-      // Schedule next poll
-      this.pollingInterval = setTimeout(() => this.pollWeatherData(), this.refreshIntervalMs);
+      this.emitEvent({
+        source: 'weather-api',
+        timestamp: new Date(),
+        payload: weatherData,
+      });
     }
   }
 
@@ -240,23 +141,46 @@ export class WeatherConnector extends BaseConnector implements DataSourceConnect
    * @returns Weather data for the location
    */
   private async fetchWeatherData(location: MonitoredLocation): Promise<WeatherData> {
-    try {
-      // In a real implementation, this would call the weather API
-      // For now, we'll generate mock data
-      const weatherData = this.getMockWeatherData(location);
-      
-      // Calculate H3 index for the location
-      const h3Index = GeospatialUtils.latLngToH3(location.latitude, location.longitude);
-      
-      // Add H3 index to weather data
-      return {
-        ...weatherData,
-        h3Index
-      };
-    } catch (error) {
-      this.logger.error(`Failed to fetch weather data for location ${location.name}:`, error);
-      throw error;
-    }
+    // Call the Weather API unless mock data is configured, falling back to the
+    // last-known-good reading or mock data while the provider is failing
+    const weatherData = config.connectors.useMockData
+      ? this.getMockWeatherData(location)
+      : await this.callExternal(
+        location.id,
+        () => this.callWeatherApi(location),
+        () => this.getMockWeatherData(location)
+      );
+    
+    // Calculate H3 index for the location
+    const h3Index = GeospatialUtils.latLngToH3(location.latitude, location.longitude);
+    
+    // Add H3 index to weather data
+    return {
+      ...weatherData,
+      h3Index
+    };
+  }
+
+  /**
+   * Call the Weather API for current conditions at a location
+   * @param location Location to fetch weather data for
+   * @returns Weather data for the location
+   */
+  private async callWeatherApi(location: MonitoredLocation): Promise<WeatherData> {
+    const response = await this.apiClient.get('/current', {
+      params: {
+        lat: location.latitude,
+        lon: location.longitude,
+      },
+    });
+    
+    return {
+      ...response.data,
+      location: {
+        latitude: location.latitude,
+        longitude: location.longitude
+      }
+    };
   }
 
   /**
@@ -401,42 +325,14 @@ export class WeatherConnector extends BaseConnector implements DataSourceConnect
   }
 
   /**
-   * Get the data stream from this connector
+   * Describe the connector
    */
-  getStream(): Observable<DataEvent> {
-    return this.dataSubject.asObservable();
-  }
-
-  /**
-   * Get metadata about this connector
-   */
-  getMetadata(): ConnectorMetadata {
+  protected describe(): ConnectorDescription {
     return {
-      name: this.getName(),
+      name: this.name,
       type: 'weather',
       description: 'Provides real-time weather data for monitored locations',
-      updateFrequency: `${this.refreshIntervalMs}ms`,
-      status: this.isConnected() ? 'connected' : 'disconnected',
-      lastConnected: this.connected ? new Date() : undefined
-    };
-  }
-
-  /**
-   * Emit a weather data event
-   * @param weatherData The weather data to emit
-   * @private
-   */
-  private emitWeatherData(weatherData: WeatherData): void {
-    const event: DataEvent = {
-      source: 'weather-api',
-      timestamp: new Date(),
-      payload: weatherData
+      updateFrequency: `${this.pollIntervalMs}ms`,
     };
-    
-    // Emit to event emitter for backward compatibility
-    this.emit('data', event);
-    
-    // Emit to rxjs subject for stream processor
-    this.dataSubject.next(event);
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,219 @@
+import * as crypto from 'crypto';
+import { Request, Response } from 'express';
+import config from '../config';
+import { BaseConnector, ConnectorDescription } from './Connector';
+import { EventDeduplicator } from '../utils/EventDeduplicator';
+import { GeospatialUtils } from '../utils/GeospatialUtils';
+import { getJsonValidationErrors, AvroSchemaName } from '../utils/AvroUtils';
+
+/**
+ * Source accepted by the webhook
+ */
+export interface WebhookSource {
+  // Avro schema the request body must match
+  schema: AvroSchemaName;
+  // DataEvent source the body is emitted as
+  eventSource: string;
+  // Signing secret for this source, overriding the shared secret
+  secret?: string;
+}
+
+/**
+ * Webhook connector options
+ */
+export interface WebhookOptions {
+  secret: string;
+  signatureHeader: string;
+  idempotencyTtlMs: number;
+  maxTrackedKeys: number;
+  sources: Record<string, WebhookSource>;
+}
+
+/**
+ * Webhook request, independent of the HTTP framework
+ */
+export interface WebhookRequest {
+  // Unparsed body, which the signature covers
+  rawBody: Buffer;
+  // Parsed JSON body
+  body: any;
+  signature?: string;
+  idempotencyKey?: string;
+}
+
+/**
+ * Webhook response status and JSON body
+ */
+export interface WebhookResponse {
+  status: number;
+  body: Record<string, any>;
+}
+
+/**
+ * Connector for events pushed by partners over HTTP
+ *
+ * Each accepted source is served at `POST /ingest/:source`. A request must be
+ * signed with an HMAC-SHA256 of its raw body, as `sha256=<hex>` in the
+ * signature header, and its body must match the source's Avro schema. Accepted
+ * bodies are emitted as data events and answered with 202 and an idempotency
+ * key: the request's `Idempotency-Key` header, or a hash of the body if it has
+ * none. A redelivered request with a key seen within the TTL is acknowledged
+ * again without emitting a second event.
+ */
+export class WebhookConnector extends BaseConnector {
+  private readonly options: WebhookOptions;
+  private readonly idempotencyKeys: EventDeduplicator;
+  private accepting = false;
+
+  /**
+   * Initialize the webhook connector
+   * @param options Webhook options; missing options are taken from config.connectors.webhook
+   */
+  constructor(options: Partial<WebhookOptions> = {}) {
+    super('WebhookConnector');
+    this.options = {
+      ...(config.connectors.webhook as WebhookOptions),
+      ...options,
+    };
+
+    const sourceNames = Object.keys(this.options.sources);
+    this.idempotencyKeys = new EventDeduplicator(
+      {
+        maxEntriesPerSource: this.options.maxTrackedKeys,
+        sources: Object.fromEntries(sourceNames.map(source => [source, { enabled: true, ttlMs: this.options.idempotencyTtlMs }])),
+      },
+      Object.fromEntries(sourceNames.map(source => [source, (key: string) => key]))
+    );
+  }
+
+  /**
+   * Check whether the webhook accepts events for a source
+   * @param source Webhook source name
+   */
+  acceptsSource(source: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.options.sources, source);
+  }
+
+  /**
+   * Handle an Express request to `POST /ingest/:source`
+   * @param req Express request
+   * @param res Express response
+   */
+  handleRequest(req: Request, res: Response): void {
+    const response = this.ingest(req.params.source, {
+      rawBody: req.rawBody ?? Buffer.from(JSON.stringify(req.body ?? null)),
+      body: req.body,
+      signature: req.get(this.options.signatureHeader),
+      idempotencyKey: req.get('idempotency-key'),
+    });
+
+    res.status(response.status).json(response.body);
+  }
+
+  /**
+   * Authenticate, validate and emit a pushed event
+   * @param source Webhook source name
+   * @param request Webhook request
+   * @returns Response to send to the partner
+   */
+  ingest(source: string, request: WebhookRequest): WebhookResponse {
+    if (!this.acceptsSource(source)) {
+      return { status: 404, body: { success: false, message: `Unknown webhook source ${source}` } };
+    }
+
+    if (!this.accepting) {
+      return { status: 503, body: { success: false, message: 'Webhook is not accepting events' } };
+    }
+
+    const webhookSource = this.options.sources[source];
+    if (!this.isSignatureValid(request.rawBody, request.signature, webhookSource.secret ?? this.options.secret)) {
+      this.logger.warn(`Rejected webhook request for ${source}: invalid signature`);
+      return { status: 401, body: { success: false, message: 'Invalid signature' } };
+    }
+
+    const errors = getJsonValidationErrors(webhookSource.schema, request.body);
+    if (errors.length > 0) {
+      return { status: 400, body: { success: false, message: `Body does not match ${webhookSource.schema}`, errors } };
+    }
+
+    const idempotencyKey = request.idempotencyKey ||
+      crypto.createHash('sha256').update(source).update(request.rawBody).digest('hex');
+
+    if (this.idempotencyKeys.isDuplicate(source, idempotencyKey)) {
+      return { status: 202, body: { success: true, message: 'Event already accepted', idempotencyKey, duplicate: true } };
+    }
+
+    const payload = this.withH3Index(request.body);
+    const timestamp = new Date(payload.timestamp);
+
+    this.emitEvent({
+      source: webhookSource.eventSource,
+      timestamp: Number.isNaN(timestamp.getTime()) ? new Date() : timestamp,
+      payload,
+      metadata: { webhookSource: source, idempotencyKey },
+    }, webhookSource.schema);
+
+    return { status: 202, body: { success: true, message: 'Event accepted', idempotencyKey } };
+  }
+
+  /**
+   * Start accepting pushed events
+   */
+  protected startProducing(): void {
+    this.accepting = true;
+  }
+
+  /**
+   * Stop accepting pushed events
+   */
+  protected stopProducing(): void {
+    this.accepting = false;
+  }
+
+  /**
+   * Describe the connector
+   */
+  protected describe(): ConnectorDescription {
+    return {
+      name: 'Webhook Ingestion',
+      type: 'webhook',
+      description: `Accepts events pushed to POST /ingest/:source for ${Object.keys(this.options.sources).join(', ')}`,
+      updateFrequency: 'Push',
+    };
+  }
+
+  /**
+   * Check a request signature against the HMAC-SHA256 of its raw body
+   * @param rawBody Unparsed request body
+   * @param signature Signature header value, as `sha256=<hex>` or `<hex>`
+   * @param secret Signing secret
+   * @private
+   */
+  private isSignatureValid(rawBody: Buffer, signature: string | undefined, secret: string): boolean {
+    if (!signature || !secret) {
+      return false;
+    }
+
+    const expected = crypto.createHmac('sha256', secret).update(rawBody).digest();
+    const actual = Buffer.from(signature.replace(/^sha256=/, ''), 'hex');
+
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+
+  /**
+   * Add the H3 index of the payload's location if it has none
+   * @param payload Event payload
+   * @private
+   */
+  private withH3Index(payload: any): any {
+    const location = payload.location ?? payload.pickupLocation;
+    if (payload.h3Index || !location) {
+      return payload;
+    }
+
+    return {
+      ...payload,
+      h3Index: GeospatialUtils.latLngToH3(location.latitude, location.longitude),
+    };
+  }
+}
@@ -15,6 +15,10 @@ import { NotificationService } from './services/NotificationService';
 import { PriceLockService } from './services/PriceLockService';
 import { DriverGuidanceService } from './services/DriverGuidanceService';
 import { Logger } from './utils/Logger';
+import { schemaRegistry } from './utils/SchemaRegistry';
+import { TopicManager } from './kafka/TopicManager';
+import { OutboxRelay } from './kafka/Outbox';
+import { KafkaService } from './utils/KafkaService';
 
 // Initialize logger
 const logger = new Logger('Main');
@@ -25,49 +29,211 @@ const app = express();
 // Middleware
 app.use(cors());
 app.use(helmet());
-app.use(express.json());
-
-// Create pipeline manager
-const pipelineManager = new PipelineManager();
-
-// Health check endpoint
-app.get('/health', (req, res) => {
-  const status = pipelineManager.getStatus();
-  res.json({
-    status: 'ok',
-    version: process.env.npm_package_version || '1.0.0',
-    environment: config.env,
-    pipeline: status
+// Keep the raw body so webhook signatures can be checked against it
+app.use(express.json({
+  verify: (req, res, buf) => {
+    req.rawBody = buf;
+  }
+}));
+
+// Create Kafka topic manager
+const topicManager = new TopicManager();
+
+/**
+ * Register the API routes
+ * @param pipelineManager Pipeline manager run by the application
+ */
+function registerRoutes(pipelineManager: PipelineManager): void {
+  // Health check endpoint
+  app.get('/health', (req, res) => {
+    const status = pipelineManager.getStatus();
+    res.json({
+      status: 'ok',
+      version: process.env.npm_package_version || '1.0.0',
+      environment: config.env,
+      pipeline: status
+    });
   });
-});
 
-// API routes
-app.get('/api/status', (req, res) => {
-  const status = pipelineManager.getStatus();
-  res.json(status);
-});
+  // API routes
+  app.get('/api/status', (req, res) => {
+    const status = pipelineManager.getStatus();
+    res.json(status);
+  });
 
-// Start the pipeline
-app.post('/api/pipeline/start', async (req, res) => {
-  try {
-    await pipelineManager.start();
-    res.json({ success: true, message: 'Pipeline started' });
-  } catch (error) {
-    console.error('Error starting pipeline:', error);
-    res.status(500).json({ success: false, message: 'Failed to start pipeline', error: (error as Error).message });
-  }
-});
+  // Start the pipeline
+  app.post('/api/pipeline/start', async (req, res) => {
+    try {
+      await pipelineManager.start();
+      res.json({ success: true, message: 'Pipeline started' });
+    } catch (error) {
+      console.error('Error starting pipeline:', error);
+      res.status(500).json({ success: false, message: 'Failed to start pipeline', error: (error as Error).message });
+    }
+  });
 
-// Stop the pipeline
-app.post('/api/pipeline/stop', async (req, res) => {
-  try {
-    await pipelineManager.stop();
-    res.json({ success: true, message: 'Pipeline stopped' });
-  } catch (error) {
-    console.error('Error stopping pipeline:', error);
-    res.status(500).json({ success: false, message: 'Failed to stop pipeline', error: (error as Error).message });
-  }
-});
+  // Stop the pipeline
+  app.post('/api/pipeline/stop', async (req, res) => {
+    try {
+      await pipelineManager.stop();
+      res.json({ success: true, message: 'Pipeline stopped' });
+    } catch (error) {
+      console.error('Error stopping pipeline:', error);
+      res.status(500).json({ success: false, message: 'Failed to stop pipeline', error: (error as Error).message });
+    }
+  });
+
+  // List dead-letter entries
+  app.get('/api/dlq', (req, res) => {
+    const deadLetterQueue = pipelineManager.getDeadLetterQueue();
+    const entries = deadLetterQueue.list({
+      source: req.query.source as string | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+      offset: req.query.offset ? parseInt(req.query.offset as string, 10) : undefined,
+    });
+    res.json({ total: deadLetterQueue.size(), entries });
+  });
+
+  // Inspect a dead-letter entry
+  app.get('/api/dlq/:id', (req, res) => {
+    const entry = pipelineManager.getDeadLetterQueue().get(req.params.id);
+    if (!entry) {
+      res.status(404).json({ success: false, message: `Dead-letter entry ${req.params.id} not found` });
+      return;
+    }
+    res.json(entry);
+  });
+
+  // Replay a dead-letter entry back into the pipeline
+  app.post('/api/dlq/:id/replay', async (req, res) => {
+    try {
+      const entry = await pipelineManager.getDeadLetterQueue().replay(req.params.id);
+      if (!entry) {
+        res.status(404).json({ success: false, message: `Dead-letter entry ${req.params.id} not found` });
+        return;
+      }
+      res.json({ success: true, message: 'Dead-letter entry replayed', entry });
+    } catch (error) {
+      console.error('Error replaying dead-letter entry:', error);
+      res.status(500).json({ success: false, message: 'Failed to replay dead-letter entry', error: (error as Error).message });
+    }
+  });
+
+  // Discard a dead-letter entry
+  app.delete('/api/dlq/:id', (req, res) => {
+    if (!pipelineManager.getDeadLetterQueue().remove(req.params.id)) {
+      res.status(404).json({ success: false, message: `Dead-letter entry ${req.params.id} not found` });
+      return;
+    }
+    res.json({ success: true, message: 'Dead-letter entry removed' });
+  });
+
+  // List connectors with their definitions and status
+  app.get('/api/connectors', (req, res) => {
+    const status = pipelineManager.getStatus().connectors;
+    res.json(pipelineManager.getConnectorDefinitions().map(definition => ({
+      ...definition,
+      metadata: status[definition.name],
+    })));
+  });
+
+  // Add a connector at runtime
+  app.post('/api/connectors', async (req, res) => {
+    const definition = req.body;
+    if (!definition || typeof definition.name !== 'string' || typeof definition.factory !== 'string') {
+      res.status(400).json({ success: false, message: 'Connector definition requires a name and a factory' });
+      return;
+    }
+
+    try {
+      const connector = await pipelineManager.addConnector(definition);
+      res.status(201).json({ success: true, message: `Connector ${definition.name} added`, metadata: connector.getMetadata() });
+    } catch (error) {
+      console.error('Error adding connector:', error);
+      res.status(500).json({ success: false, message: 'Failed to add connector', error: (error as Error).message });
+    }
+  });
+
+  // Remove a connector at runtime
+  app.delete('/api/connectors/:name', async (req, res) => {
+    try {
+      if (!await pipelineManager.removeConnector(req.params.name)) {
+        res.status(404).json({ success: false, message: `Connector ${req.params.name} not found` });
+        return;
+      }
+      res.json({ success: true, message: `Connector ${req.params.name} removed` });
+    } catch (error) {
+      console.error('Error removing connector:', error);
+      res.status(500).json({ success: false, message: 'Failed to remove connector', error: (error as Error).message });
+    }
+  });
+
+  // Describe the Kafka topics with their partitions, configs and drift from their specs
+  app.get('/api/kafka/topics', async (req, res) => {
+    try {
+      res.json(await topicManager.describeTopics());
+    } catch (error) {
+      console.error('Error describing Kafka topics:', error);
+      res.status(500).json({ success: false, message: 'Failed to describe Kafka topics', error: (error as Error).message });
+    }
+  });
+
+  // Describe a Kafka topic
+  app.get('/api/kafka/topics/:topic', async (req, res) => {
+    try {
+      const description = await topicManager.describeTopic(req.params.topic);
+      if (!description.exists && !description.spec) {
+        res.status(404).json({ success: false, message: `Kafka topic ${req.params.topic} not found` });
+        return;
+      }
+      res.json(description);
+    } catch (error) {
+      console.error('Error describing Kafka topic:', error);
+      res.status(500).json({ success: false, message: 'Failed to describe Kafka topic', error: (error as Error).message });
+    }
+  });
+
+  // Reconcile the Kafka topics with their specs
+  app.post('/api/kafka/topics/reconcile', async (req, res) => {
+    try {
+      res.json({ success: true, topics: await topicManager.reconcile() });
+    } catch (error) {
+      console.error('Error reconciling Kafka topics:', error);
+      res.status(500).json({ success: false, message: 'Failed to reconcile Kafka topics', error: (error as Error).message });
+    }
+  });
+
+  // Report the lag of every consumer group
+  app.get('/api/kafka/consumer-groups', async (req, res) => {
+    try {
+      res.json(await topicManager.getConsumerGroupLag());
+    } catch (error) {
+      console.error('Error fetching consumer group lag:', error);
+      res.status(500).json({ success: false, message: 'Failed to fetch consumer group lag', error: (error as Error).message });
+    }
+  });
+
+  // Report the lag of a consumer group
+  app.get('/api/kafka/consumer-groups/:groupId', async (req, res) => {
+    try {
+      const [lag] = await topicManager.getConsumerGroupLag(req.params.groupId);
+      res.json(lag);
+    } catch (error) {
+      console.error('Error fetching consumer group lag:', error);
+      res.status(500).json({ success: false, message: 'Failed to fetch consumer group lag', error: (error as Error).message });
+    }
+  });
+
+  // Receive events pushed by partners
+  app.post('/ingest/:source', (req, res) => {
+    const connector = pipelineManager.getWebhookConnector(req.params.source);
+    if (!connector) {
+      res.status(404).json({ success: false, message: `No webhook accepts source ${req.params.source}` });
+      return;
+    }
+    connector.handleRequest(req, res);
+  });
+}
 
 /**
  * Main application class
@@ -77,10 +243,12 @@ class SurgeStreamerApp {
   private locationService: LocationService;
   private streamProcessor: StreamProcessor;
   private pipelineManager: PipelineManager;
+  private kafkaService: KafkaService;
   private predictionService: PredictionService;
   private notificationService: NotificationService;
   private priceLockService: PriceLockService;
   private driverGuidanceService: DriverGuidanceService;
+  private outboxRelay: OutboxRelay | null = null;
   private predictionInterval: NodeJS.Timeout | null = null;
   private driverGuidanceInterval: NodeJS.Timeout | null = null;
   private cleanupInterval: NodeJS.Timeout | null = null;
@@ -90,7 +258,16 @@ class SurgeStreamerApp {
     this.dataService = new DataService();
     this.locationService = new LocationService();
     this.streamProcessor = new StreamProcessor();
-    this.pipelineManager = new PipelineManager();
+    // The pipeline runs the same stream processor the services read
+    this.pipelineManager = new PipelineManager(this.streamProcessor);
+    // Failed topic subscriptions land in the pipeline's dead-letter queue, next to its own failures
+    this.kafkaService = new KafkaService(
+      config.kafka.clientId,
+      config.kafka.brokers,
+      config.kafka.consumerGroup,
+      undefined,
+      this.streamProcessor.getDeadLetterQueue()
+    );
     this.notificationService = new NotificationService();
     this.priceLockService = new PriceLockService(this.dataService);
     this.predictionService = new PredictionService(
@@ -107,6 +284,13 @@ class SurgeStreamerApp {
     );
   }
 
+  /**
+   * Get the pipeline manager
+   */
+  public getPipelineManager(): PipelineManager {
+    return this.pipelineManager;
+  }
+
   /**
    * Initialize the application
    */
@@ -114,19 +298,33 @@ class SurgeStreamerApp {
     try {
       logger.info('Initializing Surge Streamer application');
       
+      // Fail fast if the code schemas are incompatible with the registered ones
+      if (config.kafka.schemaRegistry.enabled) {
+        await schemaRegistry.initialize();
+        logger.info('Schema registry initialized');
+      }
+      
+      // Create missing Kafka topics and fix drifted ones before anything produces to them
+      if (config.kafka.topicBootstrap.enabled) {
+        const topics = await topicManager.reconcile();
+        logger.info(`Kafka topics reconciled: ${topics.filter(topic => topic.action !== 'unchanged').length} of ${topics.length} changed`);
+      }
+      
       // Connect to database
       await this.dataService.connect();
       logger.info('Connected to database');
       
-      // Initialize location service
-      await this.locationService.connect();
-      logger.info('Location service initialized');
+      // Relay messages written to the outbox with their database changes
+      if (config.kafka.outbox.enabled) {
+        this.outboxRelay = new OutboxRelay(this.dataService.outbox);
+        await this.outboxRelay.start();
+      }
       
-      // Initialize stream processor
-      // Note: StreamProcessor doesn't have a connect method, but we'll assume it's initialized in the constructor
-      logger.info('Stream processor initialized');
+      // Initialize location service on the database's client, so it can join the outbox's transactions
+      await this.locationService.connect(this.dataService.getClient());
+      logger.info('Location service initialized');
       
-      // Start pipeline manager
+      // Start pipeline manager, which starts the stream processor
       await this.pipelineManager.start();
       logger.info('Pipeline manager initialized');
       
@@ -174,6 +372,19 @@ class SurgeStreamerApp {
       // Stop the pipeline manager
       await this.pipelineManager.stop();
       
+      await this.kafkaService.disconnect();
+      
+      if (this.outboxRelay) {
+        await this.outboxRelay.stop();
+        this.outboxRelay = null;
+      }
+      
+      if (config.kafka.schemaRegistry.enabled) {
+        await schemaRegistry.close();
+      }
+      
+      await topicManager.disconnect();
+      
       // Clear intervals
       if (this.predictionInterval) {
         clearInterval(this.predictionInterval);
@@ -301,6 +512,9 @@ async function main() {
   try {
     const app = new SurgeStreamerApp();
     
+    // Serve the pipeline the application runs
+    registerRoutes(app.getPipelineManager());
+    
     // Handle shutdown signals
     process.on('SIGINT', async () => {
       logger.info('Received SIGINT signal');
@@ -0,0 +1,102 @@
+import * as h3 from 'h3-js';
+import { Partitioners, PartitionerArgs, ICustomPartitioner } from 'kafkajs';
+import { GeospatialUtils, getParentCell } from '../utils/GeospatialUtils';
+import config from '../config';
+
+/**
+ * Header carrying the H3 cell a message is partitioned by
+ */
+export const PARTITION_CELL_HEADER = 'h3-partition-cell';
+
+/**
+ * Kafka message headers
+ */
+type MessageHeaders = Record<string, string | Buffer>;
+
+/**
+ * Partitions geo messages by the H3 cell of their area
+ *
+ * Producers tag each message whose value has a location with its H3 parent
+ * cell at the partitioning resolution, and the partitioner hashes that cell
+ * instead of the message key. Message keys are unchanged, but every message
+ * about one area lands on the same partition, so the consumer that owns a
+ * partition sees all the data of its areas and can keep per-area state.
+ * Messages without a location are partitioned by their key as usual.
+ */
+export class H3Partitioner {
+  /**
+   * Create a new H3 partitioner
+   * @param resolution H3 resolution of the partitioning cells
+   * @param enabled Whether to partition by H3 cell rather than by key
+   */
+  constructor(
+    private readonly resolution: number = config.kafka.partitioning.h3Resolution,
+    private readonly enabled: boolean = config.kafka.partitioning.strategy === 'h3',
+  ) {}
+
+  /**
+   * Get the cell a message value is partitioned by
+   * @param value Message value before serialization
+   * @returns The H3 parent cell of the value's location, or null if it has none
+   */
+  getPartitionCell(value: any): string | null {
+    if (!value || typeof value !== 'object') {
+      return null;
+    }
+
+    if (typeof value.h3Index === 'string' && h3.isValidCell(value.h3Index)) {
+      return h3.getResolution(value.h3Index) > this.resolution
+        ? getParentCell(value.h3Index, this.resolution)
+        : value.h3Index;
+    }
+
+    const location =
+      this.toLocation(value.latitude, value.longitude) ??
+      this.toLocation(value.location?.latitude, value.location?.longitude) ??
+      this.toLocation(value.pickupLatitude, value.pickupLongitude) ??
+      this.toLocation(value.pickupLocation?.latitude, value.pickupLocation?.longitude);
+
+    return location ? GeospatialUtils.latLngToH3(location[0], location[1], this.resolution) : null;
+  }
+
+  /**
+   * Add the partition cell of a message value to its headers
+   * @param value Message value before serialization
+   * @param headers Message headers (optional)
+   * @returns The headers with the partition cell, or the original headers if the value has no location
+   */
+  withPartitionCell(value: any, headers?: MessageHeaders): MessageHeaders | undefined {
+    const cell = this.enabled ? this.getPartitionCell(value) : null;
+    return cell ? { ...headers, [PARTITION_CELL_HEADER]: cell } : headers;
+  }
+
+  /**
+   * Create a kafkajs partitioner that hashes the partition cell of tagged messages
+   *
+   * Passed as the producer's `createPartitioner` option. Hashing uses the
+   * default partitioner, so areas map to the same partitions as they would for
+   * Java clients keyed by the cell.
+   */
+  createPartitioner: ICustomPartitioner = () => {
+    const partition = Partitioners.DefaultPartitioner();
+
+    return ({ topic, partitionMetadata, message }: PartitionerArgs) => {
+      const cell = this.enabled ? message.headers?.[PARTITION_CELL_HEADER] : undefined;
+      return partition({
+        topic,
+        partitionMetadata,
+        message: cell ? { ...message, key: cell.toString() } : message,
+      });
+    };
+  };
+
+  /**
+   * Convert coordinates to a location if both are numbers
+   * @param latitude Latitude
+   * @param longitude Longitude
+   * @private
+   */
+  private toLocation(latitude: unknown, longitude: unknown): [number, number] | null {
+    return typeof latitude === 'number' && typeof longitude === 'number' ? [latitude, longitude] : null;
+  }
+}
@@ -1,5 +1,7 @@
 import { Kafka, Producer } from 'kafkajs';
 import { Logger } from '../utils/Logger';
+import { MessageSerializer } from '../utils/MessageSerializer';
+import { H3Partitioner } from './H3Partitioner';
 import config from '../config';
 
 /**
@@ -8,6 +10,8 @@ import config from '../config';
 export class KafkaProducer {
   private producer: Producer;
   private logger: Logger;
+  private serializer: MessageSerializer;
+  private partitioner: H3Partitioner;
   private isConnected: boolean = false;
 
   /**
@@ -21,7 +25,9 @@ export class KafkaProducer {
       brokers: config.kafka.brokers
     });
     
-    this.producer = kafka.producer();
+    this.partitioner = new H3Partitioner();
+    this.producer = kafka.producer({ createPartitioner: this.partitioner.createPartitioner });
+    this.serializer = new MessageSerializer();
   }
 
   /**
@@ -58,12 +64,13 @@ export class KafkaProducer {
   }
 
   /**
-   * Send a message to a Kafka topic
+   * Send a message to a Kafka topic, serialized in the topic's wire format and
+   * partitioned by the area of its value's location if it has one
    * @param topic Topic name
    * @param key Message key
    * @param value Message value
    */
-  public async sendMessage(topic: string, key: string, value: string): Promise<void> {
+  public async sendMessage(topic: string, key: string, value: any): Promise<void> {
     try {
       await this.ensureConnected();
       
@@ -72,7 +79,8 @@ export class KafkaProducer {
         messages: [
           {
             key,
-            value
+            value: this.serializer.serialize(topic, value),
+            headers: this.partitioner.withPartitionCell(value)
           }
         ]
       });
@@ -0,0 +1,306 @@
+import { Collection, ClientSession } from 'mongodb';
+import { Kafka, Producer } from 'kafkajs';
+import { Logger } from '../utils/Logger';
+import { MessageSerializer } from '../utils/MessageSerializer';
+import { H3Partitioner } from './H3Partitioner';
+import config from '../config';
+
+/**
+ * Header carrying the outbox ID of a relayed message, for consumers to deduplicate on
+ */
+export const OUTBOX_ID_HEADER = 'outbox-id';
+
+/**
+ * Message waiting in the outbox to be published
+ */
+export interface OutboxMessage {
+  // Deterministic ID, so writing the same message again is a no-op
+  _id: string;
+  topic: string;
+  key: string;
+  value: any;
+  status: 'pending' | 'published' | 'failed';
+  createdAt: Date;
+  publishedAt: Date | null;
+  error?: string;
+}
+
+/**
+ * Outbox relay options
+ */
+export interface OutboxRelayOptions {
+  pollIntervalMs: number;
+  batchSize: number;
+  retentionHours: number;
+  transactional: boolean;
+  transactionalId: string;
+}
+
+/**
+ * MongoDB collection of messages to publish to Kafka
+ *
+ * Messages are written in the same MongoDB transaction as the changes they
+ * announce, so they are published if and only if those changes are persisted.
+ */
+export class Outbox {
+  /**
+   * Create a new outbox
+   * @param collection Outbox collection
+   */
+  constructor(private readonly collection: Collection<OutboxMessage>) {}
+
+  /**
+   * Create the indexes used to poll and expire messages
+   * @param retentionHours How long published messages are kept
+   */
+  async ensureIndexes(retentionHours: number): Promise<void> {
+    await this.collection.createIndex({ status: 1, createdAt: 1 });
+    await this.collection.createIndex({ publishedAt: 1 }, { expireAfterSeconds: retentionHours * 60 * 60 });
+  }
+
+  /**
+   * Add messages to the outbox
+   *
+   * Messages whose ID is already in the outbox are left as they are, so
+   * replaying a write does not publish its messages twice.
+   * @param messages Messages, identified by a deterministic ID
+   * @param session Session of the transaction the messages belong to
+   */
+  async add(messages: { id: string; topic: string; key: string; value: any }[], session?: ClientSession): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    const createdAt = new Date();
+    await this.collection.bulkWrite(messages.map(message => ({
+      updateOne: {
+        filter: { _id: message.id },
+        update: {
+          $setOnInsert: {
+            topic: message.topic,
+            key: message.key,
+            value: message.value,
+            status: 'pending',
+            createdAt,
+            publishedAt: null,
+          },
+        },
+        upsert: true,
+      },
+    })), { session, ordered: true });
+  }
+
+  /**
+   * Get the oldest pending messages
+   * @param limit Maximum number of messages
+   */
+  async getPending(limit: number): Promise<OutboxMessage[]> {
+    return this.collection.find({ status: 'pending' }).sort({ createdAt: 1, _id: 1 }).limit(limit).toArray();
+  }
+
+  /**
+   * Mark messages as published
+   * @param ids Message IDs
+   */
+  async markPublished(ids: string[]): Promise<void> {
+    await this.collection.updateMany({ _id: { $in: ids } }, { $set: { status: 'published', publishedAt: new Date() } });
+  }
+
+  /**
+   * Mark a message that can never be published as failed
+   * @param id Message ID
+   * @param error Why the message cannot be published
+   */
+  async markFailed(id: string, error: Error): Promise<void> {
+    await this.collection.updateOne({ _id: id }, { $set: { status: 'failed', error: error.message } });
+  }
+}
+
+/**
+ * Publishes outbox messages to Kafka in the order they were written
+ *
+ * Each batch is published in one Kafka transaction, so read-committed
+ * consumers see all of it or none of it, and marked as published once the
+ * transaction commits. A crash between the commit and the mark publishes the
+ * batch again on restart; messages carry their outbox ID in the `outbox-id`
+ * header so consumers can drop the repeat.
+ */
+export class OutboxRelay {
+  private logger: Logger;
+  private producer: Producer;
+  private serializer: MessageSerializer;
+  private partitioner: H3Partitioner;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private draining: Promise<void> | null = null;
+
+  /**
+   * Create a new outbox relay
+   * @param outbox Outbox to publish
+   * @param options Relay options
+   */
+  constructor(
+    private readonly outbox: Outbox,
+    private readonly options: OutboxRelayOptions = {
+      ...config.kafka.outbox,
+      transactional: config.kafka.transactions.enabled,
+      transactionalId: `${config.kafka.transactions.transactionalIdPrefix}-outbox-relay`,
+    }
+  ) {
+    this.logger = new Logger('OutboxRelay');
+    this.serializer = new MessageSerializer();
+    this.partitioner = new H3Partitioner();
+
+    const kafka = new Kafka({
+      clientId: config.kafka.clientId,
+      brokers: config.kafka.brokers,
+    });
+
+    this.producer = kafka.producer({
+      createPartitioner: this.partitioner.createPartitioner,
+      ...(options.transactional && {
+        transactionalId: options.transactionalId,
+        idempotent: true,
+        maxInFlightRequests: 1,
+      }),
+    });
+  }
+
+  /**
+   * Connect the producer and start polling the outbox
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    await this.outbox.ensureIndexes(this.options.retentionHours);
+    await this.producer.connect();
+    this.running = true;
+    this.scheduleDrain(0);
+    this.logger.info('Outbox relay started');
+  }
+
+  /**
+   * Stop polling, wait for the batch in flight and disconnect the producer
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    await this.draining?.catch(() => undefined);
+    await this.producer.disconnect();
+    this.logger.info('Outbox relay stopped');
+  }
+
+  /**
+   * Publish pending messages until the outbox is empty
+   * @private
+   */
+  private async drain(): Promise<void> {
+    if (!this.draining) {
+      this.draining = this.publishPending().finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
+
+  /**
+   * Schedule the next drain
+   * @param delayMs Delay in milliseconds
+   * @private
+   */
+  private scheduleDrain(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.drain();
+      } catch (error) {
+        this.logger.error('Failed to relay outbox messages:', error);
+      }
+
+      if (this.running) {
+        this.scheduleDrain(this.options.pollIntervalMs);
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Publish batches of pending messages until none are left
+   * @private
+   */
+  private async publishPending(): Promise<void> {
+    while (this.running) {
+      const pending = await this.outbox.getPending(this.options.batchSize);
+      if (pending.length === 0) {
+        return;
+      }
+
+      const records = new Map<string, { key: string; value: string | Buffer; headers?: Record<string, string | Buffer> }[]>();
+      const ids: string[] = [];
+
+      for (const message of pending) {
+        let value: string | Buffer;
+        try {
+          value = this.serializer.serialize(message.topic, message.value);
+        } catch (error) {
+          // Retrying would fail the same way and hold up every message behind it
+          this.logger.error(`Outbox message ${message._id} cannot be serialized:`, error);
+          await this.outbox.markFailed(message._id, error as Error);
+          continue;
+        }
+
+        const messages = records.get(message.topic) || [];
+        messages.push({
+          key: message.key,
+          value,
+          headers: this.partitioner.withPartitionCell(message.value, { [OUTBOX_ID_HEADER]: message._id }),
+        });
+        records.set(message.topic, messages);
+        ids.push(message._id);
+      }
+
+      if (ids.length === 0) {
+        continue;
+      }
+
+      await this.publish(records);
+      await this.outbox.markPublished(ids);
+      this.logger.debug(`Relayed ${ids.length} outbox messages`);
+    }
+  }
+
+  /**
+   * Publish a batch of messages, in a transaction if the relay is transactional
+   * @param records Messages per topic
+   * @private
+   */
+  private async publish(records: Map<string, { key: string; value: string | Buffer; headers?: Record<string, string | Buffer> }[]>): Promise<void> {
+    if (!this.options.transactional) {
+      for (const [topic, messages] of records.entries()) {
+        await this.producer.send({ topic, messages });
+      }
+      return;
+    }
+
+    const transaction = await this.producer.transaction();
+    try {
+      for (const [topic, messages] of records.entries()) {
+        await transaction.send({ topic, messages });
+      }
+      await transaction.commit();
+    } catch (error) {
+      if (transaction.isActive()) {
+        await transaction.abort();
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,395 @@
+import { Kafka, Admin, ConfigEntry, ConfigResourceTypes, ConfigSource, PartitionMetadata } from 'kafkajs';
+import { Logger } from '../utils/Logger';
+import config from '../config';
+
+/**
+ * Desired partitions, replication factor and configs of a topic
+ */
+export interface TopicSpec {
+  partitions: number;
+  replicationFactor: number;
+  configs: Record<string, string>;
+}
+
+/**
+ * Outcome of reconciling a topic with its spec
+ */
+export interface TopicReconciliation {
+  topic: string;
+  action: 'created' | 'updated' | 'unchanged';
+  changes: string[];
+  // Drift that cannot be fixed automatically, such as fewer partitions or another replication factor
+  warnings: string[];
+}
+
+/**
+ * State of a topic partition
+ */
+export interface PartitionDescription {
+  partition: number;
+  leader: number;
+  replicas: number[];
+  isr: number[];
+  lowOffset: string;
+  highOffset: string;
+}
+
+/**
+ * State of a topic and how it differs from its spec
+ */
+export interface TopicDescription {
+  topic: string;
+  exists: boolean;
+  spec?: TopicSpec;
+  partitions: PartitionDescription[];
+  // Configs set on the topic rather than inherited from the broker
+  configs: Record<string, string>;
+  drift: string[];
+}
+
+/**
+ * Lag of a consumer group on a partition
+ */
+export interface PartitionLag {
+  partition: number;
+  // -1 if the group has not committed an offset
+  committedOffset: string;
+  highOffset: string;
+  lag: number;
+}
+
+/**
+ * Lag of a consumer group per topic
+ */
+export interface ConsumerGroupLag {
+  groupId: string;
+  totalLag: number;
+  topics: { topic: string; lag: number; partitions: PartitionLag[] }[];
+}
+
+/**
+ * Reconciles the Kafka topics with their declarative specs and reports their state
+ *
+ * Missing topics are created, and existing ones get partitions added and
+ * configs altered to match their spec. Partitions cannot be removed and the
+ * replication factor cannot be changed without a reassignment, so those are
+ * reported as warnings instead.
+ */
+export class TopicManager {
+  private logger: Logger;
+  private kafka: Kafka;
+  private admin: Admin | null = null;
+
+  /**
+   * Create a new topic manager
+   * @param topics Topic names by key
+   * @param specs Topic specs by key
+   */
+  constructor(
+    private readonly topics: Record<string, string> = config.kafka.topics,
+    private readonly specs: Record<string, TopicSpec> = config.kafka.topicSpecs,
+  ) {
+    this.logger = new Logger('TopicManager');
+    this.kafka = new Kafka({
+      clientId: `${config.kafka.clientId}-admin`,
+      brokers: config.kafka.brokers,
+    });
+  }
+
+  /**
+   * Disconnect the admin client
+   */
+  public async disconnect(): Promise<void> {
+    if (this.admin) {
+      await this.admin.disconnect();
+      this.admin = null;
+    }
+  }
+
+  /**
+   * Get the spec of each topic by topic name
+   */
+  public getTopicSpecs(): Map<string, TopicSpec> {
+    const specs = new Map<string, TopicSpec>();
+    for (const [key, topic] of Object.entries(this.topics)) {
+      if (this.specs[key]) {
+        specs.set(topic, this.specs[key]);
+      }
+    }
+    return specs;
+  }
+
+  /**
+   * Create missing topics and fix the partitions and configs of existing ones
+   * @returns The outcome for each topic with a spec
+   */
+  public async reconcile(): Promise<TopicReconciliation[]> {
+    const admin = await this.getAdmin();
+    const specs = this.getTopicSpecs();
+    const existing = new Set(await admin.listTopics());
+    const missing = Array.from(specs.keys()).filter(topic => !existing.has(topic));
+    const results: TopicReconciliation[] = [];
+
+    if (missing.length > 0) {
+      await admin.createTopics({
+        waitForLeaders: true,
+        topics: missing.map(topic => {
+          const spec = specs.get(topic)!;
+          return {
+            topic,
+            numPartitions: spec.partitions,
+            replicationFactor: spec.replicationFactor,
+            configEntries: Object.entries(spec.configs).map(([name, value]) => ({ name, value })),
+          };
+        }),
+      });
+
+      for (const topic of missing) {
+        const spec = specs.get(topic)!;
+        results.push({ topic, action: 'created', changes: [`created with ${spec.partitions} partitions`], warnings: [] });
+        this.logger.info(`Created Kafka topic ${topic}`);
+      }
+    }
+
+    const present = Array.from(specs.keys()).filter(topic => existing.has(topic));
+    const partitions = await this.fetchPartitions(present);
+    const configs = await this.fetchConfigs(present);
+
+    for (const topic of present) {
+      results.push(await this.reconcileTopic(topic, specs.get(topic)!, partitions.get(topic) || [], configs.get(topic) || []));
+    }
+
+    return results;
+  }
+
+  /**
+   * Describe every topic with a spec
+   */
+  public async describeTopics(): Promise<TopicDescription[]> {
+    return Promise.all(Array.from(this.getTopicSpecs().keys()).map(topic => this.describeTopic(topic)));
+  }
+
+  /**
+   * Describe a topic's partitions and configs
+   * @param topic Topic name
+   */
+  public async describeTopic(topic: string): Promise<TopicDescription> {
+    const admin = await this.getAdmin();
+    const spec = this.getTopicSpecs().get(topic);
+
+    if (!(await admin.listTopics()).includes(topic)) {
+      return { topic, exists: false, spec, partitions: [], configs: {}, drift: spec ? ['topic does not exist'] : [] };
+    }
+
+    const [metadata, offsets, configEntries] = await Promise.all([
+      this.fetchPartitions([topic]).then(partitions => partitions.get(topic) || []),
+      admin.fetchTopicOffsets(topic),
+      this.fetchConfigs([topic]).then(configs => configs.get(topic) || []),
+    ]);
+
+    const offsetsByPartition = new Map(offsets.map(offset => [offset.partition, offset]));
+    const configs = this.getTopicConfigs(configEntries);
+
+    return {
+      topic,
+      exists: true,
+      spec,
+      partitions: metadata
+        .map(partition => ({
+          partition: partition.partitionId,
+          leader: partition.leader,
+          replicas: partition.replicas,
+          isr: partition.isr,
+          lowOffset: offsetsByPartition.get(partition.partitionId)?.low ?? '0',
+          highOffset: offsetsByPartition.get(partition.partitionId)?.high ?? '0',
+        }))
+        .sort((a, b) => a.partition - b.partition),
+      configs,
+      drift: spec ? this.getDrift(spec, metadata, configEntries) : [],
+    };
+  }
+
+  /**
+   * Get the lag of consumer groups on the topics they have committed offsets for
+   * @param groupId Consumer group; every consumer group if omitted
+   */
+  public async getConsumerGroupLag(groupId?: string): Promise<ConsumerGroupLag[]> {
+    const admin = await this.getAdmin();
+    const groupIds = groupId
+      ? [groupId]
+      : (await admin.listGroups()).groups.filter(group => group.protocolType === 'consumer').map(group => group.groupId);
+
+    // Topics are shared between groups, so fetch their offsets once
+    const topicOffsets = new Map<string, Promise<{ partition: number; high: string; low: string }[]>>();
+    const getTopicOffsets = (topic: string) => {
+      if (!topicOffsets.has(topic)) {
+        topicOffsets.set(topic, admin.fetchTopicOffsets(topic));
+      }
+      return topicOffsets.get(topic)!;
+    };
+
+    return Promise.all(groupIds.map(async id => {
+      const committed = await admin.fetchOffsets({ groupId: id });
+      const topics = await Promise.all(committed.map(async ({ topic, partitions }) => {
+        const offsets = new Map((await getTopicOffsets(topic)).map(offset => [offset.partition, offset]));
+
+        const partitionLag = partitions.map(({ partition, offset }) => {
+          const high = offsets.get(partition)?.high ?? '0';
+          // Without a committed offset, everything still retained is unconsumed
+          const from = offset === '-1' ? offsets.get(partition)?.low ?? '0' : offset;
+          return {
+            partition,
+            committedOffset: offset,
+            highOffset: high,
+            lag: Math.max(0, Number(BigInt(high) - BigInt(from))),
+          };
+        }).sort((a, b) => a.partition - b.partition);
+
+        return { topic, lag: partitionLag.reduce((sum, partition) => sum + partition.lag, 0), partitions: partitionLag };
+      }));
+
+      return { groupId: id, totalLag: topics.reduce((sum, topic) => sum + topic.lag, 0), topics };
+    }));
+  }
+
+  /**
+   * Reconcile an existing topic with its spec
+   * @param topic Topic name
+   * @param spec Topic spec
+   * @param partitions Partition metadata of the topic
+   * @param configEntries Configs of the topic
+   * @private
+   */
+  private async reconcileTopic(
+    topic: string,
+    spec: TopicSpec,
+    partitions: PartitionMetadata[],
+    configEntries: ConfigEntry[]
+  ): Promise<TopicReconciliation> {
+    const admin = await this.getAdmin();
+    const changes: string[] = [];
+    const warnings: string[] = [];
+
+    if (partitions.length < spec.partitions) {
+      await admin.createPartitions({ topicPartitions: [{ topic, count: spec.partitions }] });
+      changes.push(`partitions increased from ${partitions.length} to ${spec.partitions}`);
+    } else if (partitions.length > spec.partitions) {
+      warnings.push(`has ${partitions.length} partitions, more than the ${spec.partitions} in its spec`);
+    }
+
+    const replicationFactor = partitions[0]?.replicas.length;
+    if (replicationFactor !== undefined && replicationFactor !== spec.replicationFactor) {
+      warnings.push(`has replication factor ${replicationFactor} instead of ${spec.replicationFactor}`);
+    }
+
+    const topicConfigs = this.getTopicConfigs(configEntries);
+    const current = new Map(configEntries.map(entry => [entry.configName, entry.configValue]));
+    const drifted = Object.entries(spec.configs).filter(([name, value]) => current.get(name) !== value);
+
+    if (drifted.length > 0) {
+      // alterConfigs replaces every config set on the topic, so keep the ones outside the spec
+      await admin.alterConfigs({
+        validateOnly: false,
+        resources: [{
+          type: ConfigResourceTypes.TOPIC,
+          name: topic,
+          configEntries: Object.entries({ ...topicConfigs, ...spec.configs }).map(([name, value]) => ({ name, value })),
+        }],
+      });
+      changes.push(...drifted.map(([name, value]) => `${name} changed from ${current.get(name) ?? 'unset'} to ${value}`));
+    }
+
+    for (const warning of warnings) {
+      this.logger.warn(`Kafka topic ${topic} ${warning}`);
+    }
+    if (changes.length > 0) {
+      this.logger.info(`Reconciled Kafka topic ${topic}: ${changes.join(', ')}`);
+    }
+
+    return { topic, action: changes.length > 0 ? 'updated' : 'unchanged', changes, warnings };
+  }
+
+  /**
+   * Get how a topic differs from its spec
+   * @param spec Topic spec
+   * @param partitions Partition metadata of the topic
+   * @param configEntries Configs of the topic
+   * @private
+   */
+  private getDrift(spec: TopicSpec, partitions: PartitionMetadata[], configEntries: ConfigEntry[]): string[] {
+    const drift: string[] = [];
+
+    if (partitions.length !== spec.partitions) {
+      drift.push(`partitions: ${partitions.length}, spec: ${spec.partitions}`);
+    }
+
+    const replicationFactor = partitions[0]?.replicas.length;
+    if (replicationFactor !== undefined && replicationFactor !== spec.replicationFactor) {
+      drift.push(`replication factor: ${replicationFactor}, spec: ${spec.replicationFactor}`);
+    }
+
+    const current = new Map(configEntries.map(entry => [entry.configName, entry.configValue]));
+    for (const [name, value] of Object.entries(spec.configs)) {
+      if (current.get(name) !== value) {
+        drift.push(`${name}: ${current.get(name) ?? 'unset'}, spec: ${value}`);
+      }
+    }
+
+    return drift;
+  }
+
+  /**
+   * Get the configs set on a topic rather than inherited from the broker
+   * @param configEntries Configs of the topic
+   * @private
+   */
+  private getTopicConfigs(configEntries: ConfigEntry[]): Record<string, string> {
+    return Object.fromEntries(configEntries
+      .filter(entry => entry.configSource === ConfigSource.TOPIC_CONFIG && !entry.isSensitive)
+      .map(entry => [entry.configName, entry.configValue]));
+  }
+
+  /**
+   * Fetch the partition metadata of topics
+   * @param topics Topic names
+   * @private
+   */
+  private async fetchPartitions(topics: string[]): Promise<Map<string, PartitionMetadata[]>> {
+    if (topics.length === 0) {
+      return new Map();
+    }
+
+    const metadata = await (await this.getAdmin()).fetchTopicMetadata({ topics });
+    return new Map(metadata.topics.map(topic => [topic.name, topic.partitions]));
+  }
+
+  /**
+   * Fetch the configs of topics
+   * @param topics Topic names
+   * @private
+   */
+  private async fetchConfigs(topics: string[]): Promise<Map<string, ConfigEntry[]>> {
+    if (topics.length === 0) {
+      return new Map();
+    }
+
+    const response = await (await this.getAdmin()).describeConfigs({
+      includeSynonyms: false,
+      resources: topics.map(topic => ({ type: ConfigResourceTypes.TOPIC, name: topic })),
+    });
+    return new Map(response.resources.map(resource => [resource.resourceName, resource.configEntries]));
+  }
+
+  /**
+   * Get the admin client, connecting it on first use
+   * @private
+   */
+  private async getAdmin(): Promise<Admin> {
+    if (!this.admin) {
+      const admin = this.kafka.admin();
+      await admin.connect();
+      this.admin = admin;
+    }
+    return this.admin;
+  }
+}
@@ -0,0 +1,101 @@
+import { Kafka, EachBatchPayload } from 'kafkajs';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+
+/**
+ * Message read from a topic
+ */
+export type TopicMessage = EachBatchPayload['batch']['messages'][number];
+
+/**
+ * Reads a topic from its earliest retained offset up to its end
+ *
+ * Each read uses a consumer group of its own that never commits, so several
+ * instances can read the same topic in full without splitting its partitions.
+ * The end of each partition is its high watermark when the read starts;
+ * messages produced after that are not read.
+ */
+export class TopicReader {
+  /**
+   * Create a new topic reader
+   * @param kafka Kafka client
+   * @param timeoutMs How long a read may take before it fails
+   */
+  constructor(
+    private readonly kafka: Kafka,
+    private readonly timeoutMs: number = 30000
+  ) {}
+
+  /**
+   * Read every message of a topic, in order per partition
+   * @param topic Topic to read
+   * @returns The messages read
+   */
+  async readAll(topic: string): Promise<TopicMessage[]> {
+    const lastOffsets = await this.getLastOffsets(topic);
+    if (lastOffsets.size === 0) {
+      return [];
+    }
+
+    const messages: TopicMessage[] = [];
+    const consumer = this.kafka.consumer({ groupId: `${config.kafka.consumerGroup}-${topic}-reader-${uuidv4()}` });
+    let timeout: NodeJS.Timeout | undefined;
+
+    try {
+      await consumer.connect();
+      await consumer.subscribe({ topic, fromBeginning: true });
+
+      await new Promise<void>((resolve, reject) => {
+        timeout = setTimeout(() => reject(new Error(`Reading topic ${topic} timed out after ${this.timeoutMs}ms`)), this.timeoutMs);
+
+        consumer.run({
+          autoCommit: false,
+          eachBatch: async ({ batch }: EachBatchPayload) => {
+            const lastOffset = lastOffsets.get(batch.partition);
+            if (lastOffset === undefined) {
+              return;
+            }
+
+            messages.push(...batch.messages.filter(message => BigInt(message.offset) <= lastOffset));
+
+            // The batch's last offset counts the transaction markers that are not delivered as messages
+            if (BigInt(batch.lastOffset()) >= lastOffset) {
+              lastOffsets.delete(batch.partition);
+              if (lastOffsets.size === 0) {
+                resolve();
+              }
+            }
+          },
+        }).catch(reject);
+      });
+    } finally {
+      clearTimeout(timeout);
+      await consumer.disconnect();
+    }
+
+    return messages;
+  }
+
+  /**
+   * Get the offset of the last message of each non-empty partition
+   * @param topic Topic
+   * @private
+   */
+  private async getLastOffsets(topic: string): Promise<Map<number, bigint>> {
+    const admin = this.kafka.admin();
+    const lastOffsets = new Map<number, bigint>();
+
+    try {
+      await admin.connect();
+      for (const { partition, high, low } of await admin.fetchTopicOffsets(topic)) {
+        if (BigInt(high) > BigInt(low)) {
+          lastOffsets.set(partition, BigInt(high) - BigInt(1));
+        }
+      }
+    } finally {
+      await admin.disconnect();
+    }
+
+    return lastOffsets;
+  }
+}
@@ -1,4 +1,6 @@
-import { GeoPoint, DemandSupplyData } from '../types';
+import { GeoPoint, DemandSupplyData, GridDemandSupplyData } from '../types';
+import { DemandWindow } from '../schemas/DataModels';
+import { getDemandForWindow } from '../pipeline/DemandTracker';
 import { fetchAllExternalData } from '../services/externalData';
 import { Logger } from '../utils/Logger';
 import * as GeospatialUtils from '../utils/GeospatialUtils';
@@ -8,11 +10,13 @@ const logger = new Logger('FeatureEngineering');
 
 /**
  * Generate features for prediction
+ * @param demandWindow Demand window to use when aggregated demand metrics are available
  */
 export const generateFeatures = async (
   location: GeoPoint,
-  demandSupply: DemandSupplyData,
-  historicalData?: any[]
+  demandSupply: DemandSupplyData | GridDemandSupplyData,
+  historicalData?: any[],
+  demandWindow?: DemandWindow
 ): Promise<number[]> => {
   logger.info(`Generating features for location (${location.latitude}, ${location.longitude})`);
   
@@ -44,8 +48,10 @@ export const generateFeatures = async (
   const eventImpact = calculateEventImpact(externalData.eventData);
   
   // Calculate demand and supply metrics
-  const demandCount = demandSupply.demand.length;
-  const supplyCount = demandSupply.supply.filter(d => d.status === 'available').length;
+  const demandCount = getDemandCount(demandSupply, demandWindow);
+  const supplyCount = typeof demandSupply.supply === 'number'
+    ? demandSupply.supply
+    : demandSupply.supply.filter(d => d.status === 'available').length;
   const demandSupplyRatio = supplyCount > 0 ? demandCount / supplyCount : demandCount;
   
   // Calculate historical metrics if available
@@ -93,6 +99,21 @@ export const generateFeatures = async (
   return featureVector;
 };
 
+/**
+ * Get the demand count from raw ride requests or aggregated grid cell demand
+ */
+const getDemandCount = (
+  demandSupply: DemandSupplyData | GridDemandSupplyData,
+  demandWindow?: DemandWindow
+): number => {
+  if (typeof demandSupply.demand !== 'number') {
+    return demandSupply.demand.length;
+  }
+  
+  const { demandMetrics } = demandSupply as GridDemandSupplyData;
+  return demandMetrics && demandWindow ? getDemandForWindow(demandMetrics, demandWindow) : demandSupply.demand;
+};
+
 /**
  * Check if a date is a public holiday (simplified)
  */
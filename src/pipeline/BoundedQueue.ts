@@ -0,0 +1,152 @@
+/**
+ * What to do when an item is offered to a full queue
+ * - drop-oldest: evict the oldest queued item to make room
+ * - drop-newest: reject the offered item
+ * - dead-letter: reject the offered item and hand it to the overflow handler
+ */
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'dead-letter';
+
+/**
+ * Queue depth and throughput metrics
+ */
+export interface QueueMetrics {
+  depth: number;
+  capacity: number;
+  highWaterMark: number;
+  enqueued: number;
+  dequeued: number;
+  dropped: number;
+  overflowPolicy: OverflowPolicy;
+}
+
+/**
+ * Fixed-capacity FIFO queue with an overflow policy
+ *
+ * Backed by a ring buffer so memory stays bounded by the capacity no matter
+ * how fast producers push.
+ */
+export class BoundedQueue<T> {
+  private buffer: (T | undefined)[];
+  private head = 0;
+  private length = 0;
+  private metrics: QueueMetrics;
+
+  /**
+   * Create a new bounded queue
+   * @param capacity Maximum number of queued items
+   * @param overflowPolicy Policy applied when the queue is full
+   * @param onOverflow Called with items rejected under the dead-letter policy (optional)
+   * @param onDrop Called with every item evicted or rejected, whatever the policy (optional)
+   */
+  constructor(
+    private readonly capacity: number,
+    private readonly overflowPolicy: OverflowPolicy = 'drop-oldest',
+    private readonly onOverflow?: (item: T) => void,
+    private readonly onDrop?: (item: T) => void
+  ) {
+    if (capacity <= 0) {
+      throw new Error('Queue capacity must be positive');
+    }
+
+    this.buffer = new Array(capacity);
+    this.metrics = {
+      depth: 0,
+      capacity,
+      highWaterMark: 0,
+      enqueued: 0,
+      dequeued: 0,
+      dropped: 0,
+      overflowPolicy,
+    };
+  }
+
+  /**
+   * Offer an item to the queue
+   * @param item Item to enqueue
+   * @returns True if the item was queued
+   */
+  offer(item: T): boolean {
+    if (this.length === this.capacity) {
+      this.metrics.dropped++;
+
+      if (this.overflowPolicy === 'drop-oldest') {
+        const evicted = this.removeHead() as T;
+        this.onDrop?.(evicted);
+      } else {
+        if (this.overflowPolicy === 'dead-letter' && this.onOverflow) {
+          this.onOverflow(item);
+        }
+        this.onDrop?.(item);
+        return false;
+      }
+    }
+
+    this.buffer[(this.head + this.length) % this.capacity] = item;
+    this.length++;
+    this.metrics.enqueued++;
+    this.metrics.highWaterMark = Math.max(this.metrics.highWaterMark, this.length);
+
+    return true;
+  }
+
+  /**
+   * Remove and return the oldest item
+   * @returns The oldest item, or undefined if the queue is empty
+   */
+  poll(): T | undefined {
+    if (this.length === 0) {
+      return undefined;
+    }
+
+    this.metrics.dequeued++;
+    return this.removeHead();
+  }
+
+  /**
+   * Remove and return up to `max` of the oldest items
+   * @param max Maximum number of items
+   */
+  pollBatch(max: number): T[] {
+    const items: T[] = [];
+
+    while (items.length < max && this.length > 0) {
+      items.push(this.poll() as T);
+    }
+
+    return items;
+  }
+
+  /**
+   * Get the number of queued items
+   */
+  size(): number {
+    return this.length;
+  }
+
+  /**
+   * Check whether the queue is empty
+   */
+  isEmpty(): boolean {
+    return this.length === 0;
+  }
+
+  /**
+   * Get queue metrics
+   */
+  getMetrics(): QueueMetrics {
+    return { ...this.metrics, depth: this.length };
+  }
+
+  /**
+   * Remove the oldest item without counting it as dequeued
+   * @private
+   */
+  private removeHead(): T | undefined {
+    const item = this.buffer[this.head];
+    this.buffer[this.head] = undefined;
+    this.head = (this.head + 1) % this.capacity;
+    this.length--;
+
+    return item;
+  }
+}
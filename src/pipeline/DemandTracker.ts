@@ -0,0 +1,164 @@
+import { DemandMetrics, DemandWindow } from '../schemas/DataModels';
+
+/**
+ * Demand tracker options
+ */
+export interface DemandTrackerOptions {
+  bucketMs: number;
+  halfLifeMs: number;
+}
+
+/**
+ * Length of each sliding count window
+ */
+export const DEMAND_WINDOWS_MS: Record<Exclude<DemandWindow, 'ewma'>, number> = {
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '60m': 60 * 60 * 1000,
+};
+
+/**
+ * How long buckets are kept, i.e. the longest window
+ */
+const RETENTION_MS = DEMAND_WINDOWS_MS['60m'];
+
+/**
+ * Pick the demand value for a window
+ * @param metrics Demand metrics
+ * @param window Demand window
+ * @returns Count over the window, or the EWMA rate per minute
+ */
+export function getDemandForWindow(metrics: DemandMetrics, window: DemandWindow): number {
+  switch (window) {
+    case '5m':
+      return metrics.last5m;
+    case '15m':
+      return metrics.last15m;
+    case '60m':
+      return metrics.last60m;
+    case 'ewma':
+      return metrics.ewmaRatePerMinute;
+  }
+}
+
+/**
+ * Tracks time-decayed ride request demand per grid cell
+ *
+ * Requests are counted in fixed event-time buckets, so sliding counts over
+ * the last 5, 15 and 60 minutes and an exponentially weighted rate can be
+ * computed as of any time regardless of the order requests arrived in.
+ * Buckets older than the longest window are expired.
+ */
+export class DemandTracker {
+  private cells = new Map<string, Map<number, number>>();
+  private decayRate: number;
+
+  /**
+   * Create a new demand tracker
+   * @param options Tracker options
+   */
+  constructor(private readonly options: DemandTrackerOptions) {
+    this.decayRate = Math.LN2 / options.halfLifeMs;
+  }
+
+  /**
+   * Record a ride request
+   * @param h3Index H3 index of the request
+   * @param eventTime Event time in milliseconds
+   */
+  record(h3Index: string, eventTime: number): void {
+    let buckets = this.cells.get(h3Index);
+    if (!buckets) {
+      buckets = new Map();
+      this.cells.set(h3Index, buckets);
+    }
+
+    const bucketStart = Math.floor(eventTime / this.options.bucketMs) * this.options.bucketMs;
+    buckets.set(bucketStart, (buckets.get(bucketStart) || 0) + 1);
+  }
+
+  /**
+   * Get demand metrics for a grid cell
+   * @param h3Index H3 index
+   * @param asOf Reference time in milliseconds
+   * @returns Sliding counts and the decayed rate as of the reference time
+   */
+  getDemand(h3Index: string, asOf: number): DemandMetrics {
+    const metrics: DemandMetrics = { last5m: 0, last15m: 0, last60m: 0, ewmaRatePerMinute: 0 };
+    const buckets = this.cells.get(h3Index);
+
+    if (!buckets) {
+      return metrics;
+    }
+
+    let decayedCount = 0;
+
+    for (const [bucketStart, count] of buckets.entries()) {
+      if (bucketStart >= asOf) {
+        continue;
+      }
+
+      const age = asOf - bucketStart;
+
+      if (age <= DEMAND_WINDOWS_MS['5m']) {
+        metrics.last5m += count;
+      }
+      if (age <= DEMAND_WINDOWS_MS['15m']) {
+        metrics.last15m += count;
+      }
+      if (age <= DEMAND_WINDOWS_MS['60m']) {
+        metrics.last60m += count;
+      }
+
+      // Weight each bucket by its midpoint's age
+      const midpointAge = Math.max(0, age - this.options.bucketMs / 2);
+      decayedCount += count * Math.exp(-this.decayRate * midpointAge);
+    }
+
+    // A steady rate of r requests per ms yields a decayed count of r / decayRate
+    metrics.ewmaRatePerMinute = decayedCount * this.decayRate * 60 * 1000;
+
+    return metrics;
+  }
+
+  /**
+   * Remove buckets older than the longest window
+   * @param asOf Reference time in milliseconds
+   */
+  expire(asOf: number): void {
+    for (const [h3Index, buckets] of this.cells.entries()) {
+      for (const bucketStart of buckets.keys()) {
+        if (asOf - bucketStart > RETENTION_MS) {
+          buckets.delete(bucketStart);
+        }
+      }
+
+      if (buckets.size === 0) {
+        this.cells.delete(h3Index);
+      }
+    }
+  }
+
+  /**
+   * Capture bucket counts per cell for checkpointing
+   */
+  snapshot(): Record<string, [number, number][]> {
+    const snapshot: Record<string, [number, number][]> = {};
+
+    for (const [h3Index, buckets] of this.cells.entries()) {
+      snapshot[h3Index] = Array.from(buckets.entries());
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Restore bucket counts from a checkpoint
+   * @param snapshot Bucket counts per cell
+   */
+  restore(snapshot: Record<string, [number, number][]>): void {
+    for (const [h3Index, buckets] of Object.entries(snapshot)) {
+      this.cells.set(h3Index, new Map(buckets));
+    }
+  }
+}
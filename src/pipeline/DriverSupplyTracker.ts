@@ -0,0 +1,220 @@
+import { DriverLocation } from '../connectors/DriverLocationConnector';
+import { getParentCells } from '../utils/GeospatialUtils';
+
+/**
+ * Driver availability state
+ */
+export type DriverAvailability = DriverLocation['availability'];
+
+/**
+ * Driver vehicle type
+ */
+export type VehicleType = DriverLocation['vehicleType'];
+
+/**
+ * Driver supply tracker options
+ */
+export interface DriverSupplyOptions {
+  staleAfterMs: number;
+  countedAvailability: DriverAvailability[];
+  rollupResolutions?: number[];
+}
+
+/**
+ * Supply snapshot for a grid cell
+ */
+export interface CellSupply {
+  activeDrivers: number;
+  byVehicleType: Record<VehicleType, number>;
+}
+
+/**
+ * Last known state of a driver
+ */
+export interface DriverState {
+  driverId: string;
+  h3Index: string;
+  availability: DriverAvailability;
+  vehicleType: VehicleType;
+  lastSeen: number;
+}
+
+/**
+ * Tracks the latest known position of each driver and derives per-cell supply
+ *
+ * Each driver is counted in at most one cell (their most recent position by
+ * event time), drivers whose last update is older than `staleAfterMs` are
+ * expired, and only drivers in a counted availability state contribute to
+ * supply. Drivers are also counted in the parent of their cell at each rollup
+ * resolution.
+ */
+export class DriverSupplyTracker {
+  private drivers = new Map<string, DriverState>();
+  private cells = new Map<string, Set<string>>();
+
+  /**
+   * Create a new driver supply tracker
+   * @param options Tracker options
+   */
+  constructor(private readonly options: DriverSupplyOptions) {}
+
+  /**
+   * Record a driver location update
+   * @param location Driver location
+   * @param h3Index H3 index of the driver location
+   * @param eventTime Event time in milliseconds
+   * @returns True if the update was applied, false if it was older than the known state
+   */
+  update(location: DriverLocation, h3Index: string, eventTime: number): boolean {
+    const current = this.drivers.get(location.driverId);
+
+    // Ignore out-of-order updates for a driver we already know about
+    if (current && current.lastSeen > eventTime) {
+      return false;
+    }
+
+    if (current && current.h3Index !== h3Index) {
+      this.removeFromCells(current.driverId, current.h3Index);
+    }
+
+    this.drivers.set(location.driverId, {
+      driverId: location.driverId,
+      h3Index,
+      availability: location.availability,
+      vehicleType: location.vehicleType,
+      lastSeen: eventTime,
+    });
+
+    this.addToCells(location.driverId, h3Index);
+
+    return true;
+  }
+
+  /**
+   * Remove drivers that have not reported since the staleness threshold
+   * @param asOf Reference time in milliseconds
+   * @returns Number of drivers removed
+   */
+  expire(asOf: number): number {
+    let expired = 0;
+
+    for (const state of this.drivers.values()) {
+      if (asOf - state.lastSeen > this.options.staleAfterMs) {
+        this.drivers.delete(state.driverId);
+        this.removeFromCells(state.driverId, state.h3Index);
+        expired++;
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Get the current supply for a grid cell
+   * @param h3Index H3 index, at the tracked resolution or a rollup resolution
+   * @param asOf Reference time in milliseconds used for staleness
+   * @returns Active driver count and per-vehicle-type breakdown
+   */
+  getSupply(h3Index: string, asOf: number): CellSupply {
+    const supply: CellSupply = {
+      activeDrivers: 0,
+      byVehicleType: { ECONOMY: 0, COMFORT: 0, PREMIUM: 0 },
+    };
+
+    for (const driverId of this.cells.get(h3Index) || []) {
+      const state = this.drivers.get(driverId);
+
+      // Drivers seen only after the reference time were not there yet, and stale ones have left
+      if (!state || state.lastSeen > asOf || asOf - state.lastSeen > this.options.staleAfterMs) {
+        continue;
+      }
+
+      if (!this.options.countedAvailability.includes(state.availability)) {
+        continue;
+      }
+
+      supply.activeDrivers++;
+      supply.byVehicleType[state.vehicleType] = (supply.byVehicleType[state.vehicleType] || 0) + 1;
+    }
+
+    return supply;
+  }
+
+  /**
+   * Get the number of drivers currently tracked
+   */
+  getTrackedDriverCount(): number {
+    return this.drivers.size;
+  }
+
+  /**
+   * Capture the last known state of every tracked driver for checkpointing
+   */
+  snapshot(): DriverState[] {
+    return Array.from(this.drivers.values()).map(state => ({ ...state }));
+  }
+
+  /**
+   * Restore tracked drivers from a checkpoint
+   * @param states Driver states
+   */
+  restore(states: DriverState[]): void {
+    for (const state of states) {
+      const current = this.drivers.get(state.driverId);
+      if (current && current.lastSeen > state.lastSeen) {
+        continue;
+      }
+
+      if (current && current.h3Index !== state.h3Index) {
+        this.removeFromCells(current.driverId, current.h3Index);
+      }
+
+      this.drivers.set(state.driverId, { ...state });
+      this.addToCells(state.driverId, state.h3Index);
+    }
+  }
+
+  /**
+   * Get a cell and its parents at the rollup resolutions
+   * @param h3Index H3 index
+   * @private
+   */
+  private getMemberCells(h3Index: string): string[] {
+    return [h3Index, ...getParentCells(h3Index, this.options.rollupResolutions || [])];
+  }
+
+  /**
+   * Add a driver to the membership sets of a cell and its parents
+   * @param driverId Driver ID
+   * @param h3Index H3 index
+   * @private
+   */
+  private addToCells(driverId: string, h3Index: string): void {
+    for (const cell of this.getMemberCells(h3Index)) {
+      if (!this.cells.has(cell)) {
+        this.cells.set(cell, new Set());
+      }
+      this.cells.get(cell)!.add(driverId);
+    }
+  }
+
+  /**
+   * Remove a driver from the membership sets of a cell and its parents
+   * @param driverId Driver ID
+   * @param h3Index H3 index
+   * @private
+   */
+  private removeFromCells(driverId: string, h3Index: string): void {
+    for (const cell of this.getMemberCells(h3Index)) {
+      const members = this.cells.get(cell);
+      if (!members) {
+        continue;
+      }
+
+      members.delete(driverId);
+      if (members.size === 0) {
+        this.cells.delete(cell);
+      }
+    }
+  }
+}
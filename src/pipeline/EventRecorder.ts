@@ -0,0 +1,225 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import avro from 'avro-js';
+import config from '../config';
+import { DataEvent } from '../connectors/DataSourceConnector';
+import { recordedEventSchema } from '../schemas/AvroSchemas';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Recording file formats
+ */
+export type RecordingFormat = 'ndjson' | 'avro';
+
+/**
+ * Event recorder options
+ */
+export interface EventRecorderOptions {
+  directory: string;
+  format: RecordingFormat;
+  // Partition files kept open at once; the least recently written is closed first
+  maxOpenFiles: number;
+}
+
+/**
+ * Data event as stored in a recording
+ */
+export interface RecordedEvent {
+  source: string;
+  // Event time in milliseconds
+  timestamp: number;
+  // JSON-encoded payload
+  payload: string;
+  // JSON-encoded metadata, or null
+  metadata: string | null;
+}
+
+/**
+ * Metadata flag set on replayed events so they are not recorded again
+ */
+export const REPLAYED_METADATA_KEY = 'replayed';
+
+/**
+ * Convert a data event to its recorded form
+ * @param event Data event
+ */
+export function toRecordedEvent(event: DataEvent): RecordedEvent {
+  return {
+    source: event.source,
+    timestamp: event.timestamp.getTime(),
+    payload: JSON.stringify(event.payload),
+    metadata: event.metadata ? JSON.stringify(event.metadata) : null,
+  };
+}
+
+/**
+ * Convert a recorded event back to a data event with its original timestamp
+ * @param recorded Recorded event
+ */
+export function fromRecordedEvent(recorded: RecordedEvent): DataEvent {
+  return {
+    source: recorded.source,
+    timestamp: new Date(recorded.timestamp),
+    payload: JSON.parse(recorded.payload),
+    metadata: {
+      ...(recorded.metadata ? JSON.parse(recorded.metadata) : {}),
+      [REPLAYED_METADATA_KEY]: true,
+    },
+  };
+}
+
+/**
+ * Get the partition of an event: its source, UTC date and UTC hour
+ * @param source Data source name
+ * @param timestamp Event time
+ * @returns Partition directory relative to the recording directory, and the hour
+ */
+export function getPartition(source: string, timestamp: Date): { directory: string; hour: string } {
+  const iso = timestamp.toISOString();
+
+  return {
+    directory: path.join(encodeURIComponent(source), iso.slice(0, 10)),
+    hour: iso.slice(11, 13),
+  };
+}
+
+/**
+ * Open partition file
+ */
+interface PartitionWriter {
+  write(recorded: RecordedEvent): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Records data events to files partitioned by source and hour
+ *
+ * Files are laid out as `<directory>/<source>/<YYYY-MM-DD>/<HH>-<session>-<part>.<format>`,
+ * where the session is the time the recorder was created. A partition that is
+ * written again after its file was closed gets a new part, so no file is ever
+ * reopened and Avro container files stay valid.
+ */
+export class EventRecorder {
+  // Open writers by partition, in least recently written order
+  private writers = new Map<string, PartitionWriter>();
+  private parts = new Map<string, number>();
+  private sessionId = Date.now().toString();
+  private recorded = 0;
+  private logger: Logger;
+
+  /**
+   * Create a new event recorder
+   * @param options Recorder options
+   */
+  constructor(private readonly options: EventRecorderOptions = config.pipeline.recording) {
+    this.logger = new Logger('EventRecorder');
+  }
+
+  /**
+   * Record a data event; replayed events are skipped
+   * @param event Data event
+   */
+  record(event: DataEvent): void {
+    if (event.metadata?.[REPLAYED_METADATA_KEY]) {
+      return;
+    }
+
+    const { directory, hour } = getPartition(event.source, event.timestamp);
+    const partitionKey = path.join(directory, hour);
+
+    let writer = this.writers.get(partitionKey);
+    if (writer) {
+      // Move to the most recently written end
+      this.writers.delete(partitionKey);
+    } else {
+      const part = (this.parts.get(partitionKey) ?? -1) + 1;
+      this.parts.set(partitionKey, part);
+
+      writer = this.openWriter(partitionKey, path.join(
+        this.options.directory,
+        directory,
+        `${hour}-${this.sessionId}-${part}.${this.options.format}`
+      ));
+    }
+    this.writers.set(partitionKey, writer);
+
+    writer.write(toRecordedEvent(event));
+    this.recorded++;
+
+    if (this.writers.size > this.options.maxOpenFiles) {
+      const [oldestKey, oldestWriter] = this.writers.entries().next().value as [string, PartitionWriter];
+      this.writers.delete(oldestKey);
+      oldestWriter.close().catch(error => this.logger.error(`Failed to close recording ${oldestKey}:`, error));
+    }
+  }
+
+  /**
+   * Get the number of events recorded
+   */
+  getRecordedCount(): number {
+    return this.recorded;
+  }
+
+  /**
+   * Flush and close every open partition file
+   */
+  async close(): Promise<void> {
+    const writers = Array.from(this.writers.values());
+    this.writers.clear();
+
+    await Promise.all(writers.map(writer => writer.close()));
+    this.logger.info(`Closed ${writers.length} recording files (${this.recorded} events recorded)`);
+  }
+
+  /**
+   * Open a partition file for writing
+   *
+   * A file that fails to write (e.g. disk full) is logged and its writer
+   * dropped, so the partition's next event starts a new part.
+   * @param partitionKey Partition the file belongs to
+   * @param filePath File path
+   * @private
+   */
+  private openWriter(partitionKey: string, filePath: string): PartitionWriter {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const fileStream = fs.createWriteStream(filePath);
+    let writer: PartitionWriter;
+    const finished = new Promise<void>((resolve, reject) => {
+      fileStream.on('finish', resolve);
+      fileStream.on('error', reject);
+    }).catch(error => {
+      this.logger.error(`Failed to write recording ${filePath}:`, error);
+      if (this.writers.get(partitionKey) === writer) {
+        this.writers.delete(partitionKey);
+      }
+    });
+
+    if (this.options.format === 'avro') {
+      const encoder = new avro.streams.BlockEncoder(recordedEventSchema);
+      encoder.pipe(fileStream);
+
+      writer = {
+        // avro-js expects union values wrapped in their branch type
+        write: recorded => encoder.write({
+          ...recorded,
+          metadata: recorded.metadata === null ? null : { string: recorded.metadata },
+        }),
+        close: async () => {
+          encoder.end();
+          await finished;
+        },
+      };
+      return writer;
+    }
+
+    writer = {
+      write: recorded => fileStream.write(`${JSON.stringify(recorded)}\n`),
+      close: async () => {
+        fileStream.end();
+        await finished;
+      },
+    };
+    return writer;
+  }
+}
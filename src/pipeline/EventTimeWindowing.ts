@@ -0,0 +1,406 @@
+import { DataEvent } from '../connectors/DataSourceConnector';
+
+/**
+ * Window assignment strategy
+ */
+export type WindowType = 'tumbling' | 'sliding';
+
+/**
+ * Event-time windowing options
+ */
+export interface WindowingOptions {
+  type: WindowType;
+  sizeMs: number;
+  slideMs: number;
+  allowedLatenessMs: number;
+  idleSourceTimeoutMs: number;
+  defaultMaxOutOfOrdernessMs: number;
+  maxOutOfOrdernessMs: Record<string, number>;
+}
+
+/**
+ * Event-time window bounds (start inclusive, end exclusive)
+ */
+export interface EventWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * Result of a window firing
+ */
+export interface WindowResult {
+  key: string;
+  window: EventWindow;
+  events: DataEvent[];
+  isUpdate: boolean;
+}
+
+/**
+ * Event that arrived after its windows were closed
+ */
+export interface LateEvent {
+  key: string;
+  event: DataEvent;
+  watermark: number;
+  lateByMs: number;
+}
+
+/**
+ * Data event with its timestamp serialized for checkpointing
+ */
+export interface SerializedDataEvent {
+  source: string;
+  timestamp: string;
+  payload: any;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Checkpointed state of an open window
+ */
+export interface WindowSnapshot {
+  key: string;
+  window: EventWindow;
+  events: SerializedDataEvent[];
+  fired: boolean;
+  dirty: boolean;
+}
+
+/**
+ * Checkpointed state of an event-time windower
+ */
+export interface WindowerSnapshot {
+  maxEventTimes: Record<string, number>;
+  windows: WindowSnapshot[];
+}
+
+/**
+ * Internal state for an open window
+ */
+interface WindowState {
+  key: string;
+  window: EventWindow;
+  events: DataEvent[];
+  fired: boolean;
+  dirty: boolean;
+}
+
+/**
+ * Per-source watermark state
+ */
+interface SourceWatermark {
+  maxEventTime: number;
+  lastSeen: number;
+}
+
+/**
+ * Tracks watermarks per data source
+ *
+ * Each source's watermark trails the highest event time seen from it by the
+ * source's allowed out-of-orderness. The combined watermark is the minimum
+ * across sources that are not idle, so a lagging connector holds windows open.
+ */
+export class WatermarkTracker {
+  private sources = new Map<string, SourceWatermark>();
+
+  /**
+   * Create a new watermark tracker
+   * @param options Windowing options
+   */
+  constructor(private readonly options: WindowingOptions) {}
+
+  /**
+   * Record an event time for a source
+   * @param source Data source name
+   * @param eventTime Event time in milliseconds
+   * @param now Processing time in milliseconds
+   */
+  observe(source: string, eventTime: number, now: number = Date.now()): void {
+    const state = this.sources.get(source);
+
+    if (!state) {
+      this.sources.set(source, { maxEventTime: eventTime, lastSeen: now });
+      return;
+    }
+
+    state.maxEventTime = Math.max(state.maxEventTime, eventTime);
+    state.lastSeen = now;
+  }
+
+  /**
+   * Get the watermark for a single source
+   * @param source Data source name
+   * @returns Watermark in milliseconds, or -Infinity if the source is unknown
+   */
+  getSourceWatermark(source: string): number {
+    const state = this.sources.get(source);
+    if (!state) {
+      return -Infinity;
+    }
+
+    return state.maxEventTime - this.getMaxOutOfOrderness(source);
+  }
+
+  /**
+   * Get the combined watermark across all active sources
+   * @param now Processing time in milliseconds
+   * @returns Watermark in milliseconds, or -Infinity if no events were seen
+   */
+  getWatermark(now: number = Date.now()): number {
+    let activeWatermark = Infinity;
+    let idleWatermark = -Infinity;
+
+    for (const [source, state] of this.sources.entries()) {
+      const watermark = this.getSourceWatermark(source);
+
+      if (now - state.lastSeen > this.options.idleSourceTimeoutMs) {
+        idleWatermark = Math.max(idleWatermark, watermark);
+      } else {
+        activeWatermark = Math.min(activeWatermark, watermark);
+      }
+    }
+
+    // If every source is idle, fall back to the most advanced one so windows still close
+    return activeWatermark === Infinity ? idleWatermark : activeWatermark;
+  }
+
+  /**
+   * Get the current watermark of every source
+   * @returns Map of source name to watermark as ISO string
+   */
+  getWatermarks(): Record<string, string> {
+    const watermarks: Record<string, string> = {};
+
+    for (const source of this.sources.keys()) {
+      watermarks[source] = new Date(this.getSourceWatermark(source)).toISOString();
+    }
+
+    return watermarks;
+  }
+
+  /**
+   * Get the highest event time seen from each source
+   */
+  getMaxEventTimes(): Record<string, number> {
+    const maxEventTimes: Record<string, number> = {};
+
+    for (const [source, state] of this.sources.entries()) {
+      maxEventTimes[source] = state.maxEventTime;
+    }
+
+    return maxEventTimes;
+  }
+
+  /**
+   * Restore the highest event time of each source from a checkpoint
+   *
+   * Restored sources are treated as seen at `now`, so they only become idle
+   * if nothing arrives from them within the idle timeout.
+   * @param maxEventTimes Map of source name to highest event time
+   * @param now Processing time in milliseconds
+   */
+  restore(maxEventTimes: Record<string, number>, now: number = Date.now()): void {
+    for (const [source, maxEventTime] of Object.entries(maxEventTimes)) {
+      this.observe(source, maxEventTime, now);
+    }
+  }
+
+  /**
+   * Get the allowed out-of-orderness for a source
+   * @param source Data source name
+   * @private
+   */
+  private getMaxOutOfOrderness(source: string): number {
+    return this.options.maxOutOfOrdernessMs[source] ?? this.options.defaultMaxOutOfOrdernessMs;
+  }
+}
+
+/**
+ * Assigns keyed events to tumbling or sliding event-time windows and fires
+ * them once the watermark passes the window end
+ *
+ * Windows stay open for `allowedLatenessMs` after firing; late events that
+ * still fall within that period re-fire the window as an update. Events whose
+ * windows have all been purged are reported as late.
+ */
+export class EventTimeWindower {
+  private windows = new Map<string, WindowState>();
+  private watermarks: WatermarkTracker;
+
+  /**
+   * Create a new event-time windower
+   * @param options Windowing options
+   */
+  constructor(private readonly options: WindowingOptions) {
+    if (options.sizeMs <= 0) {
+      throw new Error('Window size must be positive');
+    }
+
+    if (options.type === 'sliding' && (options.slideMs <= 0 || options.slideMs > options.sizeMs)) {
+      throw new Error('Window slide must be positive and no larger than the window size');
+    }
+
+    this.watermarks = new WatermarkTracker(options);
+  }
+
+  /**
+   * Add an event to the windows it belongs to
+   * @param key Grouping key (e.g. H3 index)
+   * @param event Data event
+   * @param now Processing time in milliseconds
+   * @returns Late event details if the event was too late for every window, otherwise null
+   */
+  add(key: string, event: DataEvent, now: number = Date.now()): LateEvent | null {
+    const eventTime = event.timestamp.getTime();
+    const watermark = this.watermarks.getWatermark(now);
+
+    this.watermarks.observe(event.source, eventTime, now);
+
+    let accepted = false;
+
+    for (const window of this.assignWindows(eventTime)) {
+      if (window.end + this.options.allowedLatenessMs <= watermark) {
+        continue;
+      }
+
+      const windowId = `${key}|${window.start}`;
+      let state = this.windows.get(windowId);
+
+      if (!state) {
+        state = { key, window, events: [], fired: false, dirty: false };
+        this.windows.set(windowId, state);
+      }
+
+      state.events.push(event);
+      state.dirty = true;
+      accepted = true;
+    }
+
+    if (accepted) {
+      return null;
+    }
+
+    return {
+      key,
+      event,
+      watermark,
+      lateByMs: watermark - eventTime,
+    };
+  }
+
+  /**
+   * Fire every window whose end has been passed by the watermark and purge
+   * windows that are past their allowed lateness
+   * @param now Processing time in milliseconds
+   * @returns Fired windows, ordered by window end
+   */
+  advance(now: number = Date.now()): WindowResult[] {
+    const watermark = this.watermarks.getWatermark(now);
+    const results: WindowResult[] = [];
+
+    for (const [windowId, state] of this.windows.entries()) {
+      if (state.window.end > watermark) {
+        continue;
+      }
+
+      if (state.dirty) {
+        results.push({
+          key: state.key,
+          window: state.window,
+          events: [...state.events].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()),
+          isUpdate: state.fired,
+        });
+        state.fired = true;
+        state.dirty = false;
+      }
+
+      if (state.window.end + this.options.allowedLatenessMs <= watermark) {
+        this.windows.delete(windowId);
+      }
+    }
+
+    return results.sort((a, b) => a.window.end - b.window.end);
+  }
+
+  /**
+   * Get the windows an event time belongs to
+   * @param eventTime Event time in milliseconds
+   * @returns Windows containing the event time
+   */
+  assignWindows(eventTime: number): EventWindow[] {
+    const { sizeMs } = this.options;
+
+    if (this.options.type === 'tumbling') {
+      const start = Math.floor(eventTime / sizeMs) * sizeMs;
+      return [{ start, end: start + sizeMs }];
+    }
+
+    const { slideMs } = this.options;
+    const windows: EventWindow[] = [];
+    const lastStart = Math.floor(eventTime / slideMs) * slideMs;
+
+    for (let start = lastStart; start > eventTime - sizeMs; start -= slideMs) {
+      windows.push({ start, end: start + sizeMs });
+    }
+
+    return windows.reverse();
+  }
+
+  /**
+   * Get the current combined watermark
+   * @param now Processing time in milliseconds
+   */
+  getWatermark(now: number = Date.now()): number {
+    return this.watermarks.getWatermark(now);
+  }
+
+  /**
+   * Get the current watermark of every source
+   */
+  getSourceWatermarks(): Record<string, string> {
+    return this.watermarks.getWatermarks();
+  }
+
+  /**
+   * Get the number of open windows
+   */
+  getOpenWindowCount(): number {
+    return this.windows.size;
+  }
+
+  /**
+   * Capture the open windows and source watermarks for checkpointing
+   */
+  snapshot(): WindowerSnapshot {
+    return {
+      maxEventTimes: this.watermarks.getMaxEventTimes(),
+      windows: Array.from(this.windows.values()).map(state => ({
+        key: state.key,
+        window: { ...state.window },
+        events: state.events.map(event => ({ ...event, timestamp: event.timestamp.toISOString() })),
+        fired: state.fired,
+        dirty: state.dirty,
+      })),
+    };
+  }
+
+  /**
+   * Restore open windows and source watermarks from a checkpoint
+   * @param snapshot Windower snapshot
+   * @param now Processing time in milliseconds
+   */
+  restore(snapshot: WindowerSnapshot, now: number = Date.now()): void {
+    this.watermarks.restore(snapshot.maxEventTimes, now);
+
+    for (const window of snapshot.windows) {
+      this.windows.set(`${window.key}|${window.window.start}`, {
+        key: window.key,
+        window: { ...window.window },
+        events: window.events.map(event => ({ ...event, timestamp: new Date(event.timestamp) })),
+        fired: window.fired,
+        dirty: window.dirty,
+      });
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { DataEvent } from '../connectors/DataSourceConnector';
+import { getJsonValidationErrors, schemas } from '../utils/AvroUtils';
+
+/**
+ * What happens to events that fail validation
+ * - reject: drop the event
+ * - quarantine: drop the event and dead-letter it with its errors for inspection
+ */
+export type ValidationMode = 'reject' | 'quarantine';
+
+/**
+ * Ingress validation options
+ */
+export interface IngressValidationOptions {
+  enabled: boolean;
+  mode: ValidationMode;
+  // Avro schema each DataEvent.source's payloads must match
+  schemas: Record<string, keyof typeof schemas>;
+}
+
+/**
+ * Validates data event payloads against the Avro schema of their source
+ *
+ * Payloads are plain JSON, so nullable fields may be omitted and union values
+ * appear without their branch type. Sources without a schema are not checked.
+ */
+export class IngressValidator {
+  /**
+   * Create a new ingress validator
+   * @param options Validation options
+   */
+  constructor(private readonly options: IngressValidationOptions) {}
+
+  /**
+   * Check whether events from a source are validated
+   * @param source Data source name
+   */
+  validates(source: string): boolean {
+    return this.options.enabled && Object.prototype.hasOwnProperty.call(this.options.schemas, source);
+  }
+
+  /**
+   * Validate an event's payload
+   * @param event Data event
+   * @param schemaName Schema the payload was received in, if not its source's schema (optional)
+   * @returns Validation errors, or an empty array if the payload is valid or its source has no schema
+   */
+  validate(event: DataEvent, schemaName?: keyof typeof schemas): string[] {
+    if (!this.options.enabled || (!schemaName && !this.validates(event.source))) {
+      return [];
+    }
+
+    return getJsonValidationErrors(schemaName ?? this.options.schemas[event.source], event.payload);
+  }
+}
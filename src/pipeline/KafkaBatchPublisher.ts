@@ -0,0 +1,328 @@
+import { Producer, TopicOffsets } from 'kafkajs';
+import { BoundedQueue, QueueMetrics } from './BoundedQueue';
+import { DeadLetterQueue, DeadLetterContext } from '../utils/DeadLetterQueue';
+import { MessageSerializer } from '../utils/MessageSerializer';
+import { H3Partitioner } from '../kafka/H3Partitioner';
+
+/**
+ * Dead-letter route of messages that could not be published, replayed by sending them to their topic again
+ */
+export const PUBLISH_REPLAY_ROUTE = 'kafka-publish';
+
+/**
+ * Kafka batch publisher options
+ */
+export interface KafkaBatchPublisherOptions {
+  maxBatchSize: number;
+  lingerMs: number;
+  queueCapacity: number;
+  // Send each batch in a Kafka transaction with the source offsets whose outputs it completes
+  transactional?: boolean;
+}
+
+/**
+ * Offsets of a consumer group, committed with transactional batches
+ */
+export interface ConsumerGroupOffsets {
+  consumerGroupId: string;
+  topics: TopicOffsets[];
+}
+
+/**
+ * Provides the offsets of the pipeline's Kafka sources whose outputs have been published
+ */
+export type OffsetsProvider = () => ConsumerGroupOffsets[];
+
+/**
+ * Message waiting to be published
+ */
+interface PendingMessage {
+  source: string;
+  key: string;
+  value: any;
+  sequence: number;
+}
+
+/**
+ * Serialized message ready to send
+ */
+interface OutgoingMessage {
+  key: string;
+  value: string | Buffer;
+  headers?: Record<string, string | Buffer>;
+}
+
+/**
+ * Per-topic publish state
+ */
+interface TopicState {
+  queue: BoundedQueue<PendingMessage>;
+  inFlight: Promise<void> | null;
+  lingerTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * Publishes messages to Kafka in batches
+ *
+ * Messages are queued per topic in bounded queues and sent in batches of up
+ * to `maxBatchSize`, either as soon as a full batch is available or after
+ * `lingerMs`. Each topic has at most one send in flight. Failed batches are
+ * retried through the dead-letter queue, and messages offered to a full queue
+ * are dead-lettered rather than buffered without limit. Values are written in
+ * their topic's wire format; a value that cannot be serialized is
+ * dead-lettered straight away, since retrying it would fail the same way.
+ *
+ * In transactional mode each batch is sent in a Kafka transaction together
+ * with source offsets, so a batch and the input it was computed from are
+ * committed at once. The offsets are captured when each message is queued;
+ * a transaction commits those of the oldest message still waiting to be sent
+ * in another batch, or the latest if there is none, so no input is committed
+ * before the outputs computed from it. A producer has one transaction at a
+ * time, so transactional sends are serialized across topics.
+ */
+export class KafkaBatchPublisher {
+  private topics = new Map<string, TopicState>();
+  private offsetsProvider: OffsetsProvider | null = null;
+  private transactionChain: Promise<void> = Promise.resolve();
+  private sequence = 0;
+  // Offsets captured with each queued or in-flight message, in queueing order
+  private unsentOffsets = new Map<number, ConsumerGroupOffsets[]>();
+
+  /**
+   * Create a new Kafka batch publisher
+   * @param producer Kafka producer
+   * @param deadLetterQueue Dead-letter queue for failed and overflowing messages
+   * @param options Batching options
+   * @param serializer Serializer of message values
+   * @param partitioner Partitioner the producer was created with, which tags messages with their area
+   */
+  constructor(
+    private readonly producer: Producer,
+    private readonly deadLetterQueue: DeadLetterQueue,
+    private readonly options: KafkaBatchPublisherOptions,
+    private readonly serializer: MessageSerializer = new MessageSerializer(),
+    private readonly partitioner: H3Partitioner = new H3Partitioner()
+  ) {}
+
+  /**
+   * Set the provider of the source offsets committed with transactional batches
+   * @param provider Offsets provider
+   */
+  setOffsetsProvider(provider: OffsetsProvider): void {
+    this.offsetsProvider = provider;
+  }
+
+  /**
+   * Queue a message for publishing
+   * @param topic Kafka topic
+   * @param source Source the message originates from
+   * @param key Message key
+   * @param value Message value
+   */
+  publish(topic: string, source: string, key: string, value: any): void {
+    const state = this.getTopicState(topic);
+    const sequence = this.sequence++;
+
+    if (!state.queue.offer({ source, key, value, sequence })) {
+      return;
+    }
+
+    if (this.options.transactional) {
+      this.unsentOffsets.set(sequence, this.offsetsProvider?.() || []);
+    }
+
+    if (state.queue.size() >= this.options.maxBatchSize) {
+      this.flushTopic(topic);
+    } else if (!state.lingerTimer) {
+      state.lingerTimer = setTimeout(() => {
+        state.lingerTimer = null;
+        this.flushTopic(topic);
+      }, this.options.lingerMs);
+    }
+  }
+
+  /**
+   * Send a single message straight away, without queueing it
+   *
+   * For messages the caller waits on, such as dead-letter entries and their
+   * replays. In transactional mode the message gets a transaction of its own,
+   * since a transactional producer cannot send outside one.
+   * @param topic Kafka topic
+   * @param key Message key
+   * @param value Message value
+   */
+  async sendNow(topic: string, key: string, value: any): Promise<void> {
+    await this.send(topic, [{
+      key,
+      value: this.serializer.serialize(topic, value),
+      headers: this.partitioner.withPartitionCell(value),
+    }], []);
+  }
+
+  /**
+   * Send every queued message and wait for in-flight sends to complete
+   */
+  async flush(): Promise<void> {
+    for (const [topic, state] of this.topics.entries()) {
+      if (state.lingerTimer) {
+        clearTimeout(state.lingerTimer);
+        state.lingerTimer = null;
+      }
+
+      while (state.inFlight || !state.queue.isEmpty()) {
+        await (state.inFlight || this.flushTopic(topic));
+      }
+    }
+  }
+
+  /**
+   * Get queue metrics per topic
+   */
+  getMetrics(): Record<string, QueueMetrics> {
+    const metrics: Record<string, QueueMetrics> = {};
+
+    for (const [topic, state] of this.topics.entries()) {
+      metrics[topic] = state.queue.getMetrics();
+    }
+
+    return metrics;
+  }
+
+  /**
+   * Send queued batches for a topic until its queue is empty
+   * @param topic Kafka topic
+   * @returns Promise for the in-flight send
+   * @private
+   */
+  private flushTopic(topic: string): Promise<void> {
+    const state = this.getTopicState(topic);
+
+    if (!state.inFlight) {
+      state.inFlight = this.sendBatches(topic, state).finally(() => {
+        state.inFlight = null;
+
+        // Pick up messages queued while the last batch was completing
+        if (!state.queue.isEmpty()) {
+          this.flushTopic(topic);
+        }
+      });
+    }
+
+    return state.inFlight;
+  }
+
+  /**
+   * Send batches for a topic until its queue is empty
+   * @param topic Kafka topic
+   * @param state Topic state
+   * @private
+   */
+  private async sendBatches(topic: string, state: TopicState): Promise<void> {
+    while (!state.queue.isEmpty()) {
+      const contexts: DeadLetterContext[] = [];
+      const messages: OutgoingMessage[] = [];
+      const sequences: number[] = [];
+
+      for (const message of state.queue.pollBatch(this.options.maxBatchSize)) {
+        const context = { source: message.source, route: PUBLISH_REPLAY_ROUTE, topic, key: message.key, payload: message.value };
+        sequences.push(message.sequence);
+
+        try {
+          messages.push({
+            key: message.key,
+            value: this.serializer.serialize(topic, message.value),
+            headers: this.partitioner.withPartitionCell(message.value),
+          });
+          contexts.push(context);
+        } catch (error) {
+          await this.deadLetterQueue.deadLetter(context, error as Error, 0);
+        }
+      }
+
+      try {
+        if (messages.length > 0) {
+          await this.deadLetterQueue.executeBatch(contexts, () => this.send(topic, messages, sequences));
+        }
+      } finally {
+        // Sent or dead-lettered, the batch no longer holds back the offsets of its inputs
+        sequences.forEach(sequence => this.unsentOffsets.delete(sequence));
+      }
+    }
+  }
+
+  /**
+   * Send a batch, in a transaction with the committable offsets if the publisher is transactional
+   * @param topic Kafka topic
+   * @param messages Serialized messages
+   * @param sequences Sequence numbers of the queued messages in the batch
+   * @private
+   */
+  private send(topic: string, messages: OutgoingMessage[], sequences: number[]): Promise<void> {
+    if (!this.options.transactional) {
+      return this.producer.send({ topic, messages }).then(() => undefined);
+    }
+
+    const sent = this.transactionChain.then(async () => {
+      const transaction = await this.producer.transaction();
+      try {
+        await transaction.send({ topic, messages });
+        for (const offsets of this.getCommittableOffsets(sequences)) {
+          await transaction.sendOffsets(offsets);
+        }
+        await transaction.commit();
+      } catch (error) {
+        if (transaction.isActive()) {
+          await transaction.abort();
+        }
+        throw error;
+      }
+    });
+
+    this.transactionChain = sent.catch(() => undefined);
+    return sent;
+  }
+
+  /**
+   * Get the offsets a transaction sending a batch can commit
+   * @param sequences Sequence numbers of the messages in the batch
+   * @returns Offsets captured with the oldest unsent message outside the batch, or the latest offsets
+   * @private
+   */
+  private getCommittableOffsets(sequences: number[]): ConsumerGroupOffsets[] {
+    for (const [sequence, offsets] of this.unsentOffsets.entries()) {
+      if (!sequences.includes(sequence)) {
+        return offsets;
+      }
+    }
+
+    return this.offsetsProvider?.() || [];
+  }
+
+  /**
+   * Get or create the publish state for a topic
+   * @param topic Kafka topic
+   * @private
+   */
+  private getTopicState(topic: string): TopicState {
+    let state = this.topics.get(topic);
+
+    if (!state) {
+      state = {
+        queue: new BoundedQueue<PendingMessage>(
+          this.options.queueCapacity,
+          'dead-letter',
+          message => this.deadLetterQueue.deadLetter(
+            { source: message.source, route: PUBLISH_REPLAY_ROUTE, topic, key: message.key, payload: message.value },
+            new Error(`Publish queue for topic ${topic} is full`),
+            0
+          )
+        ),
+        inFlight: null,
+        lingerTimer: null,
+      };
+      this.topics.set(topic, state);
+    }
+
+    return state;
+  }
+}
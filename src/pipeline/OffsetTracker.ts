@@ -0,0 +1,182 @@
+import { DataEvent } from '../connectors/DataSourceConnector';
+
+/**
+ * Tracks the Kafka offsets of consumed events until the pipeline is done with them
+ *
+ * An event is held from the moment it is queued for ingress until it is
+ * dropped or every window it was assigned to has fired. The committable
+ * offset of a partition stops at its lowest held offset, so after a restart
+ * the consumer reads again every event whose windows were not emitted.
+ * Events restored with their windows from a checkpoint are recorded, so that
+ * reading them again does not count them twice.
+ */
+export class OffsetTracker {
+  // Held offsets per `topic:partition`, with the watermark at which each is released
+  private held = new Map<string, Map<string, number>>();
+  // Lowest held offset per `topic:partition`, computed when first asked for after a change
+  private lowest = new Map<string, bigint>();
+  // Positions of events restored in open windows, as `topic:partition@offset`
+  private restored = new Set<string>();
+
+  /**
+   * Hold a consumed event's offset until it is released
+   * @param event Data event; events not consumed from Kafka are ignored
+   */
+  hold(event: DataEvent): void {
+    const position = this.getPosition(event);
+    if (!position) {
+      return;
+    }
+
+    let offsets = this.held.get(position.partition);
+    if (!offsets) {
+      offsets = new Map();
+      this.held.set(position.partition, offsets);
+    }
+
+    offsets.set(position.offset, Infinity);
+    this.lowest.delete(position.partition);
+  }
+
+  /**
+   * Release a held event once the watermark reaches a time
+   * @param event Data event
+   * @param watermark Watermark at which the event is released, e.g. the end of its last window
+   */
+  holdUntil(event: DataEvent, watermark: number): void {
+    const position = this.getPosition(event);
+    const offsets = position && this.held.get(position.partition);
+
+    if (offsets?.has(position.offset)) {
+      offsets.set(position.offset, watermark);
+    }
+  }
+
+  /**
+   * Check whether an event's offset is held
+   * @param event Data event
+   */
+  isHeld(event: DataEvent): boolean {
+    const position = this.getPosition(event);
+    return !!position && !!this.held.get(position.partition)?.has(position.offset);
+  }
+
+  /**
+   * Release an event the pipeline is done with
+   * @param event Data event
+   */
+  release(event: DataEvent): void {
+    const position = this.getPosition(event);
+    const offsets = position && this.held.get(position.partition);
+
+    if (!offsets?.delete(position.offset)) {
+      return;
+    }
+
+    this.lowest.delete(position.partition);
+    if (offsets.size === 0) {
+      this.held.delete(position.partition);
+    }
+  }
+
+  /**
+   * Release every event whose release watermark has been reached
+   * @param watermark Current watermark
+   */
+  releaseUntil(watermark: number): void {
+    for (const [partition, offsets] of this.held.entries()) {
+      for (const [offset, releaseAt] of offsets.entries()) {
+        if (releaseAt <= watermark) {
+          offsets.delete(offset);
+          this.lowest.delete(partition);
+        }
+      }
+
+      if (offsets.size === 0) {
+        this.held.delete(partition);
+      }
+    }
+  }
+
+  /**
+   * Record the events restored in open windows from a checkpoint
+   * @param events Restored events
+   * @param offsets Checkpointed offset per `topic:partition`; only events at or past it are consumed again
+   */
+  markRestored(events: { metadata?: Record<string, any> }[], offsets: Record<string, string>): void {
+    for (const event of events) {
+      const position = this.getPosition(event);
+      if (position && offsets[position.partition] !== undefined && BigInt(position.offset) >= BigInt(offsets[position.partition])) {
+        this.restored.add(`${position.partition}@${position.offset}`);
+      }
+    }
+  }
+
+  /**
+   * Check whether an event consumed again is already in the restored windows, forgetting it if so
+   * @param event Data event
+   * @returns True if the event was restored and should be skipped
+   */
+  takeRestored(event: DataEvent): boolean {
+    const position = this.getPosition(event);
+    return !!position && this.restored.delete(`${position.partition}@${position.offset}`);
+  }
+
+  /**
+   * Get the offsets that are safe to commit
+   * @param consumed Next offset to consume per `topic:partition`
+   * @returns The lowest held offset of each partition, or the consumed offset if none is held
+   */
+  getCommittableOffsets(consumed: Record<string, string>): Record<string, string> {
+    const committable: Record<string, string> = {};
+
+    for (const [partition, offset] of Object.entries(consumed)) {
+      const lowest = this.getLowestHeld(partition);
+      committable[partition] = lowest === null ? offset : lowest.toString();
+    }
+
+    return committable;
+  }
+
+  /**
+   * Get the lowest held offset of a partition
+   * @param partition `topic:partition`
+   * @returns The lowest held offset, or null if none is held
+   * @private
+   */
+  private getLowestHeld(partition: string): bigint | null {
+    const offsets = this.held.get(partition);
+    if (!offsets) {
+      return null;
+    }
+
+    let lowest = this.lowest.get(partition);
+    if (lowest === undefined) {
+      for (const offset of offsets.keys()) {
+        const value = BigInt(offset);
+        if (lowest === undefined || value < lowest) {
+          lowest = value;
+        }
+      }
+      this.lowest.set(partition, lowest);
+    }
+
+    return lowest;
+  }
+
+  /**
+   * Get the Kafka position a connector recorded in an event's metadata
+   * @param event Data event, or its checkpointed form
+   * @returns The event's `topic:partition` and offset, or null if it was not consumed from Kafka
+   * @private
+   */
+  private getPosition(event: { metadata?: Record<string, any> }): { partition: string; offset: string } | null {
+    const { kafkaTopic, kafkaPartition, kafkaOffset } = event.metadata || {};
+
+    if (kafkaTopic === undefined || kafkaPartition === undefined || kafkaOffset === undefined) {
+      return null;
+    }
+
+    return { partition: `${kafkaTopic}:${kafkaPartition}`, offset: String(kafkaOffset) };
+  }
+}
@@ -0,0 +1,178 @@
+import { AirportDemandData, FlightArrival } from '../schemas/DataModels';
+
+/**
+ * Passenger wave estimator options
+ */
+export interface PassengerWaveOptions {
+  bucketMinutes: number;
+  horizonMinutes: number;
+  defaultSeats: number;
+  defaultLoadFactor: number;
+  domesticCurbMinutes: number;
+  internationalCurbMinutes: number;
+  waveSpreadMinutes: number;
+  rideShareRate: number;
+}
+
+/**
+ * Airport terminal and the location of its curb
+ */
+export interface AirportTerminal {
+  airportCode: string;
+  terminal: string;
+  h3Index: string;
+}
+
+/**
+ * Typical seats per ICAO aircraft type
+ */
+const AIRCRAFT_SEATS: Record<string, number> = {
+  A319: 128,
+  A320: 150,
+  A20N: 160,
+  A321: 190,
+  A21N: 196,
+  A332: 250,
+  A333: 290,
+  A339: 290,
+  A359: 310,
+  A35K: 350,
+  A388: 500,
+  B712: 110,
+  B737: 145,
+  B738: 170,
+  B739: 180,
+  B38M: 172,
+  B39M: 190,
+  B752: 190,
+  B763: 220,
+  B772: 310,
+  B77W: 350,
+  B788: 240,
+  B789: 290,
+  B78X: 320,
+  BCS3: 130,
+  CRJ7: 70,
+  CRJ9: 76,
+  E75L: 76,
+  E75S: 76,
+};
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Estimates the wave of passengers leaving each airport terminal after their flights land
+ *
+ * A flight's passengers are its seats times its load factor. They reach the
+ * curb spread over a triangular distribution centered on landing plus the
+ * time to deplane and collect bags, which is longer for international flights
+ * because of customs. Each terminal's wave is the sum over its flights,
+ * bucketed over the horizon so demand can be anticipated before it arrives.
+ */
+export class PassengerWaveEstimator {
+  /**
+   * Create a new passenger wave estimator
+   * @param options Estimator options
+   */
+  constructor(private readonly options: PassengerWaveOptions) {}
+
+  /**
+   * Estimate the passengers leaving each terminal in every bucket of the horizon
+   * @param flights Arrivals around the horizon
+   * @param terminals Terminals to estimate, including those without flights
+   * @param asOf Start of the horizon
+   * @returns Expected demand for every terminal and bucket, so buckets emptied by delays or cancellations are reported too
+   */
+  estimate(flights: FlightArrival[], terminals: AirportTerminal[], asOf: Date): AirportDemandData[] {
+    const bucketMs = this.options.bucketMinutes * MINUTE_MS;
+    const firstBucket = Math.floor(asOf.getTime() / bucketMs) * bucketMs;
+    const bucketCount = Math.ceil(this.options.horizonMinutes / this.options.bucketMinutes);
+    const demand: AirportDemandData[] = [];
+
+    for (const { airportCode, terminal, h3Index } of terminals) {
+      const terminalFlights = flights.filter(flight => flight.airportCode === airportCode && flight.terminal === terminal);
+
+      for (let bucket = 0; bucket < bucketCount; bucket++) {
+        const bucketStart = firstBucket + bucket * bucketMs;
+        const bucketEnd = bucketStart + bucketMs;
+        let expectedPassengers = 0;
+        const flightNumbers: string[] = [];
+
+        for (const flight of terminalFlights) {
+          const passengers = this.getPassengersBetween(flight, bucketStart, bucketEnd);
+          if (passengers > 0) {
+            expectedPassengers += passengers;
+            flightNumbers.push(flight.flightNumber);
+          }
+        }
+
+        demand.push({
+          id: `${airportCode}:${terminal}:${new Date(bucketStart).toISOString()}`,
+          timestamp: asOf.toISOString(),
+          h3Index,
+          airportCode,
+          terminal,
+          bucketStart: new Date(bucketStart).toISOString(),
+          bucketEnd: new Date(bucketEnd).toISOString(),
+          expectedPassengers: Math.round(expectedPassengers),
+          expectedRideRequests: Math.round(expectedPassengers * this.options.rideShareRate),
+          flightNumbers,
+        });
+      }
+    }
+
+    return demand;
+  }
+
+  /**
+   * Get the expected passengers of a flight reaching the curb within a time range
+   * @param flight Flight arrival
+   * @param start Start of the range in epoch milliseconds
+   * @param end End of the range in epoch milliseconds
+   * @private
+   */
+  private getPassengersBetween(flight: FlightArrival, start: number, end: number): number {
+    if (flight.status === 'CANCELED' || flight.status === 'DIVERTED') {
+      return 0;
+    }
+
+    const arrival = new Date(flight.actualArrival || flight.estimatedArrival || flight.scheduledArrival).getTime();
+    if (Number.isNaN(arrival)) {
+      return 0;
+    }
+
+    const curbMinutes = flight.international ? this.options.internationalCurbMinutes : this.options.domesticCurbMinutes;
+    const center = arrival + curbMinutes * MINUTE_MS;
+    const spread = Math.max(1, this.options.waveSpreadMinutes) * MINUTE_MS;
+
+    const share = this.triangularCdf(end, center, spread) - this.triangularCdf(start, center, spread);
+    return this.getPassengers(flight) * share;
+  }
+
+  /**
+   * Get the passengers on a flight
+   * @param flight Flight arrival
+   * @private
+   */
+  private getPassengers(flight: FlightArrival): number {
+    const seats = flight.seats || (flight.aircraftType && AIRCRAFT_SEATS[flight.aircraftType.toUpperCase()]) || this.options.defaultSeats;
+    const loadFactor = flight.loadFactor ?? this.options.defaultLoadFactor;
+    return seats * Math.min(1, Math.max(0, loadFactor));
+  }
+
+  /**
+   * Cumulative distribution of a symmetric triangular distribution
+   * @param x Point to evaluate
+   * @param center Mode of the distribution
+   * @param spread Distance from the mode to either end
+   * @private
+   */
+  private triangularCdf(x: number, center: number, spread: number): number {
+    const offset = (x - center) / spread;
+
+    if (offset <= -1) return 0;
+    if (offset >= 1) return 1;
+    if (offset <= 0) return (offset + 1) ** 2 / 2;
+    return 1 - (1 - offset) ** 2 / 2;
+  }
+}
@@ -1,45 +1,35 @@
 import { StreamProcessor } from './StreamProcessor';
-import { RideRequestConnector } from '../connectors/RideRequestConnector';
-import { WeatherConnector } from '../connectors/WeatherConnector';
-import { TrafficConnector } from '../connectors/TrafficConnector';
-import { EventsConnector } from '../connectors/EventsConnector';
+import { ConnectorRegistry, ConnectorDefinition } from '../connectors/ConnectorRegistry';
 import config from '../config';
 import { Logger } from '../utils/Logger';
-import { DataSourceConnector } from '../connectors/DataSourceConnector';
+import { DataSourceConnector, ConnectorMetadata } from '../connectors/DataSourceConnector';
+import { WebhookConnector } from '../connectors/WebhookConnector';
+import { DeadLetterQueue } from '../utils/DeadLetterQueue';
+import { QueueMetrics } from './BoundedQueue';
 
 /**
  * Pipeline manager for coordinating data flow
  */
 export class PipelineManager {
   private streamProcessor: StreamProcessor;
-  private connectors: {
-    rideRequest: RideRequestConnector;
-    weather: WeatherConnector;
-    traffic: TrafficConnector;
-    events: EventsConnector;
-  };
+  private registry: ConnectorRegistry;
   private isRunning: boolean = false;
+  private pluginsLoaded: boolean = false;
+  private logger: Logger;
 
   /**
    * Create a new pipeline manager
+   * @param streamProcessor Stream processor to feed, shared with the services that read its aggregates
    */
-  constructor() {
-    // Create stream processor
-    this.streamProcessor = new StreamProcessor();
+  constructor(streamProcessor: StreamProcessor = new StreamProcessor()) {
+    this.logger = new Logger('PipelineManager');
     
-    // Create connectors
-    this.connectors = {
-      rideRequest: new RideRequestConnector(),
-      weather: new WeatherConnector(),
-      traffic: new TrafficConnector(),
-      events: new EventsConnector(),
-    };
+    this.streamProcessor = streamProcessor;
     
-    // Add connectors to stream processor
-    this.streamProcessor.addConnector(this.connectors.rideRequest);
-    this.streamProcessor.addConnector(this.connectors.weather);
-    this.streamProcessor.addConnector(this.connectors.traffic);
-    this.streamProcessor.addConnector(this.connectors.events);
+    // Create the configured connectors whose factories are built in;
+    // plugin connectors are created once their plugins load on start
+    this.registry = new ConnectorRegistry();
+    this.createConfiguredConnectors(false);
   }
 
   /**
@@ -52,6 +42,13 @@ export class PipelineManager {
     }
 
     try {
+      // Load connector plugins and create the connectors they provide
+      if (!this.pluginsLoaded) {
+        await this.registry.loadPlugins(config.connectors.plugins);
+        this.pluginsLoaded = true;
+      }
+      this.createConfiguredConnectors(true);
+      
       // Start the stream processor
       await this.streamProcessor.start();
       
@@ -96,29 +93,115 @@ export class PipelineManager {
    */
   getStatus(): {
     isRunning: boolean;
-    connectors: {
-      rideRequest: boolean;
-      weather: boolean;
-      traffic: boolean;
-      events: boolean;
+    connectors: Record<string, ConnectorMetadata>;
+    queues: {
+      ingress: Record<string, QueueMetrics>;
+      publish: Record<string, QueueMetrics>;
     };
   } {
     return {
       isRunning: this.isRunning,
-      connectors: {
-        rideRequest: this.connectors.rideRequest.isConnected(),
-        weather: this.connectors.weather.isConnected(),
-        traffic: this.connectors.traffic.isConnected(),
-        events: this.connectors.events.isConnected(),
-      },
+      connectors: this.registry.getStatus(),
+      queues: this.streamProcessor.getQueueMetrics(),
     };
   }
 
+  /**
+   * Get the stream processor
+   */
+  getStreamProcessor(): StreamProcessor {
+    return this.streamProcessor;
+  }
+
+  /**
+   * Get the dead-letter queue of the stream processor
+   */
+  getDeadLetterQueue(): DeadLetterQueue {
+    return this.streamProcessor.getDeadLetterQueue();
+  }
+
   /**
    * Get all connectors
    * @returns Array of connectors
    */
   getConnectors(): DataSourceConnector[] {
-    return Object.values(this.connectors);
+    return this.registry.getAll();
+  }
+
+  /**
+   * Get the webhook connector that accepts events pushed for a source
+   * @param source Webhook source name
+   */
+  getWebhookConnector(source: string): WebhookConnector | undefined {
+    return this.registry.getAll().find(
+      (connector): connector is WebhookConnector => connector instanceof WebhookConnector && connector.acceptsSource(source)
+    );
+  }
+
+  /**
+   * Get the definitions of all connectors
+   */
+  getConnectorDefinitions(): ConnectorDefinition[] {
+    return this.registry.getDefinitions();
+  }
+
+  /**
+   * Create a connector and add it to the pipeline, connecting it if the pipeline is running
+   * @param definition Connector definition
+   * @returns The created connector
+   */
+  async addConnector(definition: ConnectorDefinition): Promise<DataSourceConnector> {
+    const connector = this.registry.create(definition);
+    
+    try {
+      await this.streamProcessor.addConnector(connector);
+    } catch (error) {
+      await this.streamProcessor.removeConnector(connector);
+      this.registry.remove(definition.name);
+      throw error;
+    }
+    
+    this.logger.info(`Added connector ${definition.name}`);
+    return connector;
+  }
+
+  /**
+   * Remove a connector from the pipeline, disconnecting it if connected
+   * @param name Connector name
+   * @returns True if the connector was registered
+   */
+  async removeConnector(name: string): Promise<boolean> {
+    const connector = this.registry.remove(name);
+    if (!connector) {
+      return false;
+    }
+    
+    await this.streamProcessor.removeConnector(connector);
+    this.logger.info(`Removed connector ${name}`);
+    return true;
+  }
+
+  /**
+   * Create the enabled connectors declared in configuration that do not exist yet
+   * @param reportMissingFactories Log definitions whose factory is still unknown
+   * @private
+   */
+  private createConfiguredConnectors(reportMissingFactories: boolean): void {
+    for (const definition of config.connectors.definitions) {
+      if (this.registry.has(definition.name) ||
+          !this.registry.isEnabled(definition, config.env, config.connectors.disabled)) {
+        continue;
+      }
+      
+      if (!this.registry.hasFactory(definition.factory)) {
+        if (reportMissingFactories) {
+          this.logger.warn(`Skipping connector ${definition.name}: unknown factory ${definition.factory}`);
+        }
+        continue;
+      }
+      
+      // Not running yet, so adding only registers the connector
+      this.streamProcessor.addConnector(this.registry.create(definition));
+    }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,175 @@
+import { SocialBuzzData } from '../schemas/DataModels';
+
+/**
+ * Social buzz tracker options
+ */
+export interface SocialBuzzTrackerOptions {
+  baselineAlpha: number;
+  spikeZScore: number;
+  minSpikeScore: number;
+  warmupPolls: number;
+}
+
+/**
+ * Geotagged social media post
+ */
+export interface SocialPost {
+  id: string;
+  timestamp: string;
+  latitude: number;
+  longitude: number;
+  text?: string;
+  likes?: number;
+  shares?: number;
+}
+
+/**
+ * Baseline state of a grid cell
+ */
+interface CellBaseline {
+  mean: number;
+  variance: number;
+  spiking: boolean;
+}
+
+/**
+ * Baselines below this mean are dropped once their cell goes quiet
+ */
+const MIN_TRACKED_MEAN = 0.01;
+
+/**
+ * Hashtags reported per cell
+ */
+const TOP_HASHTAGS = 3;
+
+/**
+ * Scores social media buzz per grid cell and detects spikes
+ *
+ * Each poll's posts are scored per cell by engagement-weighted volume, and
+ * every cell keeps an exponentially weighted mean and variance of its score
+ * across polls. A score far enough above the cell's own baseline is a spike,
+ * which flags crowds gathering before their ride requests arrive. Cells
+ * without a baseline have been quiet, so their baseline is zero; spikes are
+ * only flagged once the tracker has seen enough polls to trust that.
+ */
+export class SocialBuzzTracker {
+  private cells = new Map<string, CellBaseline>();
+  private polls = 0;
+
+  /**
+   * Create a new social buzz tracker
+   * @param options Tracker options
+   */
+  constructor(private readonly options: SocialBuzzTrackerOptions) {}
+
+  /**
+   * Score a poll's posts and update each cell's baseline
+   * @param posts Posts since the previous poll
+   * @param getH3Index Resolves the grid cell of a post
+   * @param asOf Time of the poll
+   * @returns Buzz for every cell with posts, and for cells whose spike just ended
+   */
+  update(posts: SocialPost[], getH3Index: (post: SocialPost) => string, asOf: Date): SocialBuzzData[] {
+    const postsByCell = new Map<string, SocialPost[]>();
+    for (const post of posts) {
+      const h3Index = getH3Index(post);
+      postsByCell.set(h3Index, [...(postsByCell.get(h3Index) || []), post]);
+    }
+
+    const buzz: SocialBuzzData[] = [];
+    const h3Indexes = new Set([...postsByCell.keys(), ...this.cells.keys()]);
+
+    for (const h3Index of h3Indexes) {
+      const cellPosts = postsByCell.get(h3Index) || [];
+      const baseline = this.cells.get(h3Index) || { mean: 0, variance: 0, spiking: false };
+      const buzzScore = cellPosts.reduce((score, post) => score + this.scorePost(post), 0);
+
+      // Floor the deviation at one post, so a flat baseline does not make every change a spike
+      const zScore = (buzzScore - baseline.mean) / Math.max(1, Math.sqrt(baseline.variance));
+      const isSpike = this.polls >= this.options.warmupPolls &&
+        buzzScore >= this.options.minSpikeScore &&
+        zScore >= this.options.spikeZScore;
+
+      // Report cells with activity, and quiet cells once so their spike is cleared downstream
+      if (cellPosts.length > 0 || baseline.spiking) {
+        buzz.push({
+          h3Index,
+          timestamp: asOf.toISOString(),
+          postCount: cellPosts.length,
+          buzzScore,
+          baselineScore: baseline.mean,
+          zScore,
+          isSpike,
+          topHashtags: this.getTopHashtags(cellPosts),
+        });
+      }
+
+      this.updateBaseline(h3Index, baseline, buzzScore, isSpike);
+    }
+
+    this.polls++;
+    return buzz;
+  }
+
+  /**
+   * Get the number of cells with a baseline
+   */
+  getTrackedCellCount(): number {
+    return this.cells.size;
+  }
+
+  /**
+   * Score a post by its engagement
+   * @param post Social media post
+   * @private
+   */
+  private scorePost(post: SocialPost): number {
+    return 1 + Math.log1p((post.likes || 0) + 2 * (post.shares || 0));
+  }
+
+  /**
+   * Fold a poll's score into a cell's exponentially weighted mean and variance
+   * @param h3Index H3 index
+   * @param baseline Current baseline
+   * @param buzzScore Score of the poll
+   * @param isSpike Whether the score was a spike
+   * @private
+   */
+  private updateBaseline(h3Index: string, baseline: CellBaseline, buzzScore: number, isSpike: boolean): void {
+    const alpha = this.options.baselineAlpha;
+    const diff = buzzScore - baseline.mean;
+    const increment = alpha * diff;
+
+    const updated: CellBaseline = {
+      mean: baseline.mean + increment,
+      variance: (1 - alpha) * (baseline.variance + diff * increment),
+      spiking: isSpike,
+    };
+
+    if (buzzScore === 0 && !isSpike && updated.mean < MIN_TRACKED_MEAN) {
+      this.cells.delete(h3Index);
+    } else {
+      this.cells.set(h3Index, updated);
+    }
+  }
+
+  /**
+   * Get the most frequent hashtags of a cell's posts
+   * @param posts Posts of the cell
+   * @private
+   */
+  private getTopHashtags(posts: SocialPost[]): string[] {
+    const counts = new Map<string, number>();
+
+    for (const post of posts) {
+      for (const hashtag of (post.text || '').toLowerCase().match(/#[\p{L}\p{N}_]+/gu) || []) {
+        counts.set(hashtag, (counts.get(hashtag) || 0) + 1);
+      }
+    }
+
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_HASHTAGS)
+      .map(([hashtag]) => hashtag);
+  }
+}
@@ -0,0 +1,107 @@
+import { DataEvent } from '../connectors/DataSourceConnector';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Handler for events from a data source
+ */
+export type SourceHandler<T = any> = (payload: T, event: DataEvent) => void | Promise<void>;
+
+/**
+ * Function that derives the ordering key of an event
+ */
+export type OrderingKeyFn = (event: DataEvent) => string;
+
+/**
+ * Wildcard source matching every event
+ */
+export const ANY_SOURCE = '*';
+
+/**
+ * Routes data events to typed handlers by `DataEvent.source`
+ *
+ * Events that share an ordering key (e.g. H3 index) are handled strictly in
+ * arrival order: a handler for an event never starts before every handler for
+ * the previous event with the same key has completed, even when handlers are
+ * asynchronous. Events with different keys may be handled concurrently.
+ */
+export class SourceRouter {
+  private handlers = new Map<string, SourceHandler[]>();
+  private tails = new Map<string, Promise<void>>();
+  private logger: Logger;
+
+  /**
+   * Create a new source router
+   * @param getOrderingKey Function that derives the ordering key of an event
+   */
+  constructor(private readonly getOrderingKey: OrderingKeyFn) {
+    this.logger = new Logger('SourceRouter');
+  }
+
+  /**
+   * Register a handler for a data source
+   * @param source Data source name, or ANY_SOURCE for every event
+   * @param handler Event handler
+   * @returns Function that removes the handler
+   */
+  on<T>(source: string, handler: SourceHandler<T>): () => void {
+    const handlers = this.handlers.get(source) || [];
+    handlers.push(handler);
+    this.handlers.set(source, handlers);
+
+    return () => {
+      const remaining = (this.handlers.get(source) || []).filter(existing => existing !== handler);
+      this.handlers.set(source, remaining);
+    };
+  }
+
+  /**
+   * Dispatch an event to the handlers for its source
+   * @param event Data event
+   * @returns Promise that resolves once every handler for the event has run
+   */
+  dispatch(event: DataEvent): Promise<void> {
+    const key = this.getOrderingKey(event);
+    const previous = this.tails.get(key) || Promise.resolve();
+    const current = previous.then(() => this.runHandlers(event));
+
+    this.tails.set(key, current);
+
+    // Drop the tail once nothing else is queued behind it for this key
+    current.then(() => {
+      if (this.tails.get(key) === current) {
+        this.tails.delete(key);
+      }
+    });
+
+    return current;
+  }
+
+  /**
+   * Wait until every dispatched event has been handled
+   */
+  async drain(): Promise<void> {
+    while (this.tails.size > 0) {
+      await Promise.all(this.tails.values());
+    }
+  }
+
+  /**
+   * Run every handler for an event in registration order
+   * @param event Data event
+   * @private
+   */
+  private async runHandlers(event: DataEvent): Promise<void> {
+    const handlers = [
+      ...(this.handlers.get(event.source) || []),
+      ...(this.handlers.get(ANY_SOURCE) || []),
+    ];
+
+    for (const handler of handlers) {
+      try {
+        await handler(event.payload, event);
+      } catch (error) {
+        this.logger.error(`Handler failed for ${event.source} event:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import { DataEvent } from '../connectors/DataSourceConnector';
+import { ProcessorStage } from './StreamProcessor';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Kind of processing stage
+ * - enrich: returns fields that are merged into the event payload
+ * - filter: returns false to drop the event
+ * - transform: returns a replacement event, or null to drop it
+ */
+export type StageKind = 'enrich' | 'filter' | 'transform';
+
+/**
+ * What to do with an event when its stage throws
+ * - continue: pass the event on unchanged
+ * - drop: discard the event
+ */
+export type StageErrorPolicy = 'continue' | 'drop';
+
+/**
+ * Options shared by every stage definition
+ */
+interface StageOptions {
+  name: string;
+  sources: string[] | '*';
+  order?: number;
+  onError?: StageErrorPolicy;
+}
+
+/**
+ * Declarative processing stage definition
+ */
+export type StageDefinition =
+  | (StageOptions & { kind: 'enrich'; stage: ProcessorStage<DataEvent, Record<string, any>> })
+  | (StageOptions & { kind: 'filter'; stage: ProcessorStage<DataEvent, boolean> })
+  | (StageOptions & { kind: 'transform'; stage: ProcessorStage<DataEvent, DataEvent | null> });
+
+/**
+ * Metrics for a single stage
+ */
+export interface StageMetrics {
+  name: string;
+  kind: StageKind;
+  order: number;
+  processed: number;
+  passed: number;
+  dropped: number;
+  errors: number;
+  averageTimeMs: number;
+  lastError?: string;
+}
+
+/**
+ * Registered stage with its metrics
+ */
+interface RegisteredStage {
+  definition: StageDefinition;
+  order: number;
+  sequence: number;
+  metrics: StageMetrics;
+  totalTimeMs: number;
+}
+
+/**
+ * Default order for stages registered without one
+ */
+const DEFAULT_STAGE_ORDER = 100;
+
+/**
+ * Ordered pipeline of per-source processing stages
+ *
+ * Stages run in ascending `order` (ties keep registration order) and only for
+ * events whose source they were registered for. Each stage is isolated: its
+ * errors are handled according to its own policy and counted in its metrics.
+ */
+export class StagePipeline {
+  private stages: RegisteredStage[] = [];
+  private sequence = 0;
+  private logger: Logger;
+
+  /**
+   * Create a new stage pipeline
+   */
+  constructor() {
+    this.logger = new Logger('StagePipeline');
+  }
+
+  /**
+   * Register a processing stage
+   * @param definition Stage definition
+   */
+  register(definition: StageDefinition): void {
+    if (this.stages.some(stage => stage.definition.name === definition.name)) {
+      throw new Error(`Stage ${definition.name} is already registered`);
+    }
+
+    const order = definition.order ?? DEFAULT_STAGE_ORDER;
+
+    this.stages.push({
+      definition,
+      order,
+      sequence: this.sequence++,
+      totalTimeMs: 0,
+      metrics: {
+        name: definition.name,
+        kind: definition.kind,
+        order,
+        processed: 0,
+        passed: 0,
+        dropped: 0,
+        errors: 0,
+        averageTimeMs: 0,
+      },
+    });
+
+    this.stages.sort((a, b) => a.order - b.order || a.sequence - b.sequence);
+    this.logger.info(`Registered ${definition.kind} stage ${definition.name} (order ${order})`);
+  }
+
+  /**
+   * Remove a processing stage
+   * @param name Stage name
+   * @returns True if the stage was registered
+   */
+  unregister(name: string): boolean {
+    const initialLength = this.stages.length;
+    this.stages = this.stages.filter(stage => stage.definition.name !== name);
+    return this.stages.length < initialLength;
+  }
+
+  /**
+   * Run an event through every stage registered for its source
+   * @param event Data event
+   * @returns The processed event, or null if a stage dropped it
+   */
+  async process(event: DataEvent): Promise<DataEvent | null> {
+    let current: DataEvent | null = event;
+
+    for (const registered of this.stages) {
+      if (!current) {
+        break;
+      }
+
+      if (!this.appliesTo(registered.definition, current.source)) {
+        continue;
+      }
+
+      current = await this.runStage(registered, current);
+    }
+
+    return current;
+  }
+
+  /**
+   * Get metrics for every registered stage, in execution order
+   */
+  getMetrics(): StageMetrics[] {
+    return this.stages.map(stage => ({ ...stage.metrics }));
+  }
+
+  /**
+   * Run a single stage and record its metrics
+   * @param registered Registered stage
+   * @param event Data event
+   * @returns The resulting event, or null if it was dropped
+   * @private
+   */
+  private async runStage(registered: RegisteredStage, event: DataEvent): Promise<DataEvent | null> {
+    const { definition, metrics } = registered;
+    const startTime = Date.now();
+    let result: DataEvent | null;
+
+    try {
+      result = await this.applyStage(definition, event);
+    } catch (error) {
+      metrics.errors++;
+      metrics.lastError = (error as Error).message;
+      this.logger.error(`Stage ${definition.name} failed for ${event.source} event:`, error);
+      result = (definition.onError || 'continue') === 'continue' ? event : null;
+    }
+
+    metrics.processed++;
+    if (result) {
+      metrics.passed++;
+    } else {
+      metrics.dropped++;
+    }
+
+    registered.totalTimeMs += Date.now() - startTime;
+    metrics.averageTimeMs = registered.totalTimeMs / metrics.processed;
+
+    return result;
+  }
+
+  /**
+   * Apply a stage according to its kind
+   * @param definition Stage definition
+   * @param event Data event
+   * @private
+   */
+  private async applyStage(definition: StageDefinition, event: DataEvent): Promise<DataEvent | null> {
+    switch (definition.kind) {
+      case 'enrich': {
+        const fields = await definition.stage(event);
+        return { ...event, payload: { ...event.payload, ...fields } };
+      }
+      case 'filter':
+        return (await definition.stage(event)) ? event : null;
+      case 'transform':
+        return definition.stage(event);
+    }
+  }
+
+  /**
+   * Check whether a stage applies to a source
+   * @param definition Stage definition
+   * @param source Data source name
+   * @private
+   */
+  private appliesTo(definition: StageDefinition, source: string): boolean {
+    return definition.sources === '*' || definition.sources.includes(source);
+  }
+}
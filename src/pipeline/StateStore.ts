@@ -0,0 +1,244 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MongoClient, Collection } from 'mongodb';
+import Redis from 'ioredis';
+import config from '../config';
+import { GridCellData } from '../schemas/DataModels';
+import { DriverState } from './DriverSupplyTracker';
+import { WindowerSnapshot } from './EventTimeWindowing';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Current snapshot format version
+ */
+export const SNAPSHOT_VERSION = 2;
+
+/**
+ * Checkpointed stream processor state
+ */
+export interface PipelineSnapshot {
+  version: number;
+  createdAt: string;
+  gridCells: GridCellData[];
+  drivers: DriverState[];
+  // Demand bucket counts per cell, as [bucketStart, count] pairs
+  demand: Record<string, [number, number][]>;
+  windows: WindowerSnapshot;
+  // Source offsets per connector name, consistent with the state above
+  offsets: Record<string, Record<string, string>>;
+}
+
+/**
+ * Supported state store backends
+ */
+export type StateStoreType = 'file' | 'mongo' | 'redis' | 'none';
+
+/**
+ * State store options
+ */
+export interface StateStoreOptions {
+  store: StateStoreType;
+  filePath: string;
+  mongoCollection: string;
+  redisKey: string;
+}
+
+/**
+ * Pluggable store for stream processor snapshots
+ */
+export interface StateStore {
+  /**
+   * Connect to the backing store
+   */
+  connect(): Promise<void>;
+
+  /**
+   * Disconnect from the backing store
+   */
+  disconnect(): Promise<void>;
+
+  /**
+   * Save a snapshot, replacing the previous one
+   * @param snapshot Pipeline snapshot
+   */
+  save(snapshot: PipelineSnapshot): Promise<void>;
+
+  /**
+   * Load the latest snapshot
+   * @returns The latest snapshot, or null if none has been saved
+   */
+  load(): Promise<PipelineSnapshot | null>;
+}
+
+/**
+ * State store that keeps the latest snapshot in a local JSON file
+ */
+export class FileStateStore implements StateStore {
+  /**
+   * Create a new file state store
+   * @param filePath Path of the snapshot file
+   */
+  constructor(private readonly filePath: string) {}
+
+  async connect(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+  }
+
+  async disconnect(): Promise<void> {
+    // Nothing to release
+  }
+
+  async save(snapshot: PipelineSnapshot): Promise<void> {
+    // Write to a temporary file first so a crash never leaves a partial snapshot
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(snapshot));
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+
+  async load(): Promise<PipelineSnapshot | null> {
+    try {
+      const contents = await fs.promises.readFile(this.filePath, 'utf8');
+      return JSON.parse(contents) as PipelineSnapshot;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * State store that keeps the latest snapshot in a MongoDB collection
+ */
+export class MongoStateStore implements StateStore {
+  private client: MongoClient | null = null;
+  private collection: Collection<any> | null = null;
+
+  /**
+   * Create a new MongoDB state store
+   * @param collectionName Collection holding the snapshot
+   * @param snapshotId Document ID of the snapshot
+   */
+  constructor(
+    private readonly collectionName: string,
+    private readonly snapshotId: string = 'stream-processor'
+  ) {}
+
+  async connect(): Promise<void> {
+    this.client = await MongoClient.connect(config.mongodb.uri);
+    this.collection = this.client.db().collection(this.collectionName);
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.client) {
+      await this.client.close();
+      this.client = null;
+      this.collection = null;
+    }
+  }
+
+  async save(snapshot: PipelineSnapshot): Promise<void> {
+    await this.getCollection().replaceOne(
+      { _id: this.snapshotId },
+      { _id: this.snapshotId, ...snapshot },
+      { upsert: true }
+    );
+  }
+
+  async load(): Promise<PipelineSnapshot | null> {
+    const document = await this.getCollection().findOne({ _id: this.snapshotId });
+    if (!document) {
+      return null;
+    }
+
+    const { _id, ...snapshot } = document;
+    return snapshot as PipelineSnapshot;
+  }
+
+  /**
+   * Get the snapshot collection
+   * @private
+   */
+  private getCollection(): Collection<any> {
+    if (!this.collection) {
+      throw new Error('MongoDB state store is not connected');
+    }
+    return this.collection;
+  }
+}
+
+/**
+ * State store that keeps the latest snapshot under a Redis key
+ */
+export class RedisStateStore implements StateStore {
+  private client: Redis | null = null;
+  private logger = new Logger('RedisStateStore');
+
+  /**
+   * Create a new Redis state store
+   * @param key Redis key holding the snapshot
+   */
+  constructor(private readonly key: string) {}
+
+  async connect(): Promise<void> {
+    this.client = new Redis({
+      host: config.redis.host,
+      port: config.redis.port,
+      password: config.redis.password || undefined,
+    });
+
+    // ioredis keeps reconnecting; failed saves and loads reject on their own
+    this.client.on('error', error => this.logger.error('Redis state store connection error:', error));
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.client) {
+      await this.client.quit();
+      this.client = null;
+    }
+  }
+
+  async save(snapshot: PipelineSnapshot): Promise<void> {
+    await this.getClient().set(this.key, JSON.stringify(snapshot));
+  }
+
+  async load(): Promise<PipelineSnapshot | null> {
+    const contents = await this.getClient().get(this.key);
+    return contents ? JSON.parse(contents) as PipelineSnapshot : null;
+  }
+
+  /**
+   * Get the Redis client
+   * @private
+   */
+  private getClient(): Redis {
+    if (!this.client) {
+      throw new Error('Redis state store is not connected');
+    }
+    return this.client;
+  }
+}
+
+/**
+ * Create the state store configured for the pipeline
+ * @param options State store options
+ * @returns State store, or null if checkpointing is disabled
+ */
+export function createStateStore(options: StateStoreOptions = config.pipeline.checkpoint): StateStore | null {
+  const logger = new Logger('StateStore');
+
+  switch (options.store) {
+    case 'file':
+      return new FileStateStore(options.filePath);
+    case 'mongo':
+      return new MongoStateStore(options.mongoCollection);
+    case 'redis':
+      return new RedisStateStore(options.redisKey);
+    case 'none':
+      return null;
+    default:
+      logger.warn(`Unknown state store type ${options.store}, checkpointing is disabled`);
+      return null;
+  }
+}
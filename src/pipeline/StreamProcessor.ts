@@ -1,10 +1,33 @@
-import { Subject, Observable, Subscription, merge } from 'rxjs';
-import { filter, map, buffer, debounceTime, mergeMap, groupBy, bufferTime, tap } from 'rxjs/operators';
+import { Subject, Observable, Subscription, interval, from } from 'rxjs';
+import { concatMap, tap } from 'rxjs/operators';
 import { DataEvent, DataSourceConnector } from '../connectors/DataSourceConnector';
-import { RideRequestData, WeatherData, TrafficData, EventData, GridCellData, GeoLocation } from '../schemas/DataModels';
+import { RideRequestData, WeatherData, TrafficData, EventData, SocialBuzzData, TransitDisruptionData, AirportDemandData, GridCellData, GeoLocation, BaseData, DemandWindow } from '../schemas/DataModels';
 import config from '../config';
 import * as GeospatialUtils from '../utils/GeospatialUtils';
 import { Kafka, Producer } from 'kafkajs';
+import { EventTimeWindower, LateEvent, WindowResult } from './EventTimeWindowing';
+import { DriverSupplyTracker } from './DriverSupplyTracker';
+import { DemandTracker, getDemandForWindow } from './DemandTracker';
+import { DriverLocation } from '../connectors/DriverLocationConnector';
+import { RideRequest } from '../connectors/RideRequestConnector';
+import { StagePipeline, StageDefinition, StageMetrics } from './StagePipeline';
+import { DeadLetterQueue, DeadLetterEntry } from '../utils/DeadLetterQueue';
+import { StateStore, PipelineSnapshot, SNAPSHOT_VERSION, createStateStore } from './StateStore';
+import { BoundedQueue, QueueMetrics } from './BoundedQueue';
+import { KafkaBatchPublisher, ConsumerGroupOffsets, PUBLISH_REPLAY_ROUTE } from './KafkaBatchPublisher';
+import { MessageSerializer } from '../utils/MessageSerializer';
+import { H3Partitioner } from '../kafka/H3Partitioner';
+import { TopicReader } from '../kafka/TopicReader';
+import { SourceRouter, SourceHandler, ANY_SOURCE } from './SourceRouter';
+import { EventDeduplicator, DedupMetrics } from '../utils/EventDeduplicator';
+import { EventRecorder } from './EventRecorder';
+import { OffsetTracker } from './OffsetTracker';
+import { GridDemandSupplyData } from '../types';
+
+/**
+ * Dead-letter route of events rejected before entering the pipeline, replayed by queueing them for ingress again
+ */
+const INGRESS_REPLAY_ROUTE = 'ingress';
 
 /**
  * Stream processor options
@@ -21,6 +44,15 @@ export interface StreamProcessorOptions {
  */
 export type ProcessorStage<T, R> = (data: T) => Promise<R>;
 
+/**
+ * Kafka route for raw events from a data source
+ */
+interface SourceRoute {
+  source: string;
+  topic: string;
+  getKey: (payload: any) => string;
+}
+
 /**
  * Stream processor for handling data from multiple connectors
  */
@@ -32,6 +64,67 @@ export class StreamProcessor {
   private producer: Producer;
   private isRunning = false;
   private gridCells = new Map<string, GridCellData>();
+  private windower: EventTimeWindower;
+  private supplyTracker: DriverSupplyTracker;
+  private demandTracker: DemandTracker;
+  private lateEventSubject = new Subject<LateEvent>();
+  private subscriptions: Subscription[] = [];
+  private connectorSubscriptions = new Map<DataSourceConnector, Subscription>();
+  private stagePipeline = new StagePipeline();
+  private deadLetterQueue: DeadLetterQueue;
+  private stateStore: StateStore | null;
+  private publisher: KafkaBatchPublisher;
+  private ingressQueues = new Map<string, BoundedQueue<DataEvent>>();
+  private processedSubject = new Subject<DataEvent>();
+  private isDraining = false;
+  private router: SourceRouter;
+  private deduplicator = new EventDeduplicator();
+  private recorder: EventRecorder | null;
+  private offsetTracker = new OffsetTracker();
+  private serializer = new MessageSerializer();
+  private partitioner = new H3Partitioner();
+  private sourceRoutes: SourceRoute[] = [
+    {
+      source: 'ride-request-api',
+      topic: config.kafka.topics.locationData,
+      getKey: (rideRequest: RideRequestData) => rideRequest.requestId,
+    },
+    {
+      source: 'driver-location-service',
+      topic: config.kafka.topics.driverLocations,
+      getKey: (driverLocation: DriverLocation) => driverLocation.driverId,
+    },
+    {
+      source: 'weather-api',
+      topic: config.kafka.topics.locationData,
+      getKey: (weatherData: WeatherData) => `${weatherData.location.latitude},${weatherData.location.longitude}`,
+    },
+    {
+      source: 'traffic-api',
+      topic: config.kafka.topics.locationData,
+      getKey: (trafficData: TrafficData) => `${trafficData.location.latitude},${trafficData.location.longitude}`,
+    },
+    {
+      source: 'events-api',
+      topic: config.kafka.topics.locationData,
+      getKey: (eventData: EventData) => eventData.id,
+    },
+    {
+      source: 'social-api',
+      topic: config.kafka.topics.locationData,
+      getKey: (socialBuzz: SocialBuzzData) => socialBuzz.h3Index,
+    },
+    {
+      source: 'transit-gtfs-rt',
+      topic: config.kafka.topics.locationData,
+      getKey: (disruption: TransitDisruptionData) => disruption.id,
+    },
+    {
+      source: 'flights-api',
+      topic: config.kafka.topics.locationData,
+      getKey: (airportDemand: AirportDemandData) => airportDemand.id,
+    },
+  ];
 
   /**
    * Create a new stream processor
@@ -43,15 +136,93 @@ export class StreamProcessor {
       brokers: config.kafka.brokers,
     });
     
-    this.producer = this.kafka.producer();
+    // Partition messages by area so per-area state stays on one consumer
+    this.producer = this.kafka.producer({
+      createPartitioner: this.partitioner.createPartitioner,
+      ...(config.kafka.transactions.enabled && {
+        transactionalId: `${config.kafka.transactions.transactionalIdPrefix}-stream-processor`,
+        idempotent: true,
+        maxInFlightRequests: 1,
+      }),
+    });
+
+    // Initialize event-time windowing
+    this.windower = new EventTimeWindower(config.pipeline.windowing);
+    
+    // Initialize driver supply tracking
+    this.supplyTracker = new DriverSupplyTracker({
+      ...config.pipeline.supply,
+      rollupResolutions: config.h3.rollupResolutions,
+    });
+    
+    // Initialize time-decayed demand tracking
+    this.demandTracker = new DemandTracker(config.pipeline.demand);
+    
+    // Record ingested events for later replay, if enabled
+    this.recorder = config.pipeline.recording.enabled ? new EventRecorder(config.pipeline.recording) : null;
+    
+    // Initialize dead-lettering for failed Kafka sends, published through the batch publisher's producer
+    this.deadLetterQueue = new DeadLetterQueue(
+      (topic, key, entry) => this.publisher.sendNow(topic, key, entry)
+    );
+    this.deadLetterQueue.setReplayHandler(PUBLISH_REPLAY_ROUTE, entry => this.replayDeadLetter(entry));
+    this.deadLetterQueue.setReplayHandler(INGRESS_REPLAY_ROUTE, entry => this.replayIngressEvent(entry));
+    
+    // Batch Kafka sends through bounded per-topic queues
+    this.publisher = new KafkaBatchPublisher(this.producer, this.deadLetterQueue, {
+      maxBatchSize: config.pipeline.maxBatchSize,
+      lingerMs: config.pipeline.backpressure.publishLingerMs,
+      queueCapacity: config.pipeline.backpressure.publishQueueCapacity,
+      transactional: config.kafka.transactions.enabled,
+    }, this.serializer, this.partitioner);
+    this.publisher.setOffsetsProvider(() => this.getCommittableOffsets());
+    
+    // Initialize checkpointing of grid cell state
+    this.stateStore = createStateStore();
+    
+    // Route events by source, in order per H3 cell
+    this.router = new SourceRouter(event => this.getEventH3Index(event) ?? event.source);
+    this.registerSourceHandlers();
   }
 
   /**
    * Add a data source connector to the processor
    * @param connector Data source connector
    */
-  addConnector(connector: DataSourceConnector): void {
+  async addConnector(connector: DataSourceConnector): Promise<void> {
     this.connectors.push(connector);
+    
+    // Start consuming straight away if the processor is already running
+    if (this.isRunning) {
+      await connector.connect();
+      this.subscribeToConnector(connector);
+    }
+  }
+
+  /**
+   * Remove a data source connector from the processor
+   * @param connector Data source connector
+   * @returns True if the connector had been added
+   */
+  async removeConnector(connector: DataSourceConnector): Promise<boolean> {
+    const index = this.connectors.indexOf(connector);
+    if (index === -1) {
+      return false;
+    }
+    
+    this.connectors.splice(index, 1);
+    
+    const subscription = this.connectorSubscriptions.get(connector);
+    if (subscription) {
+      subscription.unsubscribe();
+      this.connectorSubscriptions.delete(connector);
+    }
+    
+    if (connector.isConnected()) {
+      await connector.disconnect();
+    }
+    
+    return true;
   }
 
   /**
@@ -64,20 +235,31 @@ export class StreamProcessor {
     }
 
     try {
+      // Restore state from the latest checkpoint before consuming anything
+      await this.restoreCheckpoint();
+      
+      // Rebuild the dead-letter index so earlier failures can still be inspected and replayed
+      await this.restoreDeadLetters();
+      
       // Connect all data source connectors
       await Promise.all(this.connectors.map(connector => connector.connect()));
       
       // Connect to Kafka
       await this.producer.connect();
       
-      // Create combined stream from all connectors
-      this.combinedStream = merge(
-        ...this.connectors.map(connector => connector.getStream())
-      );
+      // Combined stream of events that have been through the registered stages;
+      // the subject multicasts, so connectors are consumed exactly once
+      this.combinedStream = this.processedSubject.asObservable();
       
       // Process the combined stream
       this.processCombinedStream();
       
+      // Feed every connector into its bounded ingress queue
+      this.connectors.forEach(connector => this.subscribeToConnector(connector));
+      
+      // Periodically checkpoint state
+      this.scheduleCheckpoints();
+      
       this.isRunning = true;
       console.log('Stream processor started');
     } catch (error) {
@@ -96,9 +278,30 @@ export class StreamProcessor {
     }
 
     try {
+      // Tear down stream subscriptions
+      this.subscriptions.forEach(subscription => subscription.unsubscribe());
+      this.subscriptions = [];
+      this.connectorSubscriptions.forEach(subscription => subscription.unsubscribe());
+      this.connectorSubscriptions.clear();
+      
+      // Finish handling routed events, then send everything still queued for Kafka
+      await this.router.drain();
+      await this.publisher.flush();
+      
+      if (this.recorder) {
+        await this.recorder.close();
+      }
+      
+      // Take a final checkpoint so a restart resumes from here
+      await this.checkpoint();
+      
       // Disconnect all data source connectors
       await Promise.all(this.connectors.map(connector => connector.disconnect()));
       
+      if (this.stateStore) {
+        await this.stateStore.disconnect();
+      }
+      
       // Disconnect from Kafka
       await this.producer.disconnect();
       
@@ -110,6 +313,120 @@ export class StreamProcessor {
     }
   }
 
+  /**
+   * Feed a connector's stream into its bounded ingress queue, and quarantine its rejected events if configured
+   * @param connector Data source connector
+   * @private
+   */
+  private subscribeToConnector(connector: DataSourceConnector): void {
+    const subscription = connector.getStream().subscribe(event => this.enqueue(event));
+    
+    // Keep events that failed ingress validation for inspection
+    if (connector.getRejectedStream && config.pipeline.validation.mode === 'quarantine') {
+      subscription.add(connector.getRejectedStream().subscribe(({ event, errors }) => {
+        this.deadLetterEvent(event, new Error(`Schema validation failed: ${errors.join('; ')}`));
+      }));
+    }
+    
+    this.connectorSubscriptions.set(connector, subscription);
+  }
+
+  /**
+   * Register a handler for events from a data source
+   * @param source Data source name, or '*' for every source
+   * @param handler Event handler, called in order for events in the same H3 cell
+   * @returns Function that removes the handler
+   */
+  onSource<T>(source: string, handler: SourceHandler<T>): () => void {
+    return this.router.on(source, handler);
+  }
+
+  /**
+   * Register a processing stage applied to events before routing and aggregation
+   * @param definition Stage definition
+   */
+  registerStage(definition: StageDefinition): void {
+    this.stagePipeline.register(definition);
+  }
+
+  /**
+   * Remove a processing stage
+   * @param name Stage name
+   * @returns True if the stage was registered
+   */
+  unregisterStage(name: string): boolean {
+    return this.stagePipeline.unregister(name);
+  }
+
+  /**
+   * Get per-stage processing metrics
+   */
+  getStageMetrics(): StageMetrics[] {
+    return this.stagePipeline.getMetrics();
+  }
+
+  /**
+   * Write a snapshot of grid cell state and the source offsets it covers
+   */
+  async checkpoint(): Promise<void> {
+    if (!this.stateStore) {
+      return;
+    }
+    
+    const snapshot: PipelineSnapshot = {
+      version: SNAPSHOT_VERSION,
+      createdAt: new Date().toISOString(),
+      gridCells: Array.from(this.gridCells.values()),
+      drivers: this.supplyTracker.snapshot(),
+      demand: this.demandTracker.snapshot(),
+      windows: this.windower.snapshot(),
+      offsets: {},
+    };
+    
+    // Resume before events still queued for ingress, which are in neither the grid cells nor the windows
+    for (const connector of this.connectors) {
+      if (connector.getCheckpointOffsets) {
+        snapshot.offsets[connector.getMetadata().name] = this.offsetTracker.getCommittableOffsets(connector.getCheckpointOffsets());
+      }
+    }
+    
+    try {
+      await this.stateStore.save(snapshot);
+    } catch (error) {
+      console.error('Error saving stream processor checkpoint:', error);
+    }
+  }
+
+  /**
+   * Get queue depth metrics for ingress (per source) and Kafka publishing (per topic)
+   */
+  getQueueMetrics(): { ingress: Record<string, QueueMetrics>; publish: Record<string, QueueMetrics> } {
+    const ingress: Record<string, QueueMetrics> = {};
+    
+    for (const [source, queue] of this.ingressQueues.entries()) {
+      ingress[source] = queue.getMetrics();
+    }
+    
+    return {
+      ingress,
+      publish: this.publisher.getMetrics(),
+    };
+  }
+
+  /**
+   * Get deduplication metrics per source
+   */
+  getDedupMetrics(): Record<string, DedupMetrics> {
+    return this.deduplicator.getMetrics();
+  }
+
+  /**
+   * Get the dead-letter queue for events that failed to publish
+   */
+  getDeadLetterQueue(): DeadLetterQueue {
+    return this.deadLetterQueue;
+  }
+
   /**
    * Get the stream of grid cell data
    */
@@ -118,358 +435,589 @@ export class StreamProcessor {
   }
 
   /**
-   * Process the combined stream of data events
+   * Get the side output of events that arrived after their windows closed
+   */
+  getLateEventStream(): Observable<LateEvent> {
+    return this.lateEventSubject.asObservable();
+  }
+
+  /**
+   * Get the current event-time watermarks
+   * @returns Combined watermark and per-source watermarks
+   */
+  getWatermarks(): { watermark: string | null; sources: Record<string, string> } {
+    const watermark = this.windower.getWatermark();
+    
+    return {
+      watermark: Number.isFinite(watermark) ? new Date(watermark).toISOString() : null,
+      sources: this.windower.getSourceWatermarks(),
+    };
+  }
+
+  /**
+   * Restore grid cells, driver supply, demand, open windows and connector offsets from the latest checkpoint
    * @private
    */
-  private processCombinedStream(): void {
-    if (!this.combinedStream) {
-      throw new Error('Combined stream is not initialized');
+  private async restoreCheckpoint(): Promise<void> {
+    if (!this.stateStore) {
+      return;
     }
-
-    // Process ride request events
-    this.processRideRequests();
     
-    // Process weather events
-    this.processWeatherData();
+    await this.stateStore.connect();
     
-    // Process traffic events
-    this.processTrafficData();
+    const snapshot = await this.stateStore.load();
+    if (!snapshot) {
+      console.log('No stream processor checkpoint found, starting with empty state');
+      return;
+    }
     
-    // Process event events
-    this.processEventData();
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      console.warn(`Ignoring stream processor checkpoint with unsupported version ${snapshot.version}`);
+      return;
+    }
     
-    // Aggregate data by H3 grid cell
-    this.aggregateByGridCell();
+    snapshot.gridCells.forEach(gridCell => this.gridCells.set(gridCell.h3Index, gridCell));
+    this.supplyTracker.restore(snapshot.drivers);
+    this.demandTracker.restore(snapshot.demand);
+    this.windower.restore(snapshot.windows);
+    
+    // Events in the restored windows are consumed again from the checkpoint offsets, but must not be counted twice
+    this.offsetTracker.markRestored(
+      snapshot.windows.windows.flatMap(window => window.events),
+      Object.assign({}, ...Object.values(snapshot.offsets))
+    );
+    
+    for (const connector of this.connectors) {
+      const offsets = snapshot.offsets[connector.getMetadata().name];
+      if (offsets && connector.restoreOffsets) {
+        connector.restoreOffsets(offsets);
+      }
+    }
+    
+    console.log(`Restored stream processor checkpoint from ${snapshot.createdAt} (${snapshot.gridCells.length} grid cells)`);
   }
 
   /**
-   * Process ride request events
+   * Rebuild the dead-letter index from the DLQ topic
+   *
+   * The pipeline starts without it if the topic cannot be read; new failures are still indexed.
    * @private
    */
-  private processRideRequests(): void {
-    if (!this.combinedStream) {
-      throw new Error('Combined stream is not initialized');
+  private async restoreDeadLetters(): Promise<void> {
+    try {
+      const messages = await new TopicReader(this.kafka).readAll(config.kafka.topics.deadLetter);
+      this.deadLetterQueue.restore(
+        messages
+          .filter(message => message.value)
+          .map(message => this.serializer.deserialize<DeadLetterEntry>(message.value!))
+      );
+    } catch (error) {
+      console.error('Failed to restore dead-letter entries:', error);
     }
-
-    this.combinedStream.pipe(
-      // Filter for ride request events
-      filter(event => event.source === 'ride-request-api'),
-      
-      // Map to ride request data
-      map(event => event.payload as RideRequestData),
-      
-      // Send to Kafka
-      tap(async (rideRequest) => {
-        try {
-          await this.producer.send({
-            topic: config.kafka.topics.locationData,
-            messages: [
-              {
-                key: rideRequest.requestId,
-                value: JSON.stringify(rideRequest),
-              },
-            ],
-          });
-        } catch (error) {
-          console.error('Error sending ride request to Kafka:', error);
-        }
-      })
-    ).subscribe();
   }
 
   /**
-   * Process weather data events
+   * Schedule periodic checkpoints
    * @private
    */
-  private processWeatherData(): void {
-    if (!this.combinedStream) {
-      throw new Error('Combined stream is not initialized');
+  private scheduleCheckpoints(): void {
+    if (!this.stateStore) {
+      return;
     }
-
-    this.combinedStream.pipe(
-      // Filter for weather events
-      filter(event => event.source === 'weather-api'),
-      
-      // Map to weather data
-      map(event => event.payload as WeatherData),
-      
-      // Send to Kafka
-      tap(async (weatherData) => {
-        try {
-          await this.producer.send({
-            topic: config.kafka.topics.locationData,
-            messages: [
-              {
-                key: `${weatherData.location.latitude},${weatherData.location.longitude}`,
-                value: JSON.stringify(weatherData),
-              },
-            ],
-          });
-        } catch (error) {
-          console.error('Error sending weather data to Kafka:', error);
-        }
-      })
-    ).subscribe();
+    
+    this.subscriptions.push(interval(config.pipeline.checkpoint.intervalMs).pipe(
+      concatMap(() => from(this.checkpoint()))
+    ).subscribe());
   }
 
   /**
-   * Process traffic data events
+   * Queue an incoming event in its source's bounded ingress queue, unless it is a duplicate
+   * @param event Data event
    * @private
    */
-  private processTrafficData(): void {
-    if (!this.combinedStream) {
-      throw new Error('Combined stream is not initialized');
+  private enqueue(event: DataEvent): void {
+    // Skip events consumed again that the restored windows already hold
+    if (this.offsetTracker.takeRestored(event)) {
+      return;
     }
-
-    this.combinedStream.pipe(
-      // Filter for traffic events
-      filter(event => event.source === 'traffic-api'),
-      
-      // Map to traffic data
-      map(event => event.payload as TrafficData),
-      
-      // Send to Kafka
-      tap(async (trafficData) => {
-        try {
-          await this.producer.send({
-            topic: config.kafka.topics.locationData,
-            messages: [
-              {
-                key: `${trafficData.location.latitude},${trafficData.location.longitude}`,
-                value: JSON.stringify(trafficData),
-              },
-            ],
-          });
-        } catch (error) {
-          console.error('Error sending traffic data to Kafka:', error);
-        }
-      })
-    ).subscribe();
+    
+    // Record the merged stream as received, before anything is dropped
+    this.recorder?.record(event);
+    
+    // Drop replays and events re-emitted by overlapping polls
+    if (this.deduplicator.isDuplicate(event.source, event.payload)) {
+      return;
+    }
+    
+    // Keep the event's offset from being committed until its windows are emitted
+    this.offsetTracker.hold(event);
+    this.offer(event);
   }
 
   /**
-   * Process event data events
+   * Queue an event in its source's bounded ingress queue and drain the queues
+   * @param event Data event
    * @private
    */
-  private processEventData(): void {
-    if (!this.combinedStream) {
-      throw new Error('Combined stream is not initialized');
-    }
-
-    this.combinedStream.pipe(
-      // Filter for event events
-      filter(event => event.source === 'events-api'),
-      
-      // Map to event data
-      map(event => event.payload as EventData),
+  private offer(event: DataEvent): void {
+    let queue = this.ingressQueues.get(event.source);
+    
+    if (!queue) {
+      const { queueCapacity, defaultOverflowPolicy, overflowPolicies } = config.pipeline.backpressure;
       
-      // Send to Kafka
-      tap(async (eventData) => {
-        try {
-          await this.producer.send({
-            topic: config.kafka.topics.locationData,
-            messages: [
-              {
-                key: eventData.id,
-                value: JSON.stringify(eventData),
-              },
-            ],
-          });
-        } catch (error) {
-          console.error('Error sending event data to Kafka:', error);
-        }
-      })
-    ).subscribe();
+      queue = new BoundedQueue<DataEvent>(
+        queueCapacity,
+        overflowPolicies[event.source] || defaultOverflowPolicy,
+        overflowed => this.deadLetterEvent(overflowed, new Error(`Ingress queue for ${overflowed.source} is full`)),
+        dropped => this.offsetTracker.release(dropped)
+      );
+      this.ingressQueues.set(event.source, queue);
+    }
+    
+    queue.offer(event);
+    this.drainIngressQueues().catch(error => {
+      console.error('Error draining stream processor ingress queues:', error);
+    });
   }
 
   /**
-   * Aggregate data by H3 grid cell
+   * Drain the ingress queues through the stage pipeline, one event per source in turn
    * @private
    */
-  private aggregateByGridCell(): void {
-    if (!this.combinedStream) {
-      throw new Error('Combined stream is not initialized');
+  private async drainIngressQueues(): Promise<void> {
+    if (this.isDraining) {
+      return;
     }
-
-    // Process all events and group by H3 index
-    this.combinedStream.pipe(
-      // Filter for events with H3 index
-      filter(event => event.payload.h3Index !== undefined),
-      
-      // Group by H3 index
-      groupBy(event => event.payload.h3Index as string),
+    
+    this.isDraining = true;
+    
+    try {
+      let hasEvents = true;
       
-      // Process each group
-      mergeMap(group => group.pipe(
-        // Buffer events for each grid cell
-        bufferTime(config.pipeline.intervalMs),
+      while (hasEvents) {
+        hasEvents = false;
         
-        // Process buffered events
-        map(events => {
-          if (events.length === 0) return null;
-          
-          const h3Index = events[0].payload.h3Index as string;
-          
-          // Get or create grid cell data
-          let gridCell = this.gridCells.get(h3Index);
-          if (!gridCell) {
-            gridCell = {
-              h3Index,
-              centerPoint: this.h3ToCenterPoint(h3Index),
-              timestamp: new Date().toISOString(),
-              rideRequests: 0,
-              activeDrivers: 0,
-            };
-            this.gridCells.set(h3Index, gridCell);
+        for (const queue of this.ingressQueues.values()) {
+          const event = queue.poll();
+          if (!event) {
+            continue;
           }
           
-          // Update grid cell data with new events
-          for (const event of events) {
-            if (event.source === 'ride-request-api') {
-              gridCell.rideRequests++;
-            } else if (event.source === 'weather-api') {
-              gridCell.weatherData = event.payload as WeatherData;
-            } else if (event.source === 'traffic-api') {
-              gridCell.trafficData = event.payload as TrafficData;
-            } else if (event.source === 'events-api') {
-              gridCell.nearbyEvents = event.payload as EventData[];
-            }
-          }
+          hasEvents = true;
           
-          gridCell.timestamp = new Date().toISOString();
+          const processed = await this.stagePipeline.process(event);
           
-          // Create grid cell data
-          const gridCellData: GridCellData = {
-            h3Index,
-            centerPoint: gridCell.centerPoint,
-            timestamp: gridCell.timestamp,
-            rideRequests: gridCell.rideRequests,
-            activeDrivers: gridCell.activeDrivers,
-            weatherData: gridCell.weatherData,
-            trafficData: gridCell.trafficData,
-            nearbyEvents: gridCell.nearbyEvents,
-          };
+          // Events a stage dropped, or rewrote without their Kafka position, are done with
+          if (!processed || !this.offsetTracker.isHeld(processed)) {
+            this.offsetTracker.release(event);
+          }
           
-          return gridCellData;
-        }),
-        
-        // Filter out null values
-        filter((gridCellData): gridCellData is GridCellData => gridCellData !== null)
-      ))
-    ).subscribe(gridCellData => {
-      // Emit grid cell data
-      this.gridCellSubject.next(gridCellData);
-      
-      // Send to Kafka
-      this.sendGridCellDataToKafka(gridCellData);
+          if (processed) {
+            this.processedSubject.next(processed);
+          }
+        }
+      }
+    } finally {
+      this.isDraining = false;
+    }
+  }
+
+  /**
+   * Register the built-in source handlers
+   * @private
+   */
+  private registerSourceHandlers(): void {
+    // Publish raw events from each source to its Kafka topic, unless they were consumed from it
+    for (const route of this.sourceRoutes) {
+      this.router.on(route.source, (payload, event) => {
+        if (event.metadata?.kafkaTopic !== route.topic) {
+          this.publisher.publish(route.topic, route.source, route.getKey(payload), payload);
+        }
+      });
+    }
+    
+    // Track driver positions as they arrive, so supply does not wait for windows to fire
+    this.router.on('driver-location-service', (driverLocation: DriverLocation, event) => {
+      const h3Index = this.getEventH3Index(event);
+      if (h3Index !== undefined) {
+        this.supplyTracker.update(driverLocation, h3Index, event.timestamp.getTime());
+      }
     });
+    
+    // Assign every located event to event-time windows
+    this.router.on(ANY_SOURCE, (payload, event) => this.assignToWindows(event));
   }
 
   /**
-   * Convert H3 index to center point
-   * @param h3Index H3 index
-   * @returns Center point as GeoLocation
+   * Process the combined stream of data events
    * @private
    */
-  private h3ToCenterPoint(h3Index: string): GeoLocation {
-    return GeospatialUtils.h3ToLatLng(h3Index);
+  private processCombinedStream(): void {
+    if (!this.combinedStream) {
+      throw new Error('Combined stream is not initialized');
+    }
+
+    // Single subscription that routes each event to its source handlers
+    this.subscriptions.push(this.combinedStream.subscribe(event => {
+      this.router.dispatch(event);
+    }));
+    
+    // Aggregate data by H3 grid cell
+    this.aggregateByGridCell();
   }
 
   /**
-   * Calculate the average fare multiplier for a list of ride requests
-   * @param rideRequests List of ride requests
-   * @returns Average fare multiplier
+   * Assign an event to the event-time windows of its H3 cell and the cell's
+   * parents at the configured coarser resolutions
+   * @param event Data event
    * @private
    */
-  private calculateAverageFareMultiplier(rideRequests: RideRequestData[]): number {
-    if (rideRequests.length === 0) {
-      return 1.0; // Default multiplier
+  private assignToWindows(event: DataEvent): void {
+    const h3Index = this.getEventH3Index(event);
+    if (h3Index === undefined) {
+      this.offsetTracker.release(event);
+      return;
+    }
+    
+    const lateEvent = this.windower.add(h3Index, event);
+    
+    // Route events that missed every window to the late side output
+    if (lateEvent) {
+      this.lateEventSubject.next(lateEvent);
+      this.offsetTracker.release(event);
+    } else {
+      const windows = this.windower.assignWindows(event.timestamp.getTime());
+      this.offsetTracker.holdUntil(event, windows[windows.length - 1].end);
     }
     
-    const multipliers = rideRequests
-      .filter(request => request.surgeMultiplier !== undefined)
-      .map(request => request.surgeMultiplier as number);
+    const parentIndexes = GeospatialUtils.getParentCells(h3Index, config.h3.rollupResolutions);
     
-    if (multipliers.length === 0) {
-      return 1.0; // Default multiplier
+    // Add the event to its parent cells' windows in the same pass
+    for (const parentIndex of parentIndexes) {
+      this.windower.add(parentIndex, event);
     }
     
-    return multipliers.reduce((sum, multiplier) => sum + multiplier, 0) / multipliers.length;
+    // Record demand once per request, so windows that refire for late events do not count it again
+    if (event.source === 'ride-request-api') {
+      for (const cellIndex of [h3Index, ...parentIndexes]) {
+        this.demandTracker.record(cellIndex, event.timestamp.getTime());
+      }
+    }
   }
 
   /**
-   * Send grid cell data to Kafka
-   * @param gridCellData Grid cell data
+   * Fire event-time windows as the watermark advances and aggregate them by H3 grid cell
    * @private
    */
-  private async sendGridCellDataToKafka(gridCellData: GridCellData): Promise<void> {
-    try {
-      await this.producer.send({
-        topic: config.kafka.topics.predictionResults,
-        messages: [
-          { 
-            key: gridCellData.h3Index,
-            value: JSON.stringify(gridCellData),
-          },
-        ],
-      });
-    } catch (error) {
-      console.error('Error sending grid cell data to Kafka:', error);
-    }
+  private aggregateByGridCell(): void {
+    this.subscriptions.push(interval(config.pipeline.windowing.triggerIntervalMs).pipe(
+      tap(() => this.expireStaleState())
+    ).subscribe(() => {
+      const now = Date.now();
+      
+      for (const result of this.orderByResolution(this.windower.advance(now))) {
+        const gridCellData = this.applyWindow(result);
+        
+        // Emit grid cell data
+        this.gridCellSubject.next(gridCellData);
+        
+        // Send to Kafka
+        this.sendGridCellDataToKafka(gridCellData);
+      }
+      
+      // Offsets of events whose windows have all fired can be committed once the grid cells above are sent
+      this.offsetTracker.releaseUntil(this.windower.getWatermark(now));
+    }));
   }
 
   /**
-   * Update grid cell data
-   * @param h3Index H3 index
-   * @param rideRequests Ride requests
-   * @param weatherData Weather data
-   * @param trafficData Traffic data
-   * @param eventData Event data
+   * Order fired windows so that, for each window end, finer cells are applied
+   * and emitted before their rollups
+   * @param results Fired windows
    * @private
    */
-  private updateGridCellData(
-    h3Index: string,
-    rideRequests: RideRequestData[],
-    weatherData?: WeatherData,
-    trafficData?: TrafficData,
-    eventData?: EventData[]
-  ): void {
-    // Get or create grid cell
-    let gridCell = this.gridCells.get(h3Index);
+  private orderByResolution(results: WindowResult[]): WindowResult[] {
+    return results
+      .map(result => ({ result, resolution: GeospatialUtils.getH3Resolution(result.key) }))
+      .sort((a, b) => a.result.window.end - b.result.window.end || b.resolution - a.resolution)
+      .map(({ result }) => result);
+  }
+
+  /**
+   * Apply a fired window to its grid cell
+   * @param result Fired window
+   * @returns Grid cell data for the window
+   * @private
+   */
+  private applyWindow(result: WindowResult): GridCellData {
+    const { key: h3Index, window, events } = result;
     
+    // Get or create grid cell data
+    let gridCell = this.gridCells.get(h3Index);
     if (!gridCell) {
-      // Create new grid cell
-      const centerPoint = this.h3ToCenterPoint(h3Index);
-      
       gridCell = {
         h3Index,
-        centerPoint,
-        timestamp: new Date().toISOString(),
+        resolution: GeospatialUtils.getH3Resolution(h3Index),
+        centerPoint: this.h3ToCenterPoint(h3Index),
+        timestamp: new Date(window.end).toISOString(),
         rideRequests: 0,
         activeDrivers: 0,
       };
-      
       this.gridCells.set(h3Index, gridCell);
     }
     
-    // Update grid cell data
-    gridCell.timestamp = new Date().toISOString();
-    gridCell.rideRequests = rideRequests.length;
+    // Count demand within the window and keep the newest context by event time
+    let rideRequests = 0;
+    for (const event of events) {
+      if (event.source === 'ride-request-api') {
+        rideRequests++;
+      } else if (event.source === 'weather-api') {
+        if (this.isNewer(event, gridCell.weatherData)) {
+          gridCell.weatherData = event.payload as WeatherData;
+        }
+      } else if (event.source === 'traffic-api') {
+        if (this.isNewer(event, gridCell.trafficData)) {
+          gridCell.trafficData = event.payload as TrafficData;
+        }
+      } else if (event.source === 'events-api') {
+        const eventData = event.payload as EventData;
+        gridCell.nearbyEvents = [
+          ...(gridCell.nearbyEvents || []).filter(existing => existing.id !== eventData.id),
+          eventData,
+        ];
+      } else if (event.source === 'social-api') {
+        if (this.isNewer(event, gridCell.socialBuzz)) {
+          gridCell.socialBuzz = event.payload as SocialBuzzData;
+        }
+      } else if (event.source === 'transit-gtfs-rt') {
+        const disruption = event.payload as TransitDisruptionData;
+        const existing = (gridCell.transitDisruptions || []).find(current => current.id === disruption.id);
+        if (!existing || disruption.timestamp >= existing.timestamp) {
+          gridCell.transitDisruptions = [
+            ...(gridCell.transitDisruptions || []).filter(current => current.id !== disruption.id),
+            disruption,
+          ];
+        }
+      } else if (event.source === 'flights-api') {
+        const airportDemand = event.payload as AirportDemandData;
+        const existing = (gridCell.airportDemand || []).find(current => current.id === airportDemand.id);
+        if (!existing || airportDemand.timestamp >= existing.timestamp) {
+          gridCell.airportDemand = [
+            ...(gridCell.airportDemand || []).filter(current => current.id !== airportDemand.id),
+            airportDemand,
+          ].sort((a, b) => a.bucketStart.localeCompare(b.bucketStart));
+        }
+      }
+    }
     
-    // Update weather data if provided
-    if (weatherData) {
-      gridCell.weatherData = weatherData;
+    // Drop disruptions the feeds have stopped reporting
+    if (gridCell.transitDisruptions) {
+      gridCell.transitDisruptions = gridCell.transitDisruptions.filter(
+        disruption => new Date(disruption.expiresAt).getTime() > window.end
+      );
     }
     
-    // Update traffic data if provided
-    if (trafficData) {
-      gridCell.trafficData = trafficData;
+    // Drop expected airport demand for buckets that have passed
+    if (gridCell.airportDemand) {
+      gridCell.airportDemand = gridCell.airportDemand.filter(
+        airportDemand => new Date(airportDemand.bucketEnd).getTime() > window.end
+      );
     }
     
-    // Update event data if provided
-    if (eventData && eventData.length > 0) {
-      gridCell.nearbyEvents = eventData;
+    // Derive supply from the drivers last seen in this cell as of the window end
+    const supply = this.supplyTracker.getSupply(h3Index, window.end);
+    
+    gridCell.rideRequests = rideRequests;
+    gridCell.demand = this.demandTracker.getDemand(h3Index, window.end);
+    gridCell.activeDrivers = supply.activeDrivers;
+    gridCell.supplyByVehicleType = supply.byVehicleType;
+    gridCell.timestamp = new Date(window.end).toISOString();
+    gridCell.windowStart = new Date(window.start).toISOString();
+    gridCell.windowEnd = gridCell.timestamp;
+    
+    // Create grid cell data
+    return {
+      h3Index,
+      resolution: gridCell.resolution,
+      centerPoint: gridCell.centerPoint,
+      timestamp: gridCell.timestamp,
+      windowStart: gridCell.windowStart,
+      windowEnd: gridCell.windowEnd,
+      rideRequests: gridCell.rideRequests,
+      demand: gridCell.demand,
+      activeDrivers: gridCell.activeDrivers,
+      supplyByVehicleType: gridCell.supplyByVehicleType,
+      weatherData: gridCell.weatherData,
+      trafficData: gridCell.trafficData,
+      nearbyEvents: gridCell.nearbyEvents,
+      socialBuzz: gridCell.socialBuzz,
+      transitDisruptions: gridCell.transitDisruptions,
+      airportDemand: gridCell.airportDemand,
+    };
+  }
+
+  /**
+   * Resolve the H3 index an event belongs to
+   * @param event Data event
+   * @returns H3 index, or undefined if the event has no location
+   * @private
+   */
+  private getEventH3Index(event: DataEvent): string | undefined {
+    if (event.payload.h3Index !== undefined) {
+      return event.payload.h3Index as string;
     }
+    
+    // Driver locations and ride requests carry raw coordinates
+    if (event.source === 'driver-location-service') {
+      const driverLocation = event.payload as DriverLocation;
+      return this.latLngToH3(driverLocation.latitude, driverLocation.longitude);
+    }
+    
+    if (event.source === 'ride-request-api') {
+      const rideRequest = event.payload as RideRequest;
+      if (rideRequest.pickupLatitude !== undefined && rideRequest.pickupLongitude !== undefined) {
+        return this.latLngToH3(rideRequest.pickupLatitude, rideRequest.pickupLongitude);
+      }
+    }
+    
+    return undefined;
+  }
+
+  /**
+   * Expire drivers that have not reported since the staleness threshold and
+   * demand older than the longest demand window
+   * @private
+   */
+  private expireStaleState(): void {
+    const watermark = this.windower.getWatermark();
+    
+    if (Number.isFinite(watermark)) {
+      this.supplyTracker.expire(watermark);
+      this.demandTracker.expire(watermark);
+    }
+  }
+
+  /**
+   * Check whether an event is newer than the context currently held
+   * @param event Incoming data event
+   * @param current Current context data
+   * @returns True if the event should replace the current context
+   * @private
+   */
+  private isNewer(event: DataEvent, current?: BaseData): boolean {
+    if (!current) {
+      return true;
+    }
+    
+    return event.timestamp.getTime() >= new Date(current.timestamp).getTime();
+  }
+
+  /**
+   * Convert H3 index to center point
+   * @param h3Index H3 index
+   * @returns Center point as GeoLocation
+   * @private
+   */
+  private h3ToCenterPoint(h3Index: string): GeoLocation {
+    return GeospatialUtils.h3ToLatLng(h3Index);
+  }
+
+  /**
+   * Get the offsets of the Kafka source connectors up to the first event whose windows have not been emitted, per consumer group
+   * @returns Offsets to commit with transactional batches
+   * @private
+   */
+  private getCommittableOffsets(): ConsumerGroupOffsets[] {
+    const groups = new Map<string, ConsumerGroupOffsets>();
+
+    for (const connector of this.connectors) {
+      if (!connector.getConsumerGroupId || !connector.getCheckpointOffsets) {
+        continue;
+      }
+
+      const consumerGroupId = connector.getConsumerGroupId();
+      const group = groups.get(consumerGroupId) || { consumerGroupId, topics: [] };
+
+      for (const [key, offset] of Object.entries(this.offsetTracker.getCommittableOffsets(connector.getCheckpointOffsets()))) {
+        const separator = key.lastIndexOf(':');
+        const topic = key.slice(0, separator);
+        const partition = parseInt(key.slice(separator + 1), 10);
+
+        let topicOffsets = group.topics.find(entry => entry.topic === topic);
+        if (!topicOffsets) {
+          topicOffsets = { topic, partitions: [] };
+          group.topics.push(topicOffsets);
+        }
+        topicOffsets.partitions.push({ partition, offset });
+      }
+
+      if (group.topics.length > 0) {
+        groups.set(consumerGroupId, group);
+      }
+    }
+
+    return Array.from(groups.values());
+  }
+
+  /**
+   * Send grid cell data to Kafka
+   * @param gridCellData Grid cell data
+   * @private
+   */
+  private sendGridCellDataToKafka(gridCellData: GridCellData): void {
+    this.publisher.publish(
+      config.kafka.topics.predictionResults,
+      'grid-cell-aggregator',
+      gridCellData.h3Index,
+      gridCellData
+    );
+  }
+
+  /**
+   * Dead-letter an event that did not enter the pipeline, keeping what is needed to queue it again
+   * @param event Data event
+   * @param error Why the event was rejected
+   * @private
+   */
+  private deadLetterEvent(event: DataEvent, error: Error): void {
+    this.deadLetterQueue.deadLetter(
+      { source: event.source, route: INGRESS_REPLAY_ROUTE, payload: event.payload, eventTime: event.timestamp.toISOString() },
+      error,
+      0
+    );
+  }
+
+  /**
+   * Queue a dead-lettered event for ingress again
+   *
+   * The event skips deduplication, which may already have seen it, and the
+   * connector's ingress validation: replaying it is an operator's decision.
+   * @param entry Dead-letter entry
+   * @private
+   */
+  private async replayIngressEvent(entry: DeadLetterEntry): Promise<void> {
+    if (!this.isRunning) {
+      throw new Error('Stream processor is not running');
+    }
+    
+    this.offer({
+      source: entry.source,
+      timestamp: entry.eventTime ? new Date(entry.eventTime) : new Date(),
+      payload: entry.payload,
+    });
+  }
+
+  /**
+   * Redeliver a dead-lettered event to the topic it failed to reach
+   * @param entry Dead-letter entry
+   * @private
+   */
+  private async replayDeadLetter(entry: DeadLetterEntry): Promise<void> {
+    if (!entry.topic || !entry.key) {
+      throw new Error(`Dead-letter entry ${entry.id} has no target topic`);
+    }
+    
+    await this.publisher.sendNow(entry.topic, entry.key, entry.payload);
   }
 
   /**
@@ -485,9 +1033,12 @@ export class StreamProcessor {
       return 1.0; // Default surge factor
     }
     
-    // Calculate surge factor based on ride requests
+    // Calculate surge factor based on time-decayed demand
     // This is a simple implementation - in a real system, this would be more complex
-    const rideRequestFactor = Math.min(3.0, 1.0 + (gridCell.rideRequests / 10) * 0.5);
+    const demand = gridCell.demand
+      ? getDemandForWindow(gridCell.demand, config.pipeline.demand.defaultWindow)
+      : gridCell.rideRequests;
+    const rideRequestFactor = Math.min(3.0, 1.0 + (demand / 10) * 0.5);
     
     // Calculate surge factor based on weather
     let weatherFactor = 1.0;
@@ -516,8 +1067,28 @@ export class StreamProcessor {
       }
     }
     
+    // Calculate surge factor based on social buzz, which picks up crowds before they request rides
+    let socialFactor = 1.0;
+    if (gridCell.socialBuzz && gridCell.socialBuzz.isSpike) {
+      socialFactor = 1.0 + Math.min(0.5, gridCell.socialBuzz.zScore * 0.1);
+    }
+    
+    // Calculate surge factor based on the worst transit disruption, which pushes riders to ride-hailing
+    let transitFactor = 1.0;
+    for (const disruption of gridCell.transitDisruptions || []) {
+      const factor = disruption.severity === 'HIGH' ? 1.3 : disruption.severity === 'MEDIUM' ? 1.15 : 1.05;
+      transitFactor = Math.max(transitFactor, factor);
+    }
+    
+    // Calculate surge factor based on the ride requests expected from arriving flights in the current bucket,
+    // summed over the terminals in the cell
+    const expectedAirportRequests = (gridCell.airportDemand || [])
+      .filter(airportDemand => airportDemand.bucketStart <= gridCell.timestamp && gridCell.timestamp < airportDemand.bucketEnd)
+      .reduce((total, airportDemand) => total + airportDemand.expectedRideRequests, 0);
+    const airportFactor = 1.0 + Math.min(0.5, (expectedAirportRequests / 50) * 0.25);
+    
     // Combine factors
-    const surgeFactor = rideRequestFactor * weatherFactor * trafficFactor * eventFactor;
+    const surgeFactor = rideRequestFactor * weatherFactor * trafficFactor * eventFactor * socialFactor * transitFactor * airportFactor;
     
     // Cap surge factor
     return Math.min(3.0, Math.max(1.0, surgeFactor));
@@ -533,24 +1104,48 @@ export class StreamProcessor {
     return GeospatialUtils.GeospatialUtils.latLngToH3(latitude, longitude);
   }
 
+  /**
+   * Get the latest aggregates of every grid cell
+   * @param resolution Only return cells at this H3 resolution (optional)
+   * @returns Grid cell data
+   */
+  public getGridCells(resolution?: number): GridCellData[] {
+    return Array.from(this.gridCells.values())
+      .filter(gridCell => resolution === undefined || gridCell.resolution === resolution);
+  }
+
   /**
    * Get demand and supply data for an H3 index
-   * @param h3Index H3 index
-   * @returns Demand and supply data
+   * @param h3Index H3 index, at the aggregation resolution or a rollup resolution
+   * @param demandWindow Demand window to report as `demand`
+   * @returns Demand and supply data, with every demand window under `demandMetrics`; demand is 0 for a cell with no fired window
    */
-  public getDemandSupplyForH3(h3Index: string): any {
+  public getDemandSupplyForH3(
+    h3Index: string,
+    demandWindow: DemandWindow = config.pipeline.demand.defaultWindow
+  ): GridDemandSupplyData {
     const gridCell = this.gridCells.get(h3Index);
     
+    // Supply is tracked per driver event, so it is read live rather than from the last fired window
+    const watermark = this.windower.getWatermark();
+    const supply = this.supplyTracker.getSupply(h3Index, Number.isFinite(watermark) ? watermark : Date.now());
+    
     if (!gridCell) {
       return {
-        demand: [],
-        supply: []
+        demand: 0,
+        demandMetrics: undefined,
+        windowEnd: undefined,
+        supply: supply.activeDrivers,
+        supplyByVehicleType: supply.byVehicleType
       };
     }
     
     return {
-      demand: gridCell.rideRequests || 0,
-      supply: gridCell.activeDrivers || 0
+      demand: gridCell.demand ? getDemandForWindow(gridCell.demand, demandWindow) : gridCell.rideRequests || 0,
+      demandMetrics: gridCell.demand,
+      windowEnd: gridCell.windowEnd,
+      supply: supply.activeDrivers,
+      supplyByVehicleType: supply.byVehicleType
     };
   }
 } 
\ No newline at end of file
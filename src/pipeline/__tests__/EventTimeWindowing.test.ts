@@ -0,0 +1,93 @@
+import { describe, it, expect } from '@jest/globals';
+import { EventTimeWindower, WindowingOptions } from '../EventTimeWindowing';
+import { DataEvent } from '../../connectors/DataSourceConnector';
+
+const options: WindowingOptions = {
+  type: 'tumbling',
+  sizeMs: 1000,
+  slideMs: 1000,
+  allowedLatenessMs: 500,
+  idleSourceTimeoutMs: 60000,
+  defaultMaxOutOfOrdernessMs: 0,
+  maxOutOfOrdernessMs: {},
+};
+
+const NOW = 100000;
+
+function event(timestamp: number, source = 'test-source'): DataEvent {
+  return { source, timestamp: new Date(timestamp), payload: { timestamp } };
+}
+
+describe('EventTimeWindower', () => {
+  it('fires a window once the watermark passes its end', () => {
+    const windower = new EventTimeWindower(options);
+
+    expect(windower.add('cell', event(1500), NOW)).toBeNull();
+    expect(windower.advance(NOW)).toEqual([]);
+
+    // A later event moves the watermark past the first window's end
+    windower.add('other-cell', event(2100), NOW);
+    const results = windower.advance(NOW);
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ key: 'cell', window: { start: 1000, end: 2000 }, isUpdate: false });
+    expect(results[0].events).toHaveLength(1);
+  });
+
+  it('fires each window once for one event', () => {
+    const windower = new EventTimeWindower(options);
+
+    windower.add('cell', event(1500), NOW);
+    windower.add('other-cell', event(2100), NOW);
+
+    expect(windower.advance(NOW)).toHaveLength(1);
+    expect(windower.advance(NOW)).toEqual([]);
+  });
+
+  it('fires a window again as an update for an event within the allowed lateness', () => {
+    const windower = new EventTimeWindower(options);
+
+    windower.add('cell', event(1500), NOW);
+    windower.add('other-cell', event(2100), NOW);
+    windower.advance(NOW);
+
+    expect(windower.add('cell', event(1700), NOW)).toBeNull();
+    const results = windower.advance(NOW);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].isUpdate).toBe(true);
+    expect(results[0].events).toHaveLength(2);
+  });
+
+  it('reports an event as late once its windows are past the allowed lateness', () => {
+    const windower = new EventTimeWindower(options);
+
+    windower.add('cell', event(1500), NOW);
+    windower.add('other-cell', event(2600), NOW);
+    windower.advance(NOW);
+
+    expect(windower.add('cell', event(1700), NOW)).toMatchObject({ key: 'cell', watermark: 2600, lateByMs: 900 });
+    expect(windower.advance(NOW)).toEqual([]);
+  });
+
+  it('holds windows open for the slowest active source', () => {
+    const windower = new EventTimeWindower(options);
+
+    windower.add('cell', event(1500, 'slow-source'), NOW);
+    windower.add('cell', event(5000, 'fast-source'), NOW);
+
+    expect(windower.getWatermark(NOW)).toBe(1500);
+    expect(windower.advance(NOW)).toEqual([]);
+  });
+
+  it('assigns an event to every sliding window that contains it', () => {
+    const windower = new EventTimeWindower({ ...options, type: 'sliding', sizeMs: 1000, slideMs: 250 });
+
+    expect(windower.assignWindows(1600)).toEqual([
+      { start: 750, end: 1750 },
+      { start: 1000, end: 2000 },
+      { start: 1250, end: 2250 },
+      { start: 1500, end: 2500 },
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, jest } from '@jest/globals';
+import { Observable, Subject } from 'rxjs';
+import config from '../../config';
+import { StreamProcessor } from '../StreamProcessor';
+import { ConnectorMetadata, DataEvent, DataSourceConnector } from '../../connectors/DataSourceConnector';
+import { RideRequest } from '../../connectors/RideRequestConnector';
+import { GridCellData } from '../../schemas/DataModels';
+
+const mockProducer = {
+  connect: jest.fn(async () => undefined),
+  disconnect: jest.fn(async () => undefined),
+  send: jest.fn(async () => []),
+};
+
+// The dead-letter topic is empty, so no consumer is needed to read it back
+const mockAdmin = {
+  connect: jest.fn(async () => undefined),
+  disconnect: jest.fn(async () => undefined),
+  fetchTopicOffsets: jest.fn(async () => [{ partition: 0, offset: '0', high: '0', low: '0' }]),
+};
+
+jest.mock('kafkajs', () => ({
+  ...(jest.requireActual('kafkajs') as object),
+  Kafka: jest.fn(() => ({ producer: () => mockProducer, admin: () => mockAdmin })),
+}));
+
+/**
+ * Connector whose events are pushed by the test
+ */
+class TestConnector implements DataSourceConnector {
+  private stream = new Subject<DataEvent>();
+  private connected = false;
+
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getStream(): Observable<DataEvent> {
+    return this.stream.asObservable();
+  }
+
+  getMetadata(): ConnectorMetadata {
+    return {
+      name: 'Test',
+      type: 'Test',
+      description: 'Events pushed by the test',
+      updateFrequency: 'On demand',
+      status: this.connected ? 'connected' : 'disconnected',
+    };
+  }
+
+  emit(event: DataEvent): void {
+    this.stream.next(event);
+  }
+}
+
+const START = new Date('2026-01-01T00:00:00.000Z').getTime();
+const WINDOW_MS = config.pipeline.windowing.sizeMs;
+
+function rideRequest(requestId: string, timestamp: number, latitude = 37.7749, longitude = -122.4194): DataEvent {
+  const payload: RideRequest = {
+    requestId,
+    userId: 'user-1',
+    timestamp: new Date(timestamp).toISOString(),
+    pickupLatitude: latitude,
+    pickupLongitude: longitude,
+    dropoffLatitude: 37.8044,
+    dropoffLongitude: -122.2712,
+    rideType: 'ECONOMY',
+    status: 'CREATED',
+  };
+
+  return { source: 'ride-request-api', timestamp: new Date(timestamp), payload };
+}
+
+describe('StreamProcessor', () => {
+  let processor: StreamProcessor;
+  let connector: TestConnector;
+  let updates: GridCellData[];
+  const checkpointStore = config.pipeline.checkpoint.store;
+
+  beforeAll(() => {
+    config.pipeline.checkpoint.store = 'none';
+  });
+
+  afterAll(() => {
+    config.pipeline.checkpoint.store = checkpointStore;
+  });
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: START });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    processor = new StreamProcessor();
+    connector = new TestConnector();
+    updates = [];
+    processor.getGridCellStream().subscribe(update => updates.push(update));
+
+    await processor.addConnector(connector);
+    await processor.start();
+  });
+
+  afterEach(async () => {
+    await processor.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Push the event that moves the ride request watermark past the first window, far from the city center
+   */
+  async function closeFirstWindow(): Promise<void> {
+    const maxOutOfOrderness = config.pipeline.windowing.maxOutOfOrdernessMs['ride-request-api'];
+    connector.emit(rideRequest('closing-request', START + WINDOW_MS + maxOutOfOrderness, 40.7128, -74.006));
+    await jest.advanceTimersByTimeAsync(config.pipeline.windowing.triggerIntervalMs);
+  }
+
+  it('fires one window and one grid cell update for one event', async () => {
+    connector.emit(rideRequest('request-1', START + 100));
+    await closeFirstWindow();
+
+    const h3Index = processor.latLngToH3(37.7749, -122.4194);
+    const cellUpdates = updates.filter(update => update.h3Index === h3Index);
+
+    expect(cellUpdates).toHaveLength(1);
+    expect(cellUpdates[0]).toMatchObject({
+      rideRequests: 1,
+      windowStart: new Date(START).toISOString(),
+      windowEnd: new Date(START + WINDOW_MS).toISOString(),
+    });
+
+    // Only the event's cell and its rollups have windows that closed
+    expect(updates).toHaveLength(1 + config.h3.rollupResolutions.length);
+  });
+
+  it('drops a duplicate event before it reaches the windows', async () => {
+    connector.emit(rideRequest('request-1', START + 100));
+    connector.emit(rideRequest('request-1', START + 100));
+    await closeFirstWindow();
+
+    const h3Index = processor.latLngToH3(37.7749, -122.4194);
+    const cellUpdates = updates.filter(update => update.h3Index === h3Index);
+
+    expect(cellUpdates).toHaveLength(1);
+    expect(cellUpdates[0].rideRequests).toBe(1);
+    expect(processor.getDedupMetrics()['ride-request-api']).toMatchObject({ duplicates: 1 });
+  });
+
+  it('does not fire a window again when nothing new arrives for it', async () => {
+    connector.emit(rideRequest('request-1', START + 100));
+    await closeFirstWindow();
+    const fired = updates.length;
+
+    await jest.advanceTimersByTimeAsync(config.pipeline.windowing.triggerIntervalMs * 3);
+
+    expect(updates).toHaveLength(fired);
+  });
+});
@@ -61,7 +61,8 @@ export const rideRequestSchema = {
     { name: 'userId', type: 'string' },
     { name: 'timestamp', type: 'string' },
     { name: 'pickupLocation', type: geoCoordinatesSchema },
-    { name: 'dropoffLocation', type: geoCoordinatesSchema },
+    // A named type can only be defined once per schema, so reuse it by name
+    { name: 'dropoffLocation', type: 'com.surgestreamer.schemas.GeoCoordinates' },
     { 
       name: 'requestStatus', 
       type: { 
@@ -294,4 +295,166 @@ export const pipelineMetricsSchema = {
     { name: 'queueSize', type: 'int' },
     { name: 'lag', type: 'double' }
   ]
-}; 
\ No newline at end of file
+};
+
+/**
+ * Driver location update schema, as emitted by the driver location service connector
+ */
+export const driverLocationUpdateSchema = {
+  type: 'record',
+  name: 'DriverLocationUpdate',
+  namespace: 'com.surgestreamer.schemas',
+  fields: [
+    { name: 'driverId', type: 'string' },
+    { name: 'timestamp', type: 'string' },
+    { name: 'latitude', type: 'double' },
+    { name: 'longitude', type: 'double' },
+    { name: 'heading', type: ['null', 'double'], default: null },
+    { name: 'speed', type: ['null', 'double'], default: null },
+    { name: 'availability', type: 'string' },
+    { name: 'vehicleType', type: 'string' },
+    { name: 'batteryLevel', type: ['null', 'double'], default: null },
+    { name: 'h3Index', type: ['null', 'string'], default: null }
+  ]
+};
+
+/**
+ * Ride request update schema, as emitted by the ride request API connector
+ */
+export const rideRequestUpdateSchema = {
+  type: 'record',
+  name: 'RideRequestUpdate',
+  namespace: 'com.surgestreamer.schemas',
+  fields: [
+    { name: 'requestId', type: 'string' },
+    { name: 'userId', type: 'string' },
+    { name: 'timestamp', type: 'string' },
+    { name: 'pickupLatitude', type: 'double' },
+    { name: 'pickupLongitude', type: 'double' },
+    { name: 'dropoffLatitude', type: ['null', 'double'], default: null },
+    { name: 'dropoffLongitude', type: ['null', 'double'], default: null },
+    { name: 'estimatedDistance', type: ['null', 'double'], default: null },
+    { name: 'estimatedDuration', type: ['null', 'double'], default: null },
+    { name: 'rideType', type: 'string' },
+    { name: 'status', type: 'string' },
+    { name: 'h3Index', type: ['null', 'string'], default: null }
+  ]
+};
+
+/**
+ * City event listing schema, as emitted by the events API connector
+ */
+export const eventListingSchema = {
+  type: 'record',
+  name: 'EventListing',
+  namespace: 'com.surgestreamer.schemas',
+  fields: [
+    { name: 'id', type: 'string' },
+    { name: 'timestamp', type: 'string' },
+    { name: 'name', type: 'string' },
+    { name: 'type', type: 'string' },
+    { name: 'startTime', type: 'string' },
+    { name: 'endTime', type: 'string' },
+    {
+      name: 'venue',
+      type: {
+        type: 'record',
+        name: 'EventVenue',
+        fields: [
+          { name: 'id', type: 'string' },
+          { name: 'name', type: 'string' },
+          { name: 'latitude', type: 'double' },
+          { name: 'longitude', type: 'double' },
+          { name: 'capacity', type: 'double' },
+          { name: 'type', type: 'string' }
+        ]
+      }
+    },
+    { name: 'location', type: ['null', geoCoordinatesSchema], default: null },
+    { name: 'estimatedAttendance', type: 'double' },
+    { name: 'ticketsSold', type: ['null', 'double'], default: null },
+    { name: 'isHighDemand', type: 'boolean' },
+    { name: 'h3Index', type: ['null', 'string'], default: null }
+  ]
+};
+
+/**
+ * Social buzz schema, one record per grid cell and poll of the social connector
+ */
+export const socialBuzzSchema = {
+  type: 'record',
+  name: 'SocialBuzz',
+  namespace: 'com.surgestreamer.schemas',
+  fields: [
+    { name: 'timestamp', type: 'string' },
+    { name: 'h3Index', type: 'string' },
+    { name: 'postCount', type: 'double' },
+    { name: 'buzzScore', type: 'double' },
+    { name: 'baselineScore', type: 'double' },
+    { name: 'zScore', type: 'double' },
+    { name: 'isSpike', type: 'boolean' },
+    { name: 'topHashtags', type: { type: 'array', items: 'string' }, default: [] }
+  ]
+};
+
+/**
+ * Transit disruption schema, as emitted by the GTFS-Realtime connector
+ */
+export const transitDisruptionSchema = {
+  type: 'record',
+  name: 'TransitDisruption',
+  namespace: 'com.surgestreamer.schemas',
+  fields: [
+    { name: 'id', type: 'string' },
+    { name: 'timestamp', type: 'string' },
+    { name: 'h3Index', type: 'string' },
+    { name: 'stopId', type: 'string' },
+    { name: 'stopName', type: 'string' },
+    { name: 'routeIds', type: { type: 'array', items: 'string' }, default: [] },
+    { name: 'type', type: 'string' },
+    { name: 'severity', type: 'string' },
+    { name: 'cause', type: ['null', 'string'], default: null },
+    { name: 'effect', type: ['null', 'string'], default: null },
+    { name: 'delaySeconds', type: ['null', 'double'], default: null },
+    { name: 'description', type: ['null', 'string'], default: null },
+    { name: 'expiresAt', type: 'string' }
+  ]
+};
+
+/**
+ * Airport demand schema, one record per terminal and arrival bucket of the flights connector
+ */
+export const airportDemandSchema = {
+  type: 'record',
+  name: 'AirportDemand',
+  namespace: 'com.surgestreamer.schemas',
+  fields: [
+    { name: 'id', type: 'string' },
+    { name: 'timestamp', type: 'string' },
+    { name: 'h3Index', type: 'string' },
+    { name: 'airportCode', type: 'string' },
+    { name: 'terminal', type: 'string' },
+    { name: 'bucketStart', type: 'string' },
+    { name: 'bucketEnd', type: 'string' },
+    { name: 'expectedPassengers', type: 'double' },
+    { name: 'expectedRideRequests', type: 'double' },
+    { name: 'flightNumbers', type: { type: 'array', items: 'string' }, default: [] }
+  ]
+};
+
+/**
+ * Recorded data event schema, for record-and-replay files
+ *
+ * Payloads differ per source, so they are stored as JSON strings.
+ */
+export const recordedEventSchema = {
+  type: 'record',
+  name: 'RecordedEvent',
+  namespace: 'com.surgestreamer.schemas',
+  fields: [
+    { name: 'source', type: 'string' },
+    { name: 'timestamp', type: 'long' },
+    { name: 'payload', type: 'string' },
+    { name: 'metadata', type: ['null', 'string'], default: null }
+  ]
+};
@@ -74,6 +74,7 @@ export interface WeatherData extends BaseData {
  * Traffic data from the Traffic API
  */
 export interface TrafficData extends BaseData {
+  roadSegmentId?: string;
   location: GeoLocation;
   congestionLevel: number; // 0-100
   averageSpeed: number; // km/h
@@ -109,18 +110,116 @@ export interface EventData extends BaseData {
   isHighDemand: boolean;
 }
 
+/**
+ * Social media buzz for a grid cell, from geotagged posts since the previous poll
+ */
+export interface SocialBuzzData extends BaseData {
+  h3Index: string;
+  postCount: number;
+  // Engagement-weighted post volume
+  buzzScore: number;
+  // Exponentially weighted mean buzz of the cell
+  baselineScore: number;
+  // Standard deviations of the buzz score above the baseline
+  zScore: number;
+  isSpike: boolean;
+  // Most frequent hashtags, e.g. naming the concert or protest behind a spike
+  topHashtags: string[];
+}
+
+/**
+ * Transit disruption at a stop, from GTFS-Realtime service alerts and trip updates
+ */
+export interface TransitDisruptionData extends BaseData {
+  // Alert ID and stop, or the stop for disruptions derived from trip updates
+  id: string;
+  h3Index: string;
+  stopId: string;
+  stopName: string;
+  routeIds: string[];
+  type: 'ALERT' | 'DELAY' | 'SKIPPED_STOP' | 'CANCELED_TRIP';
+  severity: 'LOW' | 'MEDIUM' | 'HIGH';
+  // GTFS-Realtime alert cause and effect, e.g. STRIKE and NO_SERVICE
+  cause?: string;
+  effect?: string;
+  delaySeconds?: number;
+  description?: string;
+  // When the disruption is dropped unless a later feed reports it again
+  expiresAt: string;
+}
+
+/**
+ * Flight arriving at an airport terminal
+ */
+export interface FlightArrival {
+  flightNumber: string;
+  // IATA airport code, e.g. SFO
+  airportCode: string;
+  terminal: string;
+  // ICAO aircraft type designator, e.g. B738
+  aircraftType?: string;
+  status: 'SCHEDULED' | 'ACTIVE' | 'LANDED' | 'CANCELED' | 'DIVERTED';
+  scheduledArrival: string;
+  estimatedArrival?: string;
+  actualArrival?: string;
+  // Seats and load factor, where the provider knows them
+  seats?: number;
+  loadFactor?: number;
+  international?: boolean;
+}
+
+/**
+ * Passengers expected to leave an airport terminal within a time bucket
+ */
+export interface AirportDemandData extends BaseData {
+  // Airport, terminal and bucket start
+  id: string;
+  h3Index: string;
+  airportCode: string;
+  terminal: string;
+  bucketStart: string;
+  bucketEnd: string;
+  expectedPassengers: number;
+  expectedRideRequests: number;
+  // Flights whose passengers leave within the bucket
+  flightNumbers: string[];
+}
+
+/**
+ * Time-decayed ride request demand for a grid cell
+ */
+export interface DemandMetrics {
+  last5m: number;
+  last15m: number;
+  last60m: number;
+  ewmaRatePerMinute: number;
+}
+
+/**
+ * Demand window: a sliding count or the exponentially weighted rate
+ */
+export type DemandWindow = '5m' | '15m' | '60m' | 'ewma';
+
 /**
  * Aggregated data for a specific H3 grid cell
  */
 export interface GridCellData {
   h3Index: string;
+  resolution: number;
   centerPoint: GeoLocation;
   timestamp: string;
-  rideRequests: number;
+  windowStart?: string;
+  windowEnd?: string;
+  rideRequests: number; // requests within the window
+  demand?: DemandMetrics;
   activeDrivers?: number;
+  supplyByVehicleType?: Record<'ECONOMY' | 'COMFORT' | 'PREMIUM', number>;
   weatherData?: WeatherData;
   trafficData?: TrafficData;
   nearbyEvents?: EventData[];
+  socialBuzz?: SocialBuzzData;
+  transitDisruptions?: TransitDisruptionData[];
+  airportDemand?: AirportDemandData[];
 }
 
 /**
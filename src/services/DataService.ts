@@ -1,8 +1,9 @@
 import { Logger } from '../utils/Logger';
 import { RideRequestData, WeatherData, TrafficData, EventData, GridCellData, GeospatialQuery } from '../schemas/DataModels';
 import { GeospatialUtils } from '../utils/GeospatialUtils';
-import { MongoClient, Collection, Db } from 'mongodb';
+import { MongoClient, Collection, Db, ClientSession } from 'mongodb';
 import { config } from '../config';
+import { Outbox, OutboxMessage } from '../kafka/Outbox';
 
 /**
  * Service for handling data queries and storage
@@ -19,6 +20,7 @@ export class DataService {
   
   // Public properties for database access
   public db: Db;
+  public outbox: Outbox;
   public collections = {
     locations: config.mongodb.collections.locations || 'locations',
     predictions: config.mongodb.collections.predictions || 'predictions',
@@ -27,7 +29,8 @@ export class DataService {
     weatherData: config.mongodb.collections.weatherData || 'weather_data',
     trafficData: config.mongodb.collections.trafficData || 'traffic_data',
     rideRequests: config.mongodb.collections.rideRequests || 'ride_requests',
-    gridCells: config.mongodb.collections.gridCells || 'grid_cells'
+    gridCells: config.mongodb.collections.gridCells || 'grid_cells',
+    outbox: config.kafka.outbox.collection
   };
 
   constructor() {
@@ -49,6 +52,7 @@ export class DataService {
       this.trafficDataCollection = this.db.collection<TrafficData>(this.collections.trafficData);
       this.eventsCollection = this.db.collection<EventData>(this.collections.events);
       this.gridCellDataCollection = this.db.collection<GridCellData>(this.collections.gridCells);
+      this.outbox = new Outbox(this.db.collection<OutboxMessage>(this.collections.outbox));
       
       // Create indexes
       await this.createIndexes();
@@ -79,6 +83,14 @@ export class DataService {
     }
   }
 
+  /**
+   * Get the MongoDB client, so services sharing it can take part in its transactions
+   * @returns The connected client
+   */
+  public getClient(): MongoClient {
+    return this.mongoClient;
+  }
+
   /**
    * Build a MongoDB query from a geospatial query
    * @param query The geospatial query
@@ -212,6 +224,28 @@ export class DataService {
     await this.eventsCollection.insertOne(data);
   }
 
+  /**
+   * Run a function in a MongoDB transaction, retrying it on transient errors
+   *
+   * Transactions need a replica set or sharded cluster.
+   * @param fn Function that does its reads and writes with the session
+   * @returns The function's result
+   */
+  public async withTransaction<T>(fn: (session: ClientSession) => Promise<T>): Promise<T> {
+    await this.ensureConnected();
+    const session = this.mongoClient.startSession();
+    
+    try {
+      let result: T;
+      await session.withTransaction(async () => {
+        result = await fn(session);
+      });
+      return result!;
+    } finally {
+      await session.endSession();
+    }
+  }
+
   /**
    * Store grid cell data
    * @param data The grid cell data
@@ -230,7 +264,11 @@ export class DataService {
     }
   }
 
+  /**
+   * Create the indexes the service relies on
+   */
   private async createIndexes(): Promise<void> {
-    // Implementation of createIndexes method
+    // Predictions of one window share an ID and are stored by upsert, so the ID must stay unique
+    await this.db.collection(this.collections.predictions).createIndex({ id: 1 }, { unique: true, name: 'prediction_id' });
   }
 } 
\ No newline at end of file
@@ -87,16 +87,12 @@ export class DriverGuidanceService {
           const demandSupplyData = this.streamProcessor.getDemandSupplyForH3(h3Index);
           
           // Calculate predicted demand (current demand + 20% growth)
-          const currentDemand = typeof demandSupplyData.demand === 'number' ? 
-            demandSupplyData.demand : 
-            (Array.isArray(demandSupplyData.demand) ? demandSupplyData.demand.length : 0);
+          const currentDemand = demandSupplyData.demand;
           
           const predictedDemand = currentDemand * 1.2;
           
           // Calculate driver density
-          const driverCount = typeof demandSupplyData.supply === 'number' ? 
-            demandSupplyData.supply : 
-            (Array.isArray(demandSupplyData.supply) ? demandSupplyData.supply.length : 0);
+          const driverCount = demandSupplyData.supply;
           
           // Avoid division by zero
           const driverDensity = Math.max(1, driverCount);
@@ -176,7 +172,7 @@ export class DriverGuidanceService {
       await this.kafkaProducer.sendMessage(
         config.kafka.topics.driverGuidance,
         recommendation.id,
-        JSON.stringify(recommendation)
+        recommendation
       );
       
       this.logger.debug(`Sent driver recommendation ${recommendation.id} to Kafka`);
@@ -1,4 +1,4 @@
-import { MongoClient, Collection, ObjectId } from 'mongodb';
+import { MongoClient, Collection, ObjectId, ClientSession } from 'mongodb';
 import { GeospatialUtils } from '../utils/GeospatialUtils';
 import { Location, LocationSettings } from '../schemas/DataModels';
 import config from '../config';
@@ -12,6 +12,7 @@ export class LocationService {
   private collection: Collection<Location> | null = null;
   private logger: Logger;
   private isConnected: boolean = false;
+  private ownsClient: boolean = true;
 
   /**
    * Initialize the location service
@@ -22,11 +23,13 @@ export class LocationService {
 
   /**
    * Connect to the MongoDB database
+   * @param client Connected client to share, so the service's writes can join sessions it starts
    */
-  async connect(): Promise<void> {
+  async connect(client?: MongoClient): Promise<void> {
     try {
       this.logger.info('Connecting to MongoDB...');
-      this.client = await MongoClient.connect(config.mongodb.uri);
+      this.ownsClient = !client;
+      this.client = client ?? await MongoClient.connect(config.mongodb.uri);
       const db = this.client.db();
       this.collection = db.collection<Location>(config.mongodb.collections.locations);
       this.isConnected = true;
@@ -52,7 +55,10 @@ export class LocationService {
    */
   async disconnect(): Promise<void> {
     if (this.client) {
-      await this.client.close();
+      // A shared client is closed by its owner
+      if (this.ownsClient) {
+        await this.client.close();
+      }
       this.client = null;
       this.collection = null;
       this.isConnected = false;
@@ -277,11 +283,17 @@ export class LocationService {
    * Update the current surge value for a location
    * @param id Location ID
    * @param surgeMultiplier Surge multiplier
-   * @returns The updated location
+   * @param session Session of the transaction the update belongs to
+   * @returns The updated location, or null if there is no location with that ID
    */
-  async updateCurrentSurge(id: string, surgeMultiplier: number): Promise<Location | null> {
+  async updateCurrentSurge(id: string, surgeMultiplier: number, session?: ClientSession): Promise<Location | null> {
     await this.ensureConnected();
     
+    if (!ObjectId.isValid(id)) {
+      this.logger.warn(`Not updating surge for location with invalid ID ${id}`);
+      return null;
+    }
+    
     try {
       const result = await this.collection!.findOneAndUpdate(
         { _id: new ObjectId(id) },
@@ -291,7 +303,7 @@ export class LocationService {
             lastUpdated: new Date().toISOString()
           } 
         },
-        { returnDocument: 'after' }
+        { returnDocument: 'after', session }
       );
       
       if (!result) return null;
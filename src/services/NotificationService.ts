@@ -68,10 +68,10 @@ export class NotificationService {
       await this.kafkaProducer.sendMessage(
         config.kafka.topics.notifications,
         userId,
-        JSON.stringify({
+        {
           userId,
           notification
-        })
+        }
       );
       
       // In a real implementation, this would also:
@@ -1,9 +1,10 @@
+import * as crypto from 'crypto';
 import { SurgePrediction, PredictionFactor, GeoPoint, DemandSupplyData } from '../types';
 import { DataService } from './DataService';
 import { LocationService } from './LocationService';
 import { StreamProcessor } from '../pipeline/StreamProcessor';
 import { Logger } from '../utils/Logger';
-import { v4 as uuidv4 } from 'uuid';
+import { v4 as uuidv4, v5 as uuidv5 } from 'uuid';
 import { generateFeatures } from '../ml/featureEngineering';
 import * as MLModels from '../ml/models';
 import { KafkaProducer } from '../kafka/KafkaProducer';
@@ -18,6 +19,9 @@ const CONFIDENCE_THRESHOLDS = {
   LEVEL_3: 0.85  // 85% confidence - Actionable alert with price lock options
 };
 
+// Namespace of the name-based IDs given to predictions
+const PREDICTION_ID_NAMESPACE = '5b0e7f4c-8d2a-4c61-9f3e-2a7d6c1b8e90';
+
 export class PredictionService {
   private dataService: DataService;
   private locationService: LocationService;
@@ -100,8 +104,10 @@ export class PredictionService {
 
           predictions.push(prediction);
 
-          // Send prediction to Kafka
-          await this.sendPredictionToKafka(prediction);
+          // Send prediction to Kafka, unless it was queued in the outbox when stored
+          if (!config.kafka.outbox.enabled) {
+            await this.sendPredictionToKafka(prediction);
+          }
 
           // Process notifications based on confidence level
           await this.processTieredNotifications(prediction);
@@ -204,16 +210,12 @@ export class PredictionService {
       const demandSupplyData = this.streamProcessor.getDemandSupplyForH3(h3Index);
 
       // Calculate predicted demand (current demand + 20% growth)
-      const currentDemand = typeof demandSupplyData.demand === 'number' ?
-        demandSupplyData.demand :
-        (Array.isArray(demandSupplyData.demand) ? demandSupplyData.demand.length : 0);
+      const currentDemand = demandSupplyData.demand;
 
       const predictedDemand = currentDemand * 1.2;
 
       // Calculate available supply
-      const availableSupply = typeof demandSupplyData.supply === 'number' ?
-        demandSupplyData.supply :
-        (Array.isArray(demandSupplyData.supply) ? demandSupplyData.supply.length : 0);
+      const availableSupply = demandSupplyData.supply;
 
       // Calculate confidence adjustment (α) - higher confidence = higher adjustment
       const confidenceAdjustment = 0.1 + (confidence - CONFIDENCE_THRESHOLDS.LEVEL_1) * 0.5;
@@ -272,17 +274,40 @@ export class PredictionService {
    */
   private async sendPredictionToKafka(prediction: SurgePrediction): Promise<void> {
     try {
-      await this.kafkaProducer.sendMessage(
-        config.kafka.topics.predictionResults,
-        prediction.id,
-        JSON.stringify(prediction)
-      );
+      for (const message of this.getPredictionMessages(prediction)) {
+        await this.kafkaProducer.sendMessage(message.topic, message.key, message.value);
+      }
       this.logger.info(`Sent prediction ${prediction.id} to Kafka`);
     } catch (error) {
       this.logger.error(`Failed to send prediction ${prediction.id} to Kafka`, error);
     }
   }
 
+  /**
+   * Get the Kafka messages announcing a prediction, with IDs derived from the prediction's ID and content
+   */
+  private getPredictionMessages(prediction: SurgePrediction): { id: string; topic: string; key: string; value: SurgePrediction }[] {
+    // Versioned by content, so re-predicting a window publishes the prediction that replaced the stored one
+    const version = crypto.createHash('sha256').update(JSON.stringify(prediction)).digest('hex').slice(0, 16);
+
+    return [
+      { id: `${config.kafka.topics.predictionResults}:${prediction.id}:${version}`, topic: config.kafka.topics.predictionResults, key: prediction.id, value: prediction },
+      // Keyed by location so compaction keeps the latest prediction of each
+      { id: `${config.kafka.topics.latestPredictions}:${prediction.id}:${version}`, topic: config.kafka.topics.latestPredictions, key: prediction.locationId, value: prediction },
+    ];
+  }
+
+  /**
+   * Get the ID of a location's prediction for a window
+   * @param locationId Location ID
+   * @param h3Index H3 cell the prediction was made for
+   * @param window End of the window the prediction was made from
+   * @returns Name-based UUID, the same each time the window is predicted
+   */
+  private getPredictionId(locationId: string, h3Index: string, window: string): string {
+    return uuidv5(`${locationId}:${h3Index}:${window}`, PREDICTION_ID_NAMESPACE);
+  }
+
   /**
    * Get the latest prediction for a location
    */
@@ -333,12 +358,16 @@ export class PredictionService {
         prediction.id = uuidv4();
       }
 
-      // Insert the prediction
-      await this.dataService.db.collection(this.dataService.collections.predictions)
-        .insertOne(prediction);
+      if (config.kafka.outbox.enabled) {
+        await this.storePredictionWithOutbox(prediction);
+      } else {
+        // Store the prediction, replacing an earlier one of the same window
+        await this.dataService.db.collection(this.dataService.collections.predictions)
+          .replaceOne({ id: prediction.id }, prediction, { upsert: true });
 
-      // Update the location's current surge
-      await this.locationService.updateCurrentSurge(prediction.locationId, prediction.surgeMultiplier);
+        // Update the location's current surge
+        await this.locationService.updateCurrentSurge(prediction.locationId, prediction.surgeMultiplier);
+      }
 
       this.logger.info(`Stored prediction ${prediction.id} for location ${prediction.locationId}`);
       return prediction;
@@ -348,6 +377,25 @@ export class PredictionService {
     }
   }
 
+  /**
+   * Store a prediction, update its location's current surge and queue its
+   * Kafka messages in the outbox, all in one transaction
+   *
+   * Storing the same prediction again, e.g. when a transaction is retried,
+   * queues no new messages; a new prediction for the same window overwrites
+   * the stored one and queues messages with its new content.
+   */
+  private async storePredictionWithOutbox(prediction: SurgePrediction): Promise<void> {
+    await this.dataService.withTransaction(async session => {
+      await this.dataService.db.collection(this.dataService.collections.predictions)
+        .replaceOne({ id: prediction.id }, prediction, { upsert: true, session });
+
+      await this.locationService.updateCurrentSurge(prediction.locationId, prediction.surgeMultiplier, session);
+
+      await this.dataService.outbox.add(this.getPredictionMessages(prediction), session);
+    });
+  }
+
   /**
    * Generate a prediction for a location
    */
@@ -380,12 +428,16 @@ export class PredictionService {
       // Create factors array
       const factors: PredictionFactor[] = this.generatePredictionFactors(features, demandSupplyData);
 
+      // Predictions from the same window share an ID, so replaying a run overwrites them
+      const timestamp = new Date().toISOString();
+      const window = demandSupplyData.windowEnd || timestamp;
+
       // Create prediction object
       const prediction: SurgePrediction = {
-        id: uuidv4(),
+        id: this.getPredictionId(locationId, h3Index, window),
         locationId,
         h3Index,
-        timestamp: new Date().toISOString(),
+        timestamp,
         surgeMultiplier: finalSurgeMultiplier,
         confidence,
         predictedDuration: 15, // 15 minutes
@@ -133,13 +133,13 @@ export class SystemMonitoringService {
    * @private
    */
   private async getConnectorStatus(): Promise<ConnectorStatus[]> {
-    const connectors = this.pipelineManager.getConnectors();
+    const { connectors } = this.pipelineManager.getStatus();
     
-    return connectors.map(connector => ({
-      name: connector.constructor.name,
-      status: connector.isConnected() ? 'CONNECTED' : 'DISCONNECTED',
-      lastUpdated: new Date().toISOString(),
-      message: null
+    return Object.entries(connectors).map(([name, metadata]) => ({
+      name,
+      status: metadata.status.toUpperCase(),
+      lastUpdated: (metadata.lastConnected || new Date()).toISOString(),
+      message: metadata.error ? metadata.error.message : null
     }));
   }
 
@@ -156,9 +156,9 @@ export class SystemMonitoringService {
       return 'STANDBY';
     }
     
-    // If any connector is disconnected, system is in WARNING mode
+    // If any connector is disconnected or failing, system is in WARNING mode
     const hasDisconnectedConnector = connectorStatus.some(
-      connector => connector.status === 'DISCONNECTED'
+      connector => connector.status === 'DISCONNECTED' || connector.status === 'ERROR'
     );
     
     if (hasDisconnectedConnector) {
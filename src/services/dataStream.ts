@@ -1,17 +1,22 @@
 import { Subscription, interval, Observable, Subject, from } from 'rxjs';
 import { mergeMap, map, buffer, filter, concatMap } from 'rxjs/operators';
 import { EachMessagePayload } from 'kafkajs';
-import { createConsumer } from './kafka';
+import { createConsumer, serializer } from './kafka';
 import { pointToH3 } from './geospatial';
 import { startPredictionService } from '../ml/predictionService';
 import { DriverLocation, RideRequest, DemandSupplyData, ProcessedData } from '../types';
 import config from '../config';
 import { createBoundingBox } from './geospatial';
 import { generateSurgePredictions } from '../ml/predictionService';
+import { EventDeduplicator } from '../utils/EventDeduplicator';
+import { GeospatialUtils } from '../utils/GeospatialUtils';
 
 // Global map to store demand/supply data by H3 index
 const demandSupplyMap = new Map<string, DemandSupplyData>();
 
+// Drops messages redelivered by Kafka or republished upstream
+const deduplicator = new EventDeduplicator();
+
 // Subscription for the data pipeline
 let subscription: Subscription | null = null;
 
@@ -27,7 +32,9 @@ const processDriverLocationMessage = async (payload: EachMessagePayload) => {
     const { message } = payload;
     if (!message.value) return;
     
-    const driverLocation: DriverLocation = JSON.parse(message.value.toString());
+    const driverLocation = serializer.deserialize<DriverLocation>(message.value);
+    if (deduplicator.isDuplicate('driver-location-service', driverLocation)) return;
+    
     console.log(`Received driver location: ${driverLocation.driver_id}`);
     
     // Update the demand/supply map
@@ -45,7 +52,9 @@ const processRideRequestMessage = async (payload: EachMessagePayload) => {
     const { message } = payload;
     if (!message.value) return;
     
-    const rideRequest: RideRequest = JSON.parse(message.value.toString());
+    const rideRequest = serializer.deserialize<RideRequest>(message.value);
+    if (deduplicator.isDuplicate('ride-request-api', rideRequest)) return;
+    
     console.log(`Received ride request: ${rideRequest.id}`);
     
     // Update the demand/supply map
@@ -122,12 +131,10 @@ const updateDemandSupplyMap = (
 };
 
 /**
- * Get H3 index for a location
+ * Get H3 index for a location, at the resolution the stream processor uses for its grid cells
  */
 const getH3IndexForLocation = (location: { latitude: number; longitude: number }): string => {
-  // This is a placeholder - in a real implementation, use the h3-js library
-  // to convert lat/lng to H3 index
-  return `${Math.floor(location.latitude * 100)}_${Math.floor(location.longitude * 100)}`;
+  return GeospatialUtils.latLngToH3(location.latitude, location.longitude);
 };
 
 /**
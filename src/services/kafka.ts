@@ -1,6 +1,8 @@
 import { Kafka, Producer, Consumer, EachMessagePayload } from 'kafkajs';
 import config from '../config';
 import { DriverLocation, RideRequest, SurgePrediction } from '../types';
+import { MessageSerializer } from '../utils/MessageSerializer';
+import { H3Partitioner } from '../kafka/H3Partitioner';
 
 // Initialize Kafka client
 const kafka = new Kafka({
@@ -8,6 +10,12 @@ const kafka = new Kafka({
   brokers: config.kafka.brokers
 });
 
+// Serializes message values in each topic's wire format
+export const serializer = new MessageSerializer();
+
+// Partitions messages by the area of their location
+const partitioner = new H3Partitioner();
+
 // Global producer instance
 let producer: Producer | null = null;
 
@@ -22,7 +30,7 @@ export const initProducer = async (): Promise<Producer> => {
     return producer;
   }
 
-  producer = kafka.producer();
+  producer = kafka.producer({ createPartitioner: partitioner.createPartitioner });
   await producer.connect();
   console.log('Kafka producer connected');
   return producer;
@@ -38,7 +46,8 @@ export const sendDriverLocation = async (location: DriverLocation): Promise<void
     messages: [
       { 
         key: location.driver_id, 
-        value: JSON.stringify(location) 
+        value: serializer.serialize(config.kafka.topics.driverLocations, location),
+        headers: partitioner.withPartitionCell(location)
       }
     ]
   });
@@ -54,7 +63,8 @@ export const sendRideRequest = async (request: RideRequest): Promise<void> => {
     messages: [
       { 
         key: request.id, 
-        value: JSON.stringify(request) 
+        value: serializer.serialize(config.kafka.topics.rideRequests, request),
+        headers: partitioner.withPartitionCell(request)
       }
     ]
   });
@@ -70,7 +80,8 @@ export const sendSurgePrediction = async (prediction: SurgePrediction): Promise<
     messages: [
       {
         key: prediction.h3Index || prediction.id,
-        value: JSON.stringify(prediction)
+        value: serializer.serialize(config.kafka.topics.surgeEvents, prediction),
+        headers: partitioner.withPartitionCell(prediction)
       }
     ]
   });
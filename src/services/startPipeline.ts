@@ -4,6 +4,7 @@ import { BoundingBox, ProcessedData } from '../types';
 import { initializePredictionService, shutdownPredictionService } from '../ml/predictionService';
 import { startDataStream } from './dataStream';
 import { initProducer, disconnectKafka } from './kafka';
+import { schemaRegistry } from '../utils/SchemaRegistry';
 import { trainModel } from '../ml/models';
 import config from '../config';
 
@@ -21,6 +22,11 @@ export const startPipeline = async (): Promise<void> => {
   console.log('Starting data processing pipeline...');
   
   try {
+    // Check the code schemas against the schema registry before producing anything
+    if (config.kafka.schemaRegistry.enabled) {
+      await schemaRegistry.initialize();
+    }
+    
     // Initialize Kafka producer
     await initProducer();
     
@@ -45,6 +51,10 @@ export const startPipeline = async (): Promise<void> => {
       // Disconnect Kafka
       await disconnectKafka();
       
+      if (config.kafka.schemaRegistry.enabled) {
+        await schemaRegistry.close();
+      }
+      
       console.log('Data processing pipeline cleaned up');
     };
     
@@ -46,6 +46,20 @@ declare module 'kafkajs' {
     connect(): Promise<void>;
     disconnect(): Promise<void>;
     send(record: any): Promise<any>;
+    transaction(): Promise<Transaction>;
+  }
+
+  export interface TopicOffsets {
+    topic: string;
+    partitions: { partition: number; offset: string }[];
+  }
+
+  export interface Transaction {
+    send(record: any): Promise<any>;
+    sendOffsets(offsets: { consumerGroupId: string; topics: TopicOffsets[] }): Promise<void>;
+    commit(): Promise<void>;
+    abort(): Promise<void>;
+    isActive(): boolean;
   }
 
   export interface Consumer {
@@ -53,8 +67,24 @@ declare module 'kafkajs' {
     disconnect(): Promise<void>;
     subscribe(options: any): Promise<void>;
     run(options: any): Promise<void>;
+    seek(options: { topic: string; partition: number; offset: string }): void;
+    pause(topics: { topic: string; partitions?: number[] }[]): void;
+    resume(topics: { topic: string; partitions?: number[] }[]): void;
+  }
+
+  export interface PartitionerArgs {
+    topic: string;
+    partitionMetadata: { partitionId: number; leader: number }[];
+    message: { key?: Buffer | string | null; value: Buffer | string | null; headers?: Record<string, Buffer | string> };
   }
 
+  export type ICustomPartitioner = () => (args: PartitionerArgs) => number;
+
+  export const Partitioners: {
+    DefaultPartitioner: ICustomPartitioner;
+    LegacyPartitioner: ICustomPartitioner;
+  };
+
   export interface EachMessagePayload {
     topic: string;
     partition: number;
@@ -67,24 +97,99 @@ declare module 'kafkajs' {
     };
   }
 
+  export interface EachBatchPayload {
+    batch: {
+      topic: string;
+      partition: number;
+      highWatermark: string;
+      messages: EachMessagePayload['message'][];
+      lastOffset(): string;
+    };
+  }
+
+  export enum ConfigResourceTypes {
+    UNKNOWN = 0,
+    TOPIC = 2,
+    BROKER = 4,
+    BROKER_LOGGER = 8,
+  }
+
+  export enum ConfigSource {
+    UNKNOWN = 0,
+    TOPIC_CONFIG = 1,
+    DYNAMIC_BROKER_CONFIG = 2,
+    DYNAMIC_DEFAULT_BROKER_CONFIG = 3,
+    STATIC_BROKER_CONFIG = 4,
+    DEFAULT_CONFIG = 5,
+    DYNAMIC_BROKER_LOGGER_CONFIG = 6,
+  }
+
+  export interface PartitionMetadata {
+    partitionErrorCode: number;
+    partitionId: number;
+    leader: number;
+    replicas: number[];
+    isr: number[];
+    offlineReplicas?: number[];
+  }
+
+  export interface ConfigEntry {
+    configName: string;
+    configValue: string;
+    isDefault: boolean;
+    configSource: ConfigSource;
+    isSensitive: boolean;
+    readOnly: boolean;
+  }
+
+  export interface Admin {
+    connect(): Promise<void>;
+    disconnect(): Promise<void>;
+    listTopics(): Promise<string[]>;
+    createTopics(options: {
+      validateOnly?: boolean;
+      waitForLeaders?: boolean;
+      timeout?: number;
+      topics: { topic: string; numPartitions?: number; replicationFactor?: number; configEntries?: { name: string; value: string }[] }[];
+    }): Promise<boolean>;
+    createPartitions(options: { validateOnly?: boolean; timeout?: number; topicPartitions: { topic: string; count: number }[] }): Promise<boolean>;
+    fetchTopicMetadata(options?: { topics: string[] }): Promise<{ topics: { name: string; partitions: PartitionMetadata[] }[] }>;
+    fetchTopicOffsets(topic: string): Promise<{ partition: number; offset: string; high: string; low: string }[]>;
+    fetchOffsets(options: { groupId: string; topics?: string[] }): Promise<{ topic: string; partitions: { partition: number; offset: string; metadata: string | null }[] }[]>;
+    describeConfigs(options: {
+      resources: { type: ConfigResourceTypes; name: string; configNames?: string[] }[];
+      includeSynonyms: boolean;
+    }): Promise<{ resources: { errorCode: number; errorMessage: string; resourceName: string; resourceType: ConfigResourceTypes; configEntries: ConfigEntry[] }[] }>;
+    alterConfigs(options: {
+      validateOnly: boolean;
+      resources: { type: ConfigResourceTypes; name: string; configEntries: { name: string; value: string }[] }[];
+    }): Promise<any>;
+    listGroups(): Promise<{ groups: { groupId: string; protocolType: string }[] }>;
+  }
+
   export interface Kafka {
     producer(options?: any): Producer;
     consumer(options: any): Consumer;
+    admin(options?: any): Admin;
   }
 
   export class Kafka {
     constructor(config: any);
     producer(options?: any): Producer;
     consumer(options: any): Consumer;
+    admin(options?: any): Admin;
   }
 }
 
 // Feature Engineering module
 declare module './featureEngineering' {
-  import { GeoPoint, DemandSupplyData } from '../types';
+  import { GeoPoint, DemandSupplyData, GridDemandSupplyData } from '../types';
+  import { DemandWindow } from '../schemas/DataModels';
   export function generateFeatures(
     location: GeoPoint,
-    demandSupply: DemandSupplyData
+    demandSupply: DemandSupplyData | GridDemandSupplyData,
+    historicalData?: any[],
+    demandWindow?: DemandWindow
   ): Promise<number[]>;
 }
 
@@ -92,32 +197,41 @@ declare module './featureEngineering' {
 declare module 'express' {
   import { Server } from 'http';
   
-  interface Response {
-    status(code: number): Response;
-    json(body: any): Response;
-    send(body: any): Response;
-  }
-  
-  interface Request {
-    query: {
-      [key: string]: string | string[] | undefined;
-    };
-    body: any;
-  }
-  
-  interface Application {
-    use(middleware: any): Application;
-    get(path: string, handler: (req: Request, res: Response) => void): Application;
-    post(path: string, handler: (req: Request, res: Response) => void): Application;
-    put(path: string, handler: (req: Request, res: Response) => void): Application;
-    delete(path: string, handler: (req: Request, res: Response) => void): Application;
-    listen(port: number, callback?: () => void): Server;
-  }
-  
-  function express(): Application;
+  function express(): express.Application;
   
   namespace express {
-    function json(): any;
+    interface Response {
+      status(code: number): Response;
+      json(body: any): Response;
+      send(body: any): Response;
+    }
+    
+    interface Request {
+      params: {
+        [key: string]: string;
+      };
+      query: {
+        [key: string]: string | string[] | undefined;
+      };
+      body: any;
+      // Unparsed request body, kept by the JSON body parser's verify hook
+      rawBody?: Buffer;
+      get(name: string): string | undefined;
+    }
+    
+    interface Application {
+      use(middleware: any): Application;
+      get(path: string, handler: (req: Request, res: Response) => void): Application;
+      post(path: string, handler: (req: Request, res: Response) => void): Application;
+      put(path: string, handler: (req: Request, res: Response) => void): Application;
+      delete(path: string, handler: (req: Request, res: Response) => void): Application;
+      listen(port: number, callback?: () => void): Server;
+    }
+    
+    function json(options?: {
+      limit?: string;
+      verify?: (req: Request, res: Response, buf: Buffer) => void;
+    }): any;
     function urlencoded(options: { extended: boolean }): any;
     function static(root: string): any;
   }
@@ -1,4 +1,5 @@
 // Type definitions for the application
+import { DemandMetrics } from '../schemas/DataModels';
 
 // Geospatial types
 export interface BoundingBox {
@@ -63,6 +64,15 @@ export interface DemandSupplyData {
   supply: DriverLocation[];
 }
 
+// Aggregated grid cell counts from StreamProcessor.getDemandSupplyForH3
+export interface GridDemandSupplyData {
+  demand: number;
+  demandMetrics?: DemandMetrics;
+  windowEnd?: string;
+  supply: number;
+  supplyByVehicleType?: Record<string, number>;
+}
+
 export interface ProcessedData {
   h3_index: string;
   demand_count: number;
@@ -4,11 +4,21 @@ import * as schemas from '../schemas/AvroSchemas';
 // Export the schemas for use in other files
 export { schemas };
 
+/**
+ * Name of a schema in schemas/AvroSchemas.ts
+ */
+export type AvroSchemaName = keyof typeof schemas;
+
 /**
  * Cache of compiled Avro schemas
  */
 const schemaCache = new Map<string, avro.Type>();
 
+/**
+ * Cache of resolvers per reader and writer schema
+ */
+const resolverCache = new WeakMap<avro.Type, WeakMap<avro.Type, any>>();
+
 /**
  * Get a compiled Avro schema by name
  * @param schemaName The name of the schema to get
@@ -47,6 +57,60 @@ export function decode<T>(schemaName: keyof typeof schemas, buffer: Buffer): T {
   return schema.fromBuffer(buffer) as T;
 }
 
+/**
+ * Encode plain JSON data using an Avro schema
+ *
+ * Plain JSON omits nullable fields and carries union values without their
+ * branch type; missing fields take their schema defaults and union values are
+ * wrapped in the first branch they are valid for before encoding.
+ * @param schemaName The name of the schema to use
+ * @param data The JSON data to encode
+ * @returns The encoded data as a Buffer
+ */
+export function encodeJson<T>(schemaName: keyof typeof schemas, data: T): Buffer {
+  const schema = getSchema(schemaName);
+  return schema.toBuffer(schema.clone(fillDefaults(schema, data), { wrapUnions: true }));
+}
+
+/**
+ * Decode data using an Avro schema into plain JSON
+ *
+ * The reverse of encodeJson: union values are unwrapped and records become
+ * plain objects. Data written with another version of the schema is resolved
+ * into the current one, e.g. fields added since take their defaults.
+ * @param schemaName The name of the schema to use
+ * @param buffer The buffer to decode
+ * @param writerSchema The compiled schema the data was written with, if not the current one
+ * @returns The decoded data
+ */
+export function decodeJson<T>(schemaName: keyof typeof schemas, buffer: Buffer, writerSchema?: avro.Type): T {
+  const schema = getSchema(schemaName);
+  const value = writerSchema && writerSchema !== schema
+    ? schema.fromBuffer(buffer, getResolver(schema, writerSchema))
+    : schema.fromBuffer(buffer);
+  return unwrapUnions(schema, value) as T;
+}
+
+/**
+ * Get a resolver that reads data written with one schema as another
+ * @param readerSchema The compiled schema to read as
+ * @param writerSchema The compiled schema the data was written with
+ * @returns The resolver
+ * @throws If data written with the writer schema cannot be read as the reader schema
+ */
+export function getResolver(readerSchema: avro.Type, writerSchema: avro.Type): any {
+  let resolvers = resolverCache.get(readerSchema);
+  if (!resolvers) {
+    resolvers = new WeakMap();
+    resolverCache.set(readerSchema, resolvers);
+  }
+
+  if (!resolvers.has(writerSchema)) {
+    resolvers.set(writerSchema, readerSchema.createResolver(writerSchema));
+  }
+  return resolvers.get(writerSchema);
+}
+
 /**
  * Validate data against an Avro schema
  * @param schemaName The name of the schema to use
@@ -77,6 +141,35 @@ export function getValidationErrors<T>(schemaName: keyof typeof schemas, data: T
   return errors;
 }
 
+/**
+ * Get validation errors for JSON data against an Avro schema
+ *
+ * Unlike Avro's own JSON encoding, plain JSON carries union values without
+ * their branch type, e.g. `"h3Index": "abc"` rather than
+ * `"h3Index": { "string": "abc" }`, and may omit nullable fields. Such values
+ * are accepted if any branch of the union matches them.
+ * @param schemaName The name of the schema to use
+ * @param data The JSON data to validate
+ * @returns An array of validation errors, or an empty array if the data is valid
+ */
+export function getJsonValidationErrors<T>(schemaName: keyof typeof schemas, data: T): string[] {
+  const schema = getSchema(schemaName);
+  const failures: { path: string[]; value: any; type: any }[] = [];
+  
+  // Collect failures first; validating union branches inside the hook would
+  // reset the path of the validation in progress
+  schema.isValid(data, {
+    errorHook: (path, value, type) => failures.push({ path, value, type })
+  });
+  
+  return failures
+    .filter(({ value, type }) => !(
+      typeof type.getTypes === 'function' &&
+      type.getTypes().some((branch: avro.Type) => branch.isValid(value === undefined ? null : value))
+    ))
+    .map(({ path, value, type }) => `Invalid value at ${path.join('.')}: ${JSON.stringify(value)} is not a valid ${type}`);
+}
+
 /**
  * Create a new instance of a schema with default values
  * @param schemaName The name of the schema to use
@@ -103,4 +196,84 @@ export function getSchemaJson(schemaName: keyof typeof schemas): string {
  */
 export function getSchemaNames(): string[] {
   return Object.keys(schemas);
-} 
\ No newline at end of file
+} 
+
+/**
+ * Replace missing record fields with their defaults, throughout a JSON value
+ * @param type Avro type of the value
+ * @param value JSON value
+ * @returns The value with every record field present
+ */
+function fillDefaults(type: any, value: any): any {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  if (typeof type.getFields === 'function' && typeof value === 'object') {
+    const record: Record<string, any> = {};
+    for (const field of type.getFields()) {
+      const fieldValue = value[field.getName()];
+      record[field.getName()] = fieldValue === undefined && field.getDefault() !== undefined
+        ? field.getDefault()
+        : fillDefaults(field.getType(), fieldValue);
+    }
+    return record;
+  }
+
+  if (typeof type.getTypes === 'function') {
+    // Fill the value for the first branch it is valid for
+    for (const branch of type.getTypes()) {
+      const filled = fillDefaults(branch, value);
+      if (branch.isValid(filled)) {
+        return filled;
+      }
+    }
+    return value;
+  }
+
+  if (typeof type.getItemsType === 'function' && Array.isArray(value)) {
+    return value.map(item => fillDefaults(type.getItemsType(), item));
+  }
+
+  if (typeof type.getValuesType === 'function' && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillDefaults(type.getValuesType(), item)]));
+  }
+
+  return value;
+}
+
+/**
+ * Unwrap union values and convert records to plain objects, throughout a decoded value
+ * @param type Avro type of the value
+ * @param value Decoded value
+ * @returns The plain JSON value
+ */
+function unwrapUnions(type: any, value: any): any {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  if (typeof type.getTypes === 'function') {
+    // Wrapped values are single-key objects, e.g. { string: 'abc' }
+    const wrapped = Object.values(value)[0];
+    const branch = type.getTypes().find((candidate: any) => candidate.isValid(wrapped));
+    return branch ? unwrapUnions(branch, wrapped) : wrapped;
+  }
+
+  if (typeof type.getFields === 'function') {
+    return Object.fromEntries(type.getFields().map((field: any) => [
+      field.getName(),
+      unwrapUnions(field.getType(), value[field.getName()]),
+    ]));
+  }
+
+  if (typeof type.getItemsType === 'function') {
+    return value.map((item: any) => unwrapUnions(type.getItemsType(), item));
+  }
+
+  if (typeof type.getValuesType === 'function') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, unwrapUnions(type.getValuesType(), item)]));
+  }
+
+  return value;
+}
@@ -0,0 +1,318 @@
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import { Logger } from './Logger';
+
+/**
+ * Dead-letter queue options
+ */
+export interface DeadLetterOptions {
+  topic: string;
+  maxRetries: number;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  backoffMultiplier: number;
+  maxEntries: number;
+}
+
+/**
+ * Description of the operation that failed
+ */
+export interface DeadLetterContext {
+  source: string;
+  // Replay handler that re-runs the failed operation
+  route: string;
+  // Which of the route's handlers failed, for routes that run several per event
+  handler?: string;
+  topic?: string;
+  key?: string;
+  payload: any;
+  // Set when the payload is a binary message value encoded as a string
+  payloadEncoding?: 'base64';
+  // Event time of events dead-lettered before they entered the pipeline
+  eventTime?: string;
+}
+
+/**
+ * Dead-lettered event
+ */
+export interface DeadLetterEntry extends DeadLetterContext {
+  id: string;
+  error: string;
+  retryCount: number;
+  replayCount: number;
+  firstFailedAt: string;
+  lastFailedAt: string;
+  // Set on the record published once the entry is replayed or discarded
+  resolvedAt?: string;
+}
+
+/**
+ * Filter for listing dead-letter entries
+ */
+export interface DeadLetterFilter {
+  source?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Function that publishes a dead-letter entry to Kafka
+ */
+export type DeadLetterPublisher = (topic: string, key: string, entry: DeadLetterEntry) => Promise<void>;
+
+/**
+ * Function that re-runs the failed operation for a dead-letter entry
+ */
+export type ReplayHandler = (entry: DeadLetterEntry) => Promise<void>;
+
+/**
+ * Dead-letter queue for events that could not be processed
+ *
+ * Operations are retried with exponential backoff; once retries are exhausted
+ * the payload, source, error and retry count are written to the DLQ topic and
+ * kept in a bounded in-memory index so they can be inspected and replayed.
+ * Every change to an entry is published to the topic again, keyed by its ID,
+ * so the index can be rebuilt from the topic after a restart.
+ * Every entry names the route it is replayed through, so one queue can hold
+ * the failures of several components, each replaying its own entries.
+ */
+export class DeadLetterQueue {
+  private entries = new Map<string, DeadLetterEntry>();
+  private replayHandlers = new Map<string, ReplayHandler>();
+  private logger: Logger;
+
+  /**
+   * Create a new dead-letter queue
+   * @param publisher Function used to write entries to the DLQ topic
+   * @param options Retry and retention options
+   */
+  constructor(
+    private readonly publisher: DeadLetterPublisher,
+    private readonly options: DeadLetterOptions = {
+      topic: config.kafka.topics.deadLetter,
+      ...config.pipeline.deadLetter,
+    }
+  ) {
+    this.logger = new Logger('DeadLetterQueue');
+  }
+
+  /**
+   * Set the handler used to replay the entries of a route back into the pipeline
+   * @param route Route named by the entries
+   * @param handler Replay handler
+   */
+  setReplayHandler(route: string, handler: ReplayHandler): void {
+    this.replayHandlers.set(route, handler);
+  }
+
+  /**
+   * Run an operation, retrying with backoff and dead-lettering it on final failure
+   * @param context Description of the operation
+   * @param operation Operation to run
+   * @returns True if the operation succeeded, false if it was dead-lettered
+   */
+  async execute(context: DeadLetterContext, operation: () => Promise<void>): Promise<boolean> {
+    return this.executeBatch([context], operation);
+  }
+
+  /**
+   * Run an operation covering several events, retrying with backoff and
+   * dead-lettering every event on final failure
+   * @param contexts Description of each event the operation covers
+   * @param operation Operation to run
+   * @returns True if the operation succeeded, false if the events were dead-lettered
+   */
+  async executeBatch(contexts: DeadLetterContext[], operation: () => Promise<void>): Promise<boolean> {
+    let retryCount = 0;
+
+    for (;;) {
+      try {
+        await operation();
+        return true;
+      } catch (error) {
+        if (retryCount >= this.options.maxRetries) {
+          for (const context of contexts) {
+            await this.deadLetter(context, error as Error, retryCount);
+          }
+          return false;
+        }
+
+        await this.sleep(this.getBackoffMs(retryCount));
+        retryCount++;
+      }
+    }
+  }
+
+  /**
+   * Write a failed event to the dead-letter queue
+   * @param context Description of the failed operation
+   * @param error Error that caused the failure
+   * @param retryCount Number of retries attempted
+   * @returns The dead-letter entry
+   */
+  async deadLetter(context: DeadLetterContext, error: Error, retryCount: number): Promise<DeadLetterEntry> {
+    const now = new Date().toISOString();
+    const entry: DeadLetterEntry = {
+      ...context,
+      id: uuidv4(),
+      error: error.message,
+      retryCount,
+      replayCount: 0,
+      firstFailedAt: now,
+      lastFailedAt: now,
+    };
+
+    this.logger.error(`Dead-lettering ${context.source} event after ${retryCount} retries: ${error.message}`);
+
+    this.index(entry);
+    await this.publish(entry);
+
+    return entry;
+  }
+
+  /**
+   * List dead-letter entries, oldest first
+   * @param filter Optional source filter and paging
+   */
+  list(filter: DeadLetterFilter = {}): DeadLetterEntry[] {
+    const offset = filter.offset || 0;
+    const entries = Array.from(this.entries.values())
+      .filter(entry => !filter.source || entry.source === filter.source);
+
+    return entries.slice(offset, filter.limit ? offset + filter.limit : undefined);
+  }
+
+  /**
+   * Get a dead-letter entry
+   * @param id Entry ID
+   */
+  get(id: string): DeadLetterEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  /**
+   * Remove a dead-letter entry from the index, marking it resolved on the DLQ topic
+   * @param id Entry ID
+   * @returns True if the entry existed
+   */
+  remove(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    this.entries.delete(id);
+    void this.publish({ ...entry, resolvedAt: new Date().toISOString() });
+
+    return true;
+  }
+
+  /**
+   * Rebuild the index from the records read back from the DLQ topic
+   *
+   * The last record of each entry wins, and entries whose last record marks
+   * them resolved are left out.
+   * @param records Dead-letter records, oldest first
+   */
+  restore(records: DeadLetterEntry[]): void {
+    for (const record of records) {
+      if (record.resolvedAt) {
+        this.entries.delete(record.id);
+      } else {
+        this.index(record);
+      }
+    }
+
+    this.logger.info(`Restored ${this.entries.size} dead-letter entries from ${this.options.topic}`);
+  }
+
+  /**
+   * Get the number of indexed entries
+   */
+  size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Replay a dead-letter entry back into the pipeline
+   *
+   * The entry is removed on success and marked resolved on the DLQ topic. On
+   * failure it stays in the index with its error and replay count updated,
+   * and the error is rethrown.
+   * @param id Entry ID
+   * @returns The replayed entry, or undefined if it does not exist
+   */
+  async replay(id: string): Promise<DeadLetterEntry | undefined> {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return undefined;
+    }
+
+    const replayHandler = this.replayHandlers.get(entry.route);
+    if (!replayHandler) {
+      throw new Error(`No replay handler is registered for route ${entry.route}`);
+    }
+
+    entry.replayCount++;
+
+    try {
+      await replayHandler(entry);
+      this.entries.delete(id);
+      this.logger.info(`Replayed dead-letter entry ${id} (${entry.source})`);
+      await this.publish({ ...entry, resolvedAt: new Date().toISOString() });
+      return entry;
+    } catch (error) {
+      entry.error = (error as Error).message;
+      entry.lastFailedAt = new Date().toISOString();
+      await this.publish(entry);
+      throw error;
+    }
+  }
+
+  /**
+   * Add an entry to the in-memory index, evicting the oldest when full
+   * @param entry Dead-letter entry
+   * @private
+   */
+  private index(entry: DeadLetterEntry): void {
+    this.entries.set(entry.id, entry);
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Publish an entry to the DLQ topic
+   * @param entry Dead-letter entry
+   * @private
+   */
+  private async publish(entry: DeadLetterEntry): Promise<void> {
+    try {
+      await this.publisher(this.options.topic, entry.id, entry);
+    } catch (error) {
+      // Keep the entry in the index so it can still be replayed
+      this.logger.error(`Failed to publish dead-letter entry ${entry.id} to ${this.options.topic}:`, error);
+    }
+  }
+
+  /**
+   * Get the backoff delay for a retry attempt
+   * @param retryCount Number of retries already attempted
+   * @private
+   */
+  private getBackoffMs(retryCount: number): number {
+    const backoff = this.options.initialBackoffMs * Math.pow(this.options.backoffMultiplier, retryCount);
+    return Math.min(backoff, this.options.maxBackoffMs);
+  }
+
+  /**
+   * Wait for a number of milliseconds
+   * @param ms Delay in milliseconds
+   * @private
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,167 @@
+import config from '../config';
+
+/**
+ * Function that derives the deduplication key of a payload
+ * @returns The key, or undefined if the payload cannot be deduplicated
+ */
+export type DedupKeyFn = (payload: any) => string | undefined;
+
+/**
+ * Per-source deduplication settings
+ */
+export interface DedupSourceOptions {
+  enabled: boolean;
+  ttlMs: number;
+}
+
+/**
+ * Event deduplicator options
+ */
+export interface EventDeduplicatorOptions {
+  maxEntriesPerSource: number;
+  sources: Record<string, DedupSourceOptions>;
+}
+
+/**
+ * Deduplication metrics for a source
+ */
+export interface DedupMetrics {
+  checked: number;
+  duplicates: number;
+  tracked: number;
+}
+
+/**
+ * Deduplication keys per source
+ *
+ * Key functions accept both the connector payloads and the snake_case
+ * payloads consumed from Kafka in `services/dataStream.ts`.
+ */
+export const DEDUP_KEYS: Record<string, DedupKeyFn> = {
+  'ride-request-api': payload => payload.requestId ?? payload.id,
+  'events-api': payload => payload.id,
+  'traffic-api': payload =>
+    payload.roadSegmentId !== undefined ? `${payload.roadSegmentId}|${payload.timestamp}` : undefined,
+  'driver-location-service': payload => {
+    const driverId = payload.driverId ?? payload.driver_id;
+    return driverId !== undefined ? `${driverId}|${payload.timestamp}` : undefined;
+  },
+};
+
+/**
+ * Seen-set state for a source
+ */
+interface SourceState {
+  // Key to expiry time, in insertion (and therefore expiry) order
+  seen: Map<string, number>;
+  metrics: DedupMetrics;
+}
+
+/**
+ * Drops events that were already ingested
+ *
+ * Each source has its own TTL-bounded seen-set keyed by a source-specific ID.
+ * Because every key of a source has the same TTL, insertion order is expiry
+ * order and expired keys are pruned from the front of the set. Sources that
+ * are disabled or have no key function always pass through.
+ */
+export class EventDeduplicator {
+  private sources = new Map<string, SourceState>();
+
+  /**
+   * Create a new event deduplicator
+   * @param options Deduplication options
+   * @param keys Deduplication key functions per source
+   */
+  constructor(
+    private readonly options: EventDeduplicatorOptions = config.pipeline.dedup,
+    private readonly keys: Record<string, DedupKeyFn> = DEDUP_KEYS
+  ) {}
+
+  /**
+   * Check whether an event was already seen, recording it if not
+   * @param source Data source name
+   * @param payload Event payload
+   * @param now Current time in milliseconds
+   * @returns True if the event is a duplicate and should be dropped
+   */
+  isDuplicate(source: string, payload: any, now: number = Date.now()): boolean {
+    const sourceOptions = this.options.sources[source];
+    const getKey = this.keys[source];
+
+    if (!sourceOptions || !sourceOptions.enabled || !getKey) {
+      return false;
+    }
+
+    const key = getKey(payload);
+    if (key === undefined) {
+      return false;
+    }
+
+    const state = this.getSourceState(source);
+    this.prune(state, now);
+
+    state.metrics.checked++;
+
+    if (state.seen.has(key)) {
+      state.metrics.duplicates++;
+      return true;
+    }
+
+    state.seen.set(key, now + sourceOptions.ttlMs);
+
+    // Bound memory even if the TTL is long relative to the event rate
+    if (state.seen.size > this.options.maxEntriesPerSource) {
+      state.seen.delete(state.seen.keys().next().value as string);
+    }
+
+    return false;
+  }
+
+  /**
+   * Get deduplication metrics per source
+   */
+  getMetrics(): Record<string, DedupMetrics> {
+    const metrics: Record<string, DedupMetrics> = {};
+
+    for (const [source, state] of this.sources.entries()) {
+      metrics[source] = { ...state.metrics, tracked: state.seen.size };
+    }
+
+    return metrics;
+  }
+
+  /**
+   * Remove expired keys from the front of a seen-set
+   * @param state Source state
+   * @param now Current time in milliseconds
+   * @private
+   */
+  private prune(state: SourceState, now: number): void {
+    for (const [key, expiresAt] of state.seen) {
+      if (expiresAt > now) {
+        break;
+      }
+      state.seen.delete(key);
+    }
+  }
+
+  /**
+   * Get or create the state for a source
+   * @param source Data source name
+   * @private
+   */
+  private getSourceState(source: string): SourceState {
+    let state = this.sources.get(source);
+
+    if (!state) {
+      state = {
+        seen: new Map(),
+        metrics: { checked: 0, duplicates: 0, tracked: 0 },
+      };
+      this.sources.set(source, state);
+    }
+
+    return state;
+  }
+}
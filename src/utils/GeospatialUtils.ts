@@ -143,6 +143,29 @@ export function getH3Resolution(h3Index: string): number {
   return h3.getResolution(h3Index);
 }
 
+/**
+ * Get the parent of an H3 index at a coarser resolution
+ * @param h3Index H3 index
+ * @param resolution Parent resolution (must not be finer than the index)
+ * @returns Parent H3 index
+ */
+export function getParentCell(h3Index: string, resolution: number): string {
+  return h3.cellToParent(h3Index, resolution);
+}
+
+/**
+ * Get the parents of an H3 index at each of the given coarser resolutions
+ * @param h3Index H3 index
+ * @param resolutions Parent resolutions; resolutions not coarser than the index are skipped
+ * @returns Parent H3 indexes, in the order of the given resolutions
+ */
+export function getParentCells(h3Index: string, resolutions: number[]): string[] {
+  const resolution = getH3Resolution(h3Index);
+  return resolutions
+    .filter(parentResolution => parentResolution < resolution)
+    .map(parentResolution => getParentCell(h3Index, parentResolution));
+}
+
 /**
  * Check if two H3 indexes are neighbors
  * @param h3Index1 First H3 index
@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import AdmZip from 'adm-zip';
+import axios from 'axios';
+import { Logger } from './Logger';
+import { parseCsv } from './CsvUtils';
+
+/**
+ * Stop from stops.txt
+ */
+export interface GtfsStop {
+  stopId: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Route from routes.txt
+ */
+export interface GtfsRoute {
+  routeId: string;
+  shortName: string;
+  longName: string;
+  // GTFS route type, e.g. 1 for subway and 3 for bus
+  type: number;
+}
+
+/**
+ * Static GTFS feed: stops and routes, and the stops each route and trip serves
+ *
+ * Only stops.txt is required. routes.txt adds route names, and trips.txt with
+ * stop_times.txt lets route- and trip-level disruptions be mapped to stops.
+ */
+export class GtfsStaticFeed {
+  private stops = new Map<string, GtfsStop>();
+  private routes = new Map<string, GtfsRoute>();
+  private tripRoutes = new Map<string, string>();
+  private tripStops = new Map<string, string[]>();
+  private routeStops = new Map<string, Set<string>>();
+  private logger: Logger;
+
+  /**
+   * Create a static GTFS feed from the files of a GTFS zip
+   * @param files File contents by file name
+   */
+  constructor(files: Record<string, string | undefined>) {
+    this.logger = new Logger('GtfsStaticFeed');
+
+    if (!files['stops.txt']) {
+      throw new Error('GTFS feed has no stops.txt');
+    }
+
+    for (const row of parseCsv(files['stops.txt'])) {
+      const latitude = parseFloat(row.stop_lat);
+      const longitude = parseFloat(row.stop_lon);
+
+      // Entrances and generic nodes may have no coordinates
+      if (!row.stop_id || Number.isNaN(latitude) || Number.isNaN(longitude)) {
+        continue;
+      }
+
+      this.stops.set(row.stop_id, { stopId: row.stop_id, name: row.stop_name || row.stop_id, latitude, longitude });
+    }
+
+    for (const row of parseCsv(files['routes.txt'] || '')) {
+      this.routes.set(row.route_id, {
+        routeId: row.route_id,
+        shortName: row.route_short_name || '',
+        longName: row.route_long_name || '',
+        type: parseInt(row.route_type, 10),
+      });
+    }
+
+    for (const row of parseCsv(files['trips.txt'] || '')) {
+      this.tripRoutes.set(row.trip_id, row.route_id);
+    }
+
+    for (const row of parseCsv(files['stop_times.txt'] || '')) {
+      const stops = this.tripStops.get(row.trip_id) || [];
+      stops.push(row.stop_id);
+      this.tripStops.set(row.trip_id, stops);
+
+      const routeId = this.tripRoutes.get(row.trip_id);
+      if (routeId) {
+        const routeStops = this.routeStops.get(routeId) || new Set<string>();
+        routeStops.add(row.stop_id);
+        this.routeStops.set(routeId, routeStops);
+      }
+    }
+
+    this.logger.info(`Loaded GTFS feed with ${this.stops.size} stops, ${this.routes.size} routes and ${this.tripStops.size} trips`);
+  }
+
+  /**
+   * Load a static GTFS zip from a local path or an HTTP(S) URL
+   * @param location Path or URL of the zip
+   * @returns The static GTFS feed
+   */
+  static async load(location: string): Promise<GtfsStaticFeed> {
+    const data = /^https?:\/\//.test(location)
+      ? Buffer.from((await axios.get(location, { responseType: 'arraybuffer' })).data)
+      : await fs.promises.readFile(location);
+
+    // Feeds are sometimes zipped with their files inside a folder
+    const files: Record<string, string> = {};
+    for (const entry of new AdmZip(data).getEntries()) {
+      if (!entry.isDirectory) {
+        files[path.basename(entry.entryName)] = entry.getData().toString('utf8');
+      }
+    }
+
+    return new GtfsStaticFeed(files);
+  }
+
+  /**
+   * Get a stop
+   * @param stopId Stop ID
+   */
+  getStop(stopId: string): GtfsStop | undefined {
+    return this.stops.get(stopId);
+  }
+
+  /**
+   * Get a route
+   * @param routeId Route ID
+   */
+  getRoute(routeId: string): GtfsRoute | undefined {
+    return this.routes.get(routeId);
+  }
+
+  /**
+   * Get the route a trip belongs to
+   * @param tripId Trip ID
+   */
+  getTripRoute(tripId: string): string | undefined {
+    return this.tripRoutes.get(tripId);
+  }
+
+  /**
+   * Get the stops a trip serves, in the order stop_times.txt lists them
+   * @param tripId Trip ID
+   */
+  getTripStops(tripId: string): string[] {
+    return this.tripStops.get(tripId) || [];
+  }
+
+  /**
+   * Get the stops any trip of a route serves
+   * @param routeId Route ID
+   */
+  getRouteStops(routeId: string): string[] {
+    return Array.from(this.routeStops.get(routeId) || []);
+  }
+}
@@ -2,6 +2,9 @@ import { Kafka, Producer, Consumer } from 'kafkajs';
 import { EventEmitter } from 'events';
 import config from '../config';
 import * as AvroUtils from './AvroUtils';
+import { MessageSerializer } from './MessageSerializer';
+import { DeadLetterQueue, DeadLetterEntry } from './DeadLetterQueue';
+import { H3Partitioner } from '../kafka/H3Partitioner';
 
 /**
  * Kafka message type definition
@@ -31,19 +34,31 @@ export class KafkaService {
   private eventEmitter: EventEmitter = new EventEmitter();
   private isConnected: boolean = false;
   private isProducerConnected: boolean = false;
-  private topicHandlers: Map<string, Set<MessageHandler>> = new Map();
+  // Handlers of each topic by handler ID
+  private topicHandlers: Map<string, Map<string, MessageHandler>> = new Map();
+  private handlerSequence: number = 0;
   private healthStatus: 'HEALTHY' | 'DEGRADED' | 'UNHEALTHY' = 'UNHEALTHY';
   private lastError: Error | null = null;
+  private serializer: MessageSerializer;
+  private deadLetterQueue: DeadLetterQueue;
+  // Dead-letter route of messages whose handlers failed
+  private replayRoute: string;
+  private partitioner: H3Partitioner = new H3Partitioner();
 
   /**
    * Create a new Kafka service
    * @param clientId The client ID to use
    * @param brokers The Kafka brokers to connect to
+   * @param consumerGroupId The consumer group ID prefix
+   * @param serializer Serializer of message values (optional)
+   * @param deadLetterQueue Dead-letter queue for failed messages, e.g. the pipeline's so the admin API can reach them (optional)
    */
   constructor(
     private readonly clientId: string = config.kafka.clientId,
     private readonly brokers: string[] = config.kafka.brokers,
-    private readonly consumerGroupId: string = config.kafka.consumerGroup
+    private readonly consumerGroupId: string = config.kafka.consumerGroup,
+    serializer?: MessageSerializer,
+    deadLetterQueue?: DeadLetterQueue
   ) {
     this.kafka = new Kafka({
       clientId: this.clientId,
@@ -53,6 +68,13 @@ export class KafkaService {
         retries: 10
       }
     });
+
+    this.serializer = serializer || new MessageSerializer();
+    this.deadLetterQueue = deadLetterQueue || new DeadLetterQueue(
+      (topic, key, entry) => this.sendMessage(topic, entry, key)
+    );
+    this.replayRoute = `kafka-consume:${this.consumerGroupId}`;
+    this.deadLetterQueue.setReplayHandler(this.replayRoute, entry => this.replayDeadLetter(entry));
   }
 
   /**
@@ -115,7 +137,14 @@ export class KafkaService {
   }
 
   /**
-   * Send a message to a Kafka topic
+   * Get the dead-letter queue for messages whose handlers failed
+   */
+  getDeadLetterQueue(): DeadLetterQueue {
+    return this.deadLetterQueue;
+  }
+
+  /**
+   * Send a message to a Kafka topic in the topic's wire format
    * @param topic The topic to send the message to
    * @param message The message to send
    * @param key The message key (optional)
@@ -127,32 +156,11 @@ export class KafkaService {
     key?: string,
     headers?: Record<string, string>
   ): Promise<void> {
-    if (!this.isProducerConnected) {
-      await this.connectProducer();
-    }
-
-    try {
-      await this.producer!.send({
-        topic,
-        compression: 2, // GZIP
-        messages: [
-          {
-            value: JSON.stringify(message),
-            ...(key && { key }),
-            ...(headers && { headers })
-          }
-        ]
-      });
-    } catch (error) {
-      console.error(`Error sending message to topic ${topic}:`, error);
-      this.healthStatus = 'DEGRADED';
-      this.lastError = error as Error;
-      throw error;
-    }
+    await this.sendValue(topic, this.serializer.serialize(topic, message), key, this.partitioner.withPartitionCell(message, headers));
   }
 
   /**
-   * Send a message to a Kafka topic using Avro serialization
+   * Send a message to a Kafka topic as Confluent-framed Avro, whatever the topic's wire format
    * @param topic The topic to send the message to
    * @param schemaName The name of the Avro schema to use
    * @param message The message to send
@@ -161,24 +169,46 @@ export class KafkaService {
    */
   async sendAvroMessage<T>(
     topic: string,
-    schemaName: string,
+    schemaName: keyof typeof AvroUtils.schemas,
     message: T,
     key?: string,
     headers?: Record<string, string>
+  ): Promise<void> {
+    await this.sendValue(topic, this.serializer.serializeAvro(schemaName, message), key, this.partitioner.withPartitionCell(message, headers));
+  }
+
+  /**
+   * Send a serialized message value to a Kafka topic
+   * @param topic The topic to send the message to
+   * @param value The serialized message value
+   * @param key The message key (optional)
+   * @param headers The message headers (optional)
+   * @private
+   */
+  private async sendValue(
+    topic: string,
+    value: string | Buffer,
+    key?: string,
+    headers?: Record<string, string | Buffer>
   ): Promise<void> {
     if (!this.isProducerConnected) {
       await this.connectProducer();
     }
 
     try {
-      // For now, we'll just send the message as JSON
-      // In a real implementation, we would use Avro serialization
-      await this.sendMessage(topic, message, key, {
-        'schema': schemaName,
-        ...(headers || {})
+      await this.producer!.send({
+        topic,
+        compression: 2, // GZIP
+        messages: [
+          {
+            value,
+            ...(key && { key }),
+            ...(headers && { headers })
+          }
+        ]
       });
     } catch (error) {
-      console.error(`Error sending Avro message to topic ${topic}:`, error);
+      console.error(`Error sending message to topic ${topic}:`, error);
       this.healthStatus = 'DEGRADED';
       this.lastError = error as Error;
       throw error;
@@ -190,20 +220,22 @@ export class KafkaService {
    * @param topic The topic to subscribe to
    * @param handler The message handler function
    * @param fromBeginning Whether to read from the beginning of the topic
+   * @param handlerId ID recorded on the handler's dead-lettered messages, stable across restarts (optional)
    */
   async subscribe(
     topic: string,
     handler: MessageHandler,
-    fromBeginning: boolean = false
+    fromBeginning: boolean = false,
+    handlerId: string = `handler-${++this.handlerSequence}`
   ): Promise<void> {
     try {
-      // Create a new handler set if one doesn't exist
+      // Create a new handler map if one doesn't exist
       if (!this.topicHandlers.has(topic)) {
-        this.topicHandlers.set(topic, new Set());
+        this.topicHandlers.set(topic, new Map());
       }
 
-      // Add the handler to the set
-      this.topicHandlers.get(topic)!.add(handler);
+      // Add the handler to the map
+      this.topicHandlers.get(topic)!.set(handlerId, handler);
 
       // If we already have a consumer for this topic, we're done
       if (this.consumers.has(topic)) {
@@ -229,21 +261,34 @@ export class KafkaService {
       // Start consuming messages
       await consumer.run({
         eachMessage: async ({ topic: messageTopic, partition, message }) => {
-          try {
-            // Get the handlers for this topic
-            const handlers = this.topicHandlers.get(messageTopic);
-            if (!handlers) {
-              return;
-            }
+          // Get the handlers for this topic
+          const handlers = this.topicHandlers.get(messageTopic);
+          if (!handlers) {
+            return;
+          }
 
-            // Call each handler
-            for (const handler of handlers) {
-              await handler(message as unknown as KafkaMessage);
+          const kafkaMessage = message as unknown as KafkaMessage;
+
+          // Call each handler, dead-lettering the message for that handler alone if it keeps failing
+          for (const [handlerId, handler] of handlers.entries()) {
+            const handled = await this.deadLetterQueue.execute(
+              {
+                source: `kafka:${messageTopic}`,
+                route: this.replayRoute,
+                handler: handlerId,
+                topic: messageTopic,
+                key: kafkaMessage.key?.toString(),
+                // Values may be binary Avro, which does not survive decoding as UTF-8
+                payload: kafkaMessage.value?.toString('base64') ?? null,
+                payloadEncoding: 'base64'
+              },
+              () => handler(kafkaMessage)
+            );
+
+            if (!handled) {
+              this.healthStatus = 'DEGRADED';
+              this.lastError = new Error(`Message from topic ${messageTopic} was dead-lettered`);
             }
-          } catch (error) {
-            console.error(`Error processing message from topic ${messageTopic}:`, error);
-            this.healthStatus = 'DEGRADED';
-            this.lastError = error as Error;
           }
         }
       });
@@ -263,15 +308,17 @@ export class KafkaService {
   /**
    * Subscribe to a Kafka topic with Avro deserialization
    * @param topic The topic to subscribe to
-   * @param schemaName The name of the Avro schema to use
+   * @param schemaName The name of the Avro schema the topic's values are expected to use
    * @param handler The message handler function
    * @param fromBeginning Whether to read from the beginning of the topic
+   * @param handlerId ID recorded on the handler's dead-lettered messages, stable across restarts (optional)
    */
   async subscribeAvro<T>(
     topic: string,
     schemaName: string,
     handler: (data: T, message: KafkaMessage) => Promise<void>,
-    fromBeginning: boolean = false
+    fromBeginning: boolean = false,
+    handlerId?: string
   ): Promise<void> {
     // Create a message handler that deserializes Avro messages
     const messageHandler: MessageHandler = async (message: KafkaMessage) => {
@@ -280,9 +327,8 @@ export class KafkaService {
           return;
         }
 
-        // For now, we'll just parse the message as JSON
-        // In a real implementation, we would use Avro deserialization
-        const decodedMessage = JSON.parse(message.value.toString()) as T;
+        // Framed values carry their schema ID; unframed ones are still JSON while the topic migrates
+        const decodedMessage = this.serializer.deserialize<T>(message.value);
 
         // Call the handler with the decoded message
         await handler(decodedMessage, message);
@@ -293,7 +339,7 @@ export class KafkaService {
     };
 
     // Subscribe to the topic with the Avro message handler
-    await this.subscribe(topic, messageHandler, fromBeginning);
+    await this.subscribe(topic, messageHandler, fromBeginning, handlerId);
   }
 
   /**
@@ -303,9 +349,14 @@ export class KafkaService {
    */
   async unsubscribe(topic: string, handler?: MessageHandler): Promise<void> {
     try {
-      // If a handler is provided, remove it from the set
-      if (handler && this.topicHandlers.has(topic)) {
-        this.topicHandlers.get(topic)!.delete(handler);
+      // If a handler is provided, remove it from the map
+      const handlers = this.topicHandlers.get(topic);
+      if (handler && handlers) {
+        for (const [handlerId, subscribed] of handlers.entries()) {
+          if (subscribed === handler) {
+            handlers.delete(handlerId);
+          }
+        }
       }
 
       // If there are no more handlers for this topic, disconnect the consumer
@@ -328,26 +379,65 @@ export class KafkaService {
   }
 
   /**
-   * Create a Kafka topic
+   * Create a Kafka topic if it does not exist
    * @param topic The topic to create
    * @param numPartitions The number of partitions for the topic
    * @param replicationFactor The replication factor for the topic
+   * @param configs Topic configs, such as cleanup.policy (optional)
    */
   async createTopic(
     topic: string,
     numPartitions: number = 1,
-    replicationFactor: number = 1
+    replicationFactor: number = 1,
+    configs: Record<string, string> = {}
   ): Promise<void> {
+    const admin = this.kafka.admin();
     try {
-      // In a real implementation, we would use the Kafka admin API
-      // For now, we'll just log that we're creating the topic
-      console.log(`Created Kafka topic: ${topic} (simulated)`);
+      await admin.connect();
+      const created = await admin.createTopics({
+        waitForLeaders: true,
+        topics: [{
+          topic,
+          numPartitions,
+          replicationFactor,
+          configEntries: Object.entries(configs).map(([name, value]) => ({ name, value }))
+        }]
+      });
+      console.log(created ? `Created Kafka topic: ${topic}` : `Kafka topic ${topic} already exists`);
     } catch (error) {
       console.error(`Error creating Kafka topic ${topic}:`, error);
       throw error;
+    } finally {
+      await admin.disconnect();
     }
   }
 
+  /**
+   * Redeliver a dead-lettered message to the handler that failed it
+   *
+   * The topic's other handlers already processed the message, so they are not run again.
+   * @param entry Dead-letter entry
+   * @private
+   */
+  private async replayDeadLetter(entry: DeadLetterEntry): Promise<void> {
+    const handler = entry.topic && entry.handler ? this.topicHandlers.get(entry.topic)?.get(entry.handler) : undefined;
+    if (!handler) {
+      throw new Error(`Handler ${entry.handler} is not subscribed to topic ${entry.topic}`);
+    }
+
+    const value = entry.payload === null ? null : Buffer.from(entry.payload, entry.payloadEncoding);
+    const message: KafkaMessage = {
+      key: entry.key !== undefined ? Buffer.from(entry.key) : null,
+      value,
+      timestamp: Date.now().toString(),
+      size: value ? value.length : 0,
+      attributes: 0,
+      offset: '-1'
+    };
+
+    await handler(message);
+  }
+
   /**
    * Connect the Kafka producer
    * @private
@@ -360,7 +450,8 @@ export class KafkaService {
     try {
       this.producer = this.kafka.producer({
         allowAutoTopicCreation: true,
-        transactionTimeout: 30000
+        transactionTimeout: 30000,
+        createPartitioner: this.partitioner.createPartitioner
       });
 
       await this.producer.connect();
@@ -0,0 +1,187 @@
+import avro from 'avro-js';
+import config from '../config';
+import { decodeJson, encodeJson, schemas } from './AvroUtils';
+import { schemaRegistry } from './SchemaRegistry';
+
+/**
+ * Name of a schema in schemas/AvroSchemas.ts
+ */
+type SchemaName = keyof typeof schemas;
+
+/**
+ * Encoding of Kafka message values
+ */
+export type WireFormat = 'json' | 'avro';
+
+/**
+ * Wire format of a topic, and the Avro schema of its values when it uses Avro
+ */
+export interface TopicSerialization {
+  format: WireFormat;
+  schema?: SchemaName;
+}
+
+/**
+ * Maps Avro schemas to the IDs written in message headers, and back
+ */
+export interface SchemaIdResolver {
+  getSchemaId(schemaName: SchemaName): number;
+  getSchemaName(schemaId: number): SchemaName | undefined;
+  // Schema version an ID was written with, if it may differ from the current one
+  getWriterSchema?(schemaId: number): avro.Type | undefined;
+}
+
+/**
+ * First byte of a Confluent-framed message
+ */
+export const MAGIC_BYTE = 0;
+
+/**
+ * Length of the Confluent header: the magic byte and a 4-byte big-endian schema ID
+ */
+const HEADER_LENGTH = 5;
+
+/**
+ * Schema IDs from a fixed table
+ */
+export class StaticSchemaIds implements SchemaIdResolver {
+  private names = new Map<number, SchemaName>();
+
+  /**
+   * Create a schema ID table
+   * @param ids Schema ID of each schema
+   */
+  constructor(private readonly ids: Record<string, number>) {
+    for (const [name, id] of Object.entries(ids)) {
+      this.names.set(id, name as SchemaName);
+    }
+  }
+
+  /**
+   * Get the ID of a schema
+   * @param schemaName Schema name
+   */
+  getSchemaId(schemaName: SchemaName): number {
+    const id = this.ids[schemaName];
+    if (id === undefined) {
+      throw new Error(`Schema ${schemaName} has no schema ID`);
+    }
+    return id;
+  }
+
+  /**
+   * Get the schema with an ID
+   * @param schemaId Schema ID
+   */
+  getSchemaName(schemaId: number): SchemaName | undefined {
+    return this.names.get(schemaId);
+  }
+}
+
+/**
+ * Serializes Kafka message values as JSON or as Avro in the Confluent wire format
+ *
+ * Avro values are framed with a magic byte and the 4-byte big-endian ID of
+ * their schema, followed by the Avro binary encoding. Each topic is written in
+ * its configured format, JSON by default. Reading does not depend on the
+ * topic's format: framed values are decoded with the schema their header
+ * names and anything else is parsed as JSON, so consumers keep working while
+ * a topic moves from one format to the other. With the schema registry enabled,
+ * IDs name schema versions and older versions are resolved into the current one.
+ */
+export class MessageSerializer {
+  /**
+   * Create a new message serializer
+   * @param topics Wire format of each topic; unlisted topics use JSON
+   * @param schemaIds Resolver of schema IDs; the shared schema registry unless it is disabled
+   */
+  constructor(
+    private readonly topics: Record<string, TopicSerialization> = config.kafka.serialization.topics as Record<string, TopicSerialization>,
+    private readonly schemaIds: SchemaIdResolver = config.kafka.schemaRegistry.enabled
+      ? schemaRegistry
+      : new StaticSchemaIds(config.kafka.serialization.schemaIds),
+  ) {}
+
+  /**
+   * Get the wire format of a topic
+   * @param topic Kafka topic
+   */
+  getTopicSerialization(topic: string): TopicSerialization {
+    return this.topics[topic] || { format: 'json' };
+  }
+
+  /**
+   * Serialize a value in its topic's wire format
+   * @param topic Kafka topic
+   * @param value Message value
+   * @returns JSON string or Confluent-framed Avro
+   */
+  serialize(topic: string, value: any): string | Buffer {
+    const { format, schema } = this.getTopicSerialization(topic);
+
+    if (format !== 'avro') {
+      return JSON.stringify(value);
+    }
+    if (!schema) {
+      throw new Error(`Topic ${topic} uses Avro but has no schema`);
+    }
+
+    return this.serializeAvro(schema, value);
+  }
+
+  /**
+   * Serialize a value as Confluent-framed Avro
+   * @param schemaName Avro schema of the value
+   * @param value Message value
+   */
+  serializeAvro(schemaName: SchemaName, value: any): Buffer {
+    const header = Buffer.alloc(HEADER_LENGTH);
+    header.writeUInt8(MAGIC_BYTE, 0);
+    header.writeInt32BE(this.schemaIds.getSchemaId(schemaName), 1);
+
+    return Buffer.concat([header, encodeJson(schemaName, value)]);
+  }
+
+  /**
+   * Deserialize a message value written as JSON or Confluent-framed Avro
+   * @param value Message value
+   * @returns The decoded value
+   */
+  deserialize<T>(value: Buffer): T {
+    if (!MessageSerializer.isAvroFramed(value)) {
+      return JSON.parse(value.toString()) as T;
+    }
+
+    return this.deserializeAvro<T>(value);
+  }
+
+  /**
+   * Deserialize a Confluent-framed Avro message value
+   * @param value Message value
+   * @returns The decoded value
+   * @throws If the value is not framed or names an unknown schema
+   */
+  deserializeAvro<T>(value: Buffer): T {
+    if (!MessageSerializer.isAvroFramed(value)) {
+      throw new Error('Message value is not Confluent-framed Avro');
+    }
+
+    const schemaId = value.readInt32BE(1);
+    const schemaName = this.schemaIds.getSchemaName(schemaId);
+    if (!schemaName) {
+      throw new Error(`Unknown schema ID ${schemaId}`);
+    }
+
+    return decodeJson<T>(schemaName, value.subarray(HEADER_LENGTH), this.schemaIds.getWriterSchema?.(schemaId));
+  }
+
+  /**
+   * Check whether a message value is Confluent-framed
+   *
+   * JSON text never starts with a zero byte, so the magic byte tells the formats apart.
+   * @param value Message value
+   */
+  static isAvroFramed(value: Buffer): boolean {
+    return value.length >= HEADER_LENGTH && value[0] === MAGIC_BYTE;
+  }
+}
@@ -0,0 +1,209 @@
+import config from '../config';
+import { Logger } from './Logger';
+
+/**
+ * Resilience policy options
+ */
+export interface ResilienceOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  backoffMultiplier: number;
+  // Random spread applied to each backoff, as a fraction of it
+  jitterRatio: number;
+  // Consecutive failed calls that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a trial call is let through
+  resetTimeoutMs: number;
+}
+
+/**
+ * Circuit breaker state
+ * - closed: calls go through
+ * - open: calls are rejected without reaching the provider
+ * - half-open: a single trial call decides whether to close or reopen; other calls are rejected until it settles
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Timeout, retry and circuit breaker policy for calls to an external provider
+ *
+ * Each attempt is bounded by the timeout and failed attempts are retried with
+ * jittered exponential backoff. A call that fails after every retry counts as
+ * one failure towards the breaker; once enough consecutive calls fail, the
+ * circuit opens and calls are rejected until the reset timeout has passed.
+ */
+export class ResiliencePolicy {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private lastError?: Error;
+  private logger: Logger;
+
+  /**
+   * Create a new resilience policy
+   * @param name Name of the protected provider, used for logging
+   * @param options Policy options
+   */
+  constructor(
+    private readonly name: string,
+    private readonly options: ResilienceOptions = config.connectors.resilience
+  ) {
+    this.logger = new Logger(`ResiliencePolicy:${name}`);
+  }
+
+  /**
+   * Run a call through the policy
+   * @param operation Call to the provider
+   * @returns The call's result
+   * @throws If the circuit is open or the call fails after every retry
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    if (!this.allowRequest()) {
+      throw new Error(this.state === 'open'
+        ? `Circuit for ${this.name} is open`
+        : `Circuit for ${this.name} is half-open and waiting on a trial call`);
+    }
+
+    // A half-open circuit gets a single trial attempt
+    const isTrial = this.state === 'half-open';
+    const maxRetries = isTrial ? 0 : this.options.maxRetries;
+    let attempt = 0;
+
+    if (isTrial) {
+      this.trialInFlight = true;
+    }
+
+    try {
+      while (true) {
+        try {
+          const result = await this.withTimeout(operation);
+          this.recordSuccess();
+          return result;
+        } catch (error) {
+          if (attempt >= maxRetries) {
+            this.recordFailure(error);
+            throw error;
+          }
+
+          await this.sleep(this.getBackoffMs(attempt));
+          attempt++;
+        }
+      }
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  /**
+   * Get the circuit state
+   */
+  getState(): CircuitState {
+    this.allowRequest();
+    return this.state;
+  }
+
+  /**
+   * Get the error of the last failed call
+   */
+  getLastError(): Error | undefined {
+    return this.lastError;
+  }
+
+  /**
+   * Check whether a call may go through, moving an open circuit to half-open
+   * once the reset timeout has passed; a half-open circuit lets one trial call through at a time
+   * @private
+   */
+  private allowRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      this.state = 'half-open';
+    }
+
+    return this.state === 'closed' || (this.state === 'half-open' && !this.trialInFlight);
+  }
+
+  /**
+   * Close the circuit after a successful call
+   * @private
+   */
+  private recordSuccess(): void {
+    if (this.state !== 'closed') {
+      this.logger.info(`Circuit for ${this.name} closed`);
+    }
+
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.lastError = undefined;
+  }
+
+  /**
+   * Count a failed call, opening the circuit at the threshold
+   * @param error Error of the call
+   * @private
+   */
+  private recordFailure(error: unknown): void {
+    this.lastError = error instanceof Error ? error : new Error(String(error));
+    this.consecutiveFailures++;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        this.logger.warn(`Circuit for ${this.name} opened after ${this.consecutiveFailures} failed calls: ${this.lastError.message}`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Run an attempt, rejecting it if it exceeds the timeout
+   * @param operation Call to the provider
+   * @private
+   */
+  private withTimeout<T>(operation: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error(`Call to ${this.name} timed out after ${this.options.timeoutMs}ms`)),
+        this.options.timeoutMs
+      );
+
+      operation().then(
+        result => {
+          clearTimeout(timer);
+          resolve(result);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Get the jittered backoff delay before a retry
+   * @param attempt Zero-based attempt that failed
+   * @private
+   */
+  private getBackoffMs(attempt: number): number {
+    const backoff = Math.min(
+      this.options.maxBackoffMs,
+      this.options.initialBackoffMs * Math.pow(this.options.backoffMultiplier, attempt)
+    );
+
+    return Math.max(0, backoff * (1 + (Math.random() * 2 - 1) * this.options.jitterRatio));
+  }
+
+  /**
+   * Sleep for the given number of milliseconds
+   * @param ms Milliseconds to sleep
+   * @private
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,416 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import avro from 'avro-js';
+import { MongoClient, Collection } from 'mongodb';
+import config from '../config';
+import { getSchema, schemas } from './AvroUtils';
+import { SchemaIdResolver } from './MessageSerializer';
+import { Logger } from './Logger';
+
+/**
+ * Name of a schema in schemas/AvroSchemas.ts, which is the subject it is registered under
+ */
+type SchemaName = keyof typeof schemas;
+
+/**
+ * Compatibility a new schema version must have with the latest registered version
+ * - NONE: any change is accepted
+ * - BACKWARD: the new version can read data written with the latest one
+ * - FORWARD: the latest version can read data written with the new one
+ * - FULL: both BACKWARD and FORWARD
+ */
+export type CompatibilityMode = 'NONE' | 'BACKWARD' | 'FORWARD' | 'FULL';
+
+/**
+ * A registered version of a schema
+ */
+export interface RegisteredSchema {
+  // Globally unique ID written in the header of Avro messages
+  id: number;
+  subject: string;
+  version: number;
+  // SHA-256 of the schema definition
+  fingerprint: string;
+  definition: any;
+  registeredAt: string;
+}
+
+/**
+ * Schema registry options
+ */
+export interface SchemaRegistryOptions {
+  store: 'file' | 'mongo';
+  filePath: string;
+  mongoCollection: string;
+  compatibility: CompatibilityMode;
+}
+
+/**
+ * Pluggable store for registered schema versions
+ */
+export interface SchemaRegistryStore {
+  /**
+   * Connect to the backing store
+   */
+  connect(): Promise<void>;
+
+  /**
+   * Disconnect from the backing store
+   */
+  disconnect(): Promise<void>;
+
+  /**
+   * Load every registered schema version
+   */
+  load(): Promise<RegisteredSchema[]>;
+
+  /**
+   * Add a schema version
+   * @param schema Registered schema version
+   */
+  add(schema: RegisteredSchema): Promise<void>;
+}
+
+/**
+ * Schema registry store that keeps every version in a local JSON file
+ */
+export class FileSchemaRegistryStore implements SchemaRegistryStore {
+  private schemas: RegisteredSchema[] = [];
+
+  /**
+   * Create a new file schema registry store
+   * @param filePath Path of the registry file
+   */
+  constructor(private readonly filePath: string) {}
+
+  async connect(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+  }
+
+  async disconnect(): Promise<void> {
+    // Nothing to release
+  }
+
+  async load(): Promise<RegisteredSchema[]> {
+    try {
+      this.schemas = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      this.schemas = [];
+    }
+    return this.schemas;
+  }
+
+  async add(schema: RegisteredSchema): Promise<void> {
+    this.schemas = [...this.schemas, schema];
+
+    // Write to a temporary file first so a crash never leaves a partial registry
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(this.schemas, null, 2));
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Schema registry store that keeps each version as a document in a MongoDB collection
+ */
+export class MongoSchemaRegistryStore implements SchemaRegistryStore {
+  private client: MongoClient | null = null;
+  private collection: Collection<any> | null = null;
+
+  /**
+   * Create a new MongoDB schema registry store
+   * @param collectionName Collection holding the schema versions
+   */
+  constructor(private readonly collectionName: string) {}
+
+  async connect(): Promise<void> {
+    this.client = await MongoClient.connect(config.mongodb.uri);
+    this.collection = this.client.db().collection(this.collectionName);
+    // Instances starting together must not register the same version twice
+    await this.collection.createIndex({ subject: 1, version: 1 }, { unique: true });
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.client) {
+      await this.client.close();
+      this.client = null;
+      this.collection = null;
+    }
+  }
+
+  async load(): Promise<RegisteredSchema[]> {
+    const documents = await this.getCollection().find({}).sort({ _id: 1 }).toArray();
+    return documents.map(({ _id, ...schema }) => ({ id: _id, ...schema }) as RegisteredSchema);
+  }
+
+  async add(schema: RegisteredSchema): Promise<void> {
+    const { id, ...document } = schema;
+    await this.getCollection().insertOne({ _id: id, ...document });
+  }
+
+  /**
+   * Get the schema collection
+   * @private
+   */
+  private getCollection(): Collection<any> {
+    if (!this.collection) {
+      throw new Error('MongoDB schema registry store is not connected');
+    }
+    return this.collection;
+  }
+}
+
+/**
+ * Embedded registry of the versions of the schemas in schemas/AvroSchemas.ts
+ *
+ * Each schema is a subject whose versions get globally unique IDs, which Avro
+ * messages carry in their header. At startup every code schema is registered:
+ * a schema unchanged since its last registration keeps its ID, and a changed
+ * one becomes a new version only if it is compatible with the latest
+ * registered version, so an incompatible change fails the deployment instead
+ * of breaking consumers. Messages are decoded with the schema version they
+ * were written with, resolved into the version in the code.
+ */
+export class SchemaRegistry implements SchemaIdResolver {
+  private logger = new Logger('SchemaRegistry');
+  private store: SchemaRegistryStore;
+  private schemasById = new Map<number, RegisteredSchema>();
+  private versions = new Map<string, RegisteredSchema[]>();
+  // Version of each subject that matches the code
+  private current = new Map<string, RegisteredSchema>();
+  private writerSchemas = new Map<number, avro.Type>();
+  private initialized = false;
+
+  /**
+   * Create a new schema registry
+   * @param options Registry options
+   * @param seedIds IDs given to the first version of each subject when free
+   */
+  constructor(
+    private readonly options: SchemaRegistryOptions = config.kafka.schemaRegistry,
+    private readonly seedIds: Record<string, number> = config.kafka.serialization.schemaIds,
+  ) {
+    this.store = options.store === 'mongo'
+      ? new MongoSchemaRegistryStore(options.mongoCollection)
+      : new FileSchemaRegistryStore(options.filePath);
+  }
+
+  /**
+   * Load the registered versions and register the code schemas
+   * @throws If any code schema is incompatible with its latest registered version
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    await this.store.connect();
+    for (const schema of await this.store.load()) {
+      this.index(schema);
+    }
+
+    const failures: string[] = [];
+    for (const subject of Object.keys(schemas) as SchemaName[]) {
+      try {
+        this.current.set(subject, await this.register(subject, schemas[subject]));
+      } catch (error) {
+        failures.push((error as Error).message);
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new Error(`Code schemas are incompatible with the schema registry:\n${failures.join('\n')}`);
+    }
+
+    this.initialized = true;
+    this.logger.info(`Schema registry holds ${this.schemasById.size} versions of ${this.versions.size} schemas`);
+  }
+
+  /**
+   * Disconnect from the backing store
+   */
+  async close(): Promise<void> {
+    await this.store.disconnect();
+    this.initialized = false;
+  }
+
+  /**
+   * Register a schema version under a subject
+   * @param subject Subject to register under
+   * @param definition Avro schema definition
+   * @returns The existing version if the definition is already registered, otherwise the new version
+   * @throws If the definition is incompatible with the latest version of the subject
+   */
+  async register(subject: string, definition: any): Promise<RegisteredSchema> {
+    const fingerprint = this.getFingerprint(definition);
+    const versions = this.versions.get(subject) || [];
+
+    const existing = versions.find(schema => schema.fingerprint === fingerprint);
+    if (existing) {
+      return existing;
+    }
+
+    const errors = this.checkCompatibility(subject, definition);
+    if (errors.length > 0) {
+      throw new Error(`${subject} is not ${this.options.compatibility} compatible with version ${versions[versions.length - 1].version}: ${errors.join('; ')}`);
+    }
+
+    const schema: RegisteredSchema = {
+      id: this.nextId(subject, versions.length === 0),
+      subject,
+      version: versions.length + 1,
+      fingerprint,
+      definition,
+      registeredAt: new Date().toISOString(),
+    };
+
+    await this.store.add(schema);
+    this.index(schema);
+    this.logger.info(`Registered ${subject} version ${schema.version} with ID ${schema.id}`);
+
+    return schema;
+  }
+
+  /**
+   * Check a schema definition against the latest version of a subject
+   * @param subject Subject the definition would be registered under
+   * @param definition Avro schema definition
+   * @returns Compatibility errors, or an empty array if the definition may be registered
+   */
+  checkCompatibility(subject: string, definition: any): string[] {
+    const versions = this.versions.get(subject);
+    if (!versions || versions.length === 0 || this.options.compatibility === 'NONE') {
+      return [];
+    }
+
+    const candidate = avro.parse(definition);
+    const latest = this.getWriterSchema(versions[versions.length - 1].id)!;
+    const errors: string[] = [];
+
+    if (this.options.compatibility === 'BACKWARD' || this.options.compatibility === 'FULL') {
+      const error = this.getResolutionError(candidate, latest);
+      if (error) {
+        errors.push(`cannot read data written with the latest version: ${error}`);
+      }
+    }
+
+    if (this.options.compatibility === 'FORWARD' || this.options.compatibility === 'FULL') {
+      const error = this.getResolutionError(latest, candidate);
+      if (error) {
+        errors.push(`the latest version cannot read its data: ${error}`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Get the ID of the version of a schema in the code
+   * @param schemaName Schema name
+   */
+  getSchemaId(schemaName: SchemaName): number {
+    const schema = this.current.get(schemaName);
+    if (!schema) {
+      throw new Error(this.initialized ? `Schema ${schemaName} is not registered` : 'Schema registry is not initialized');
+    }
+    return schema.id;
+  }
+
+  /**
+   * Get the subject of a schema version
+   * @param schemaId Schema ID
+   */
+  getSchemaName(schemaId: number): SchemaName | undefined {
+    return this.schemasById.get(schemaId)?.subject as SchemaName | undefined;
+  }
+
+  /**
+   * Get the compiled schema version data was written with
+   * @param schemaId Schema ID
+   */
+  getWriterSchema(schemaId: number): avro.Type | undefined {
+    const schema = this.schemasById.get(schemaId);
+    if (!schema) {
+      return undefined;
+    }
+
+    // The version in the code needs no resolution
+    if (this.current.get(schema.subject)?.id === schemaId) {
+      return getSchema(schema.subject as SchemaName);
+    }
+
+    if (!this.writerSchemas.has(schemaId)) {
+      this.writerSchemas.set(schemaId, avro.parse(schema.definition));
+    }
+    return this.writerSchemas.get(schemaId);
+  }
+
+  /**
+   * Get the registered versions of a subject
+   * @param subject Subject
+   */
+  getVersions(subject: string): RegisteredSchema[] {
+    return this.versions.get(subject) || [];
+  }
+
+  /**
+   * Add a schema version to the in-memory indexes
+   * @param schema Registered schema version
+   * @private
+   */
+  private index(schema: RegisteredSchema): void {
+    this.schemasById.set(schema.id, schema);
+    const versions = this.versions.get(schema.subject) || [];
+    this.versions.set(schema.subject, [...versions, schema].sort((a, b) => a.version - b.version));
+  }
+
+  /**
+   * Get the ID of a new schema version
+   * @param subject Subject of the version
+   * @param first Whether this is the first version of the subject
+   * @private
+   */
+  private nextId(subject: string, first: boolean): number {
+    const seedId = this.seedIds[subject];
+    if (first && seedId !== undefined && !this.schemasById.has(seedId)) {
+      return seedId;
+    }
+
+    // Stay clear of seed IDs so subjects registered later still get theirs
+    return Math.max(0, ...this.schemasById.keys(), ...Object.values(this.seedIds)) + 1;
+  }
+
+  /**
+   * Get the fingerprint of a schema definition
+   * @param definition Avro schema definition
+   * @private
+   */
+  private getFingerprint(definition: any): string {
+    return crypto.createHash('sha256').update(JSON.stringify(definition)).digest('hex');
+  }
+
+  /**
+   * Get the reason data written with one schema cannot be read as another
+   * @param reader Compiled reader schema
+   * @param writer Compiled writer schema
+   * @returns The reason, or null if the data can be read
+   * @private
+   */
+  private getResolutionError(reader: avro.Type, writer: avro.Type): string | null {
+    try {
+      reader.createResolver(writer);
+      return null;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+}
+
+/**
+ * Shared schema registry, initialized at startup
+ */
+export const schemaRegistry = new SchemaRegistry();